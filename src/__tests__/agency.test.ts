@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+    AgencyDetector,
+    detectAgencySignals,
+    isAgencyPosting,
+    normalizeCompanyName,
+} from '../agency.js';
+import type { JobListingFull } from '../types.js';
+
+const ROLE =
+    'We are building a data platform for payments. You will design Spark pipelines, ' +
+    'own the Airflow scheduling, tune Snowflake models and work with analysts on ' +
+    'reporting for finance and risk teams across the United States.';
+
+const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    title: 'Data Engineer',
+    company: 'Acme Payments Inc.',
+    location: 'Austin, TX',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    employmentType: 'FULLTIME',
+    description: ROLE,
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('normalizeCompanyName', () => {
+    it('should drop punctuation and legal suffixes', () => {
+        expect(normalizeCompanyName('TEKsystems, Inc.')).toBe('teksystems');
+        expect(normalizeCompanyName('Robert Half LLC')).toBe('robert half');
+    });
+});
+
+describe('detectAgencySignals', () => {
+    it('should not flag a direct employer', () => {
+        const signals = detectAgencySignals(job());
+        expect(signals).toEqual([]);
+        expect(isAgencyPosting(signals)).toBe(false);
+    });
+
+    it('should flag known agencies and the Third Party employment type on their own', () => {
+        expect(isAgencyPosting(detectAgencySignals(job({ company: 'Insight Global' })))).toBe(true);
+        expect(isAgencyPosting(detectAgencySignals(job({ employmentType: 'THIRD_PARTY' })))).toBe(
+            true
+        );
+        expect(
+            isAgencyPosting(detectAgencySignals(job({ company: 'Globex' }), ['Globex Corp']))
+        ).toBe(true);
+    });
+
+    it('should need two weaker signals', () => {
+        expect(detectAgencySignals(job({ company: 'Bright Talent Partners' }))).toEqual([
+            'companyName',
+        ]);
+        expect(isAgencyPosting(['companyName'])).toBe(false);
+
+        const signals = detectAgencySignals(
+            job({
+                company: 'Bright Talent Partners',
+                description: `Our client, a fintech, is hiring. W2 only, no C2C. USC/GC only. ${ROLE}`,
+            })
+        );
+        expect(signals).toEqual(['companyName', 'clientReference', 'c2c', 'w2Only', 'visaList']);
+        expect(isAgencyPosting(signals)).toBe(true);
+    });
+
+    it('should not flag a direct employer on contract phrasing alone', () => {
+        const contract = `Contract role, W2 only, no C2C. ${ROLE}`;
+        expect(isAgencyPosting(detectAgencySignals(job({ description: contract })))).toBe(false);
+
+        const signals = detectAgencySignals(
+            job({ company: 'Globex Consulting', description: `Our client is hiring. ${ROLE}` })
+        );
+        expect(signals).toEqual(['companyName', 'clientReference']);
+        expect(isAgencyPosting(signals)).toBe(false);
+    });
+
+    it('should use the industry of scraped company profiles', () => {
+        const signals = detectAgencySignals(job({ industry: 'Staffing and Recruiting' }));
+        expect(signals).toEqual(['agencyIndustry']);
+    });
+});
+
+describe('AgencyDetector', () => {
+    it('should point postings of a cluster to its first posting', () => {
+        const detector = new AgencyDetector();
+
+        expect(detector.classify(job({ id: 'job-2', company: 'Kforce' }))).toEqual({
+            isStaffingAgency: true,
+            agencySignals: ['knownAgency'],
+        });
+        expect(detector.duplicateOf(job(), 'job-1')).toBeUndefined();
+        expect(detector.duplicateOf(job({ id: 'job-2' }), 'job-1')).toBe('job-1');
+
+        detector.recordOutcome('grouped');
+        expect(detector.getStats()).toEqual({ flagged: 1, duplicates: 1, excluded: 0, grouped: 1 });
+    });
+
+    it('should continue from saved counts', () => {
+        const detector = new AgencyDetector();
+        detector.classify(job({ company: 'Kforce' }));
+        detector.recordOutcome('excluded');
+
+        const restored = new AgencyDetector();
+        restored.restore(JSON.parse(JSON.stringify(detector.getStats())));
+        restored.classify(job({ id: 'job-2', company: 'Robert Half' }));
+        restored.duplicateOf(job({ id: 'job-2' }), 'job-1');
+
+        expect(restored.getStats()).toEqual({ flagged: 2, duplicates: 1, excluded: 1, grouped: 0 });
+    });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { existsSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { chromium } from 'playwright';
+import { load } from 'cheerio';
+import {
+    Configuration,
+    Dataset,
+    Request,
+    RequestQueue,
+    SessionError,
+    log,
+    purgeDefaultStorages,
+    type PlaywrightCrawlingContext,
+} from 'crawlee';
+import { createCrawler, crawlJobs } from '../crawler.js';
+import {
+    createBrowserCrawler,
+    createBrowserRouter,
+    recordFailedBrowserRequest,
+} from '../browser.js';
+import { getJobBudget, getRouterState, initRouter } from '../routes.js';
+import { getJobKey } from '../registry.js';
+import { RequestThrottle } from '../throttle.js';
+import {
+    InputSchema,
+    type JobListingBasic,
+    type JobListingFull,
+    type RunStatistics,
+} from '../types.js';
+
+// Search page whose job card is only added by its script, like Dice's client-rendered pages
+const CLIENT_RENDERED_SEARCH = `<html><body>
+<div data-cy="search-results"></div>
+<script>
+    document.querySelector('[data-cy="search-results"]').innerHTML =
+        '<div data-cy="card">' +
+        '<a data-cy="card-title-link" href="https://www.dice.com/job-detail/0f4c3a52-5d8e-4f7b-9c1e-2b6a7d9e8f10">Rendered Java Developer</a>' +
+        '<a data-cy="card-company-link">Render Labs</a>' +
+        '<span data-cy="card-location">Austin, TX</span>' +
+        '</div>';
+</script>
+</body></html>`;
+
+// Search page as the browser renders it, with a next page
+const RENDERED_SEARCH = `<html><body>
+<div data-cy="search-results">
+    <div data-cy="card">
+        <a data-cy="card-title-link" href="https://www.dice.com/job-detail/0f4c3a52-5d8e-4f7b-9c1e-2b6a7d9e8f10">Rendered Java Developer</a>
+        <a data-cy="card-company-link">Render Labs</a>
+        <span data-cy="card-location">Austin, TX</span>
+    </div>
+</div>
+<button data-cy="pagination-next">Next</button>
+</body></html>`;
+
+// Job detail page as the browser renders it
+const RENDERED_DETAIL = `<html><body>
+<h1 data-cy="jobTitle">Rendered Java Developer</h1>
+<div data-cy="jobDescription"><p>Build Java services with Spring.</p></div>
+</body></html>`;
+
+// Whether Playwright's Chromium is installed
+const hasBrowser = existsSync(chromium.executablePath());
+
+describe('browser fallback', () => {
+    let server: Server;
+    let serverUrl: string;
+
+    /**
+     * Input and statistics of a run over the client-rendered search page
+     */
+    const setupRun = (browserFallback: boolean) => {
+        const input = InputSchema.parse({
+            startUrls: [{ url: `${serverUrl}/jobs?q=java` }],
+            scrapeJobDetails: false,
+            maxConcurrency: 1,
+            browserFallback,
+        });
+        const statistics: RunStatistics = {
+            jobsFound: 0,
+            jobsScraped: 0,
+            jobsWithDetails: 0,
+            errors: 0,
+            startTime: new Date(),
+        };
+        initRouter(input);
+
+        return { input, statistics };
+    };
+
+    beforeAll(async () => {
+        Configuration.getGlobalConfig().set('persistStorage', false);
+        log.setLevel(log.LEVELS.OFF);
+
+        server = createServer((_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end(CLIENT_RENDERED_SEARCH);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        log.setLevel(log.LEVELS.INFO);
+    });
+
+    beforeEach(async () => {
+        await purgeDefaultStorages({ onlyPurgeOnce: false });
+        await (await Dataset.open()).drop();
+        await (await RequestQueue.open()).drop();
+    });
+
+    it('should leave search pages without cards alone when the fallback is off', async () => {
+        const { input, statistics } = setupRun(false);
+
+        const jobsFound = await crawlJobs(createCrawler({ input, statistics }), input);
+
+        expect(jobsFound).toBe(0);
+        expect(getRouterState().browserPages).toEqual([]);
+    });
+
+    it('should queue search pages without cards for the browser', async () => {
+        const { input, statistics } = setupRun(true);
+
+        const jobsFound = await crawlJobs(createCrawler({ input, statistics }), input);
+
+        expect(jobsFound).toBe(0);
+        expect(getRouterState().browserPages).toMatchObject([
+            { url: `${serverUrl}/jobs?q=java`, userData: { label: 'SEARCH' } },
+        ]);
+    });
+
+    describe('browser handlers', () => {
+        /**
+         * Context of a page the browser has loaded, with a stubbed Playwright page
+         * serving the given HTML
+         */
+        const renderedPage = (request: Request, html: string, status = 200) => {
+            const awaitedSelectors: string[] = [];
+            const addedRequests: Request[] = [];
+            const context = {
+                request,
+                log,
+                page: {
+                    waitForSelector: async (selector: string) => {
+                        awaitedSelectors.push(selector);
+                    },
+                    content: async () => html,
+                },
+                response: { status: () => status },
+                crawler: {
+                    addRequests: async (requests: Request[]) => {
+                        addedRequests.push(...requests);
+                    },
+                },
+                parseWithCheerio: async () => load(html),
+            } as unknown as PlaywrightCrawlingContext;
+
+            return { context, awaitedSelectors, addedRequests };
+        };
+
+        /**
+         * Request of a search page queued for the browser
+         */
+        const searchRequest = () =>
+            new Request({
+                url: 'https://www.dice.com/jobs?q=java',
+                label: 'SEARCH',
+                userData: { label: 'SEARCH', page: 1, searchName: 'default' },
+            });
+
+        it('should collect the jobs of rendered search pages and render the next page', async () => {
+            setupRun(true);
+            const router = createBrowserRouter(new RequestThrottle(1));
+            const { context, awaitedSelectors, addedRequests } = renderedPage(
+                searchRequest(),
+                RENDERED_SEARCH
+            );
+
+            await router(context);
+
+            expect(awaitedSelectors).toEqual(['div[data-cy="card"]']);
+            expect(getRouterState().jobs).toMatchObject([
+                { title: 'Rendered Java Developer', company: 'Render Labs' },
+            ]);
+            expect(getRouterState().browserPages).toEqual([]);
+            expect(addedRequests).toMatchObject([
+                {
+                    url: 'https://www.dice.com/jobs?q=java&page=2',
+                    uniqueKey: 'browser-https://www.dice.com/jobs?q=java&page=2',
+                },
+            ]);
+        });
+
+        it('should back off and retry blocked pages', async () => {
+            setupRun(true);
+            const throttle = new RequestThrottle(1);
+            const router = createBrowserRouter(throttle);
+            const { context } = renderedPage(searchRequest(), RENDERED_SEARCH, 403);
+
+            await expect(router(context)).rejects.toThrow(SessionError);
+
+            expect(throttle.getBackoff('https://www.dice.com/jobs')).toBeGreaterThan(0);
+            expect(getRouterState().jobs).toEqual([]);
+        });
+
+        it('should save the details of rendered job pages', async () => {
+            setupRun(true);
+            const router = createBrowserRouter(new RequestThrottle(1));
+            const jobBasic: JobListingBasic = {
+                id: '0f4c3a52-5d8e-4f7b-9c1e-2b6a7d9e8f10',
+                guid: '0f4c3a52-5d8e-4f7b-9c1e-2b6a7d9e8f10',
+                title: 'Rendered Java Developer',
+                company: 'Render Labs',
+                location: 'Austin, TX',
+                url: 'https://www.dice.com/job-detail/0f4c3a52-5d8e-4f7b-9c1e-2b6a7d9e8f10',
+            };
+            const request = new Request({
+                url: jobBasic.url,
+                label: 'JOB_DETAIL',
+                userData: { label: 'JOB_DETAIL', jobBasic, searchName: 'default' },
+            });
+            const { context, awaitedSelectors } = renderedPage(request, RENDERED_DETAIL);
+
+            await router(context);
+            const { items } = await Dataset.getData<JobListingFull>();
+
+            expect(awaitedSelectors).toEqual([
+                'h1[data-cy="jobTitle"], div[data-cy="jobDescription"]',
+            ]);
+            expect(items).toMatchObject([
+                {
+                    title: 'Rendered Java Developer',
+                    company: 'Render Labs',
+                    description: 'Build Java services with Spring.',
+                },
+            ]);
+        });
+
+        it('should save jobs whose rendered page keeps failing with their search data', async () => {
+            const { statistics } = setupRun(true);
+            const jobBasic: JobListingBasic = {
+                id: '0f4c3a52-5d8e-4f7b-9c1e-2b6a7d9e8f10',
+                title: 'Senior Java Developer',
+                company: 'Render Labs',
+                location: 'Austin, TX',
+                url: 'https://www.dice.com/job-detail/0f4c3a52-5d8e-4f7b-9c1e-2b6a7d9e8f10',
+            };
+            getJobBudget().reserve(getJobKey(jobBasic), 'default');
+            const request = new Request({
+                url: jobBasic.url,
+                label: 'JOB_DETAIL',
+                userData: { label: 'JOB_DETAIL', jobBasic, searchName: 'default' },
+            });
+
+            await recordFailedBrowserRequest(request, new Error('Timed out'), statistics);
+            const { items } = await Dataset.getData<JobListingFull>();
+
+            expect(items).toMatchObject([
+                {
+                    title: 'Senior Java Developer',
+                    seniority: 'senior',
+                    error: 'Failed to extract full details',
+                },
+            ]);
+            expect(items[0].scrapedAt).toBeDefined();
+            expect(statistics.errors).toBe(1);
+            expect(getJobBudget().getStats()).toMatchObject({ committed: 1, released: 0 });
+        });
+    });
+
+    it.skipIf(!hasBrowser)('should save the jobs of pages rendered in the browser', async () => {
+        const { input, statistics } = setupRun(true);
+
+        const jobsFound = await crawlJobs(
+            createCrawler({ input, statistics }),
+            input,
+            undefined,
+            createBrowserCrawler({ input, statistics })
+        );
+        const { items } = await Dataset.getData<JobListingFull>();
+
+        expect(jobsFound).toBe(1);
+        expect(items).toMatchObject([{ title: 'Rendered Java Developer', company: 'Render Labs' }]);
+        expect(getRouterState().browserPages).toEqual([]);
+        expect(statistics.errors).toBe(0);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { JobBudget, type StoppedPage } from '../budget.js';
+
+const page = (searchName: string, uniqueKey: string): StoppedPage => ({
+    url: 'https://job-search-api.svc.dhigroupinc.com/v1/dice/jobs/search?page=2',
+    uniqueKey,
+    userData: { label: 'SEARCH_API', page: 2, searchName },
+});
+
+describe('JobBudget', () => {
+    it('should reserve slots up to the search limit', () => {
+        const budget = new JobBudget(new Map([['java', 2]]), 100);
+
+        expect(budget.reserve('a', 'java')).toBe(true);
+        expect(budget.reserve('b', 'java')).toBe(true);
+        expect(budget.hasRoom('java')).toBe(false);
+        expect(budget.reserve('c', 'java')).toBe(false);
+
+        // A job found again keeps its slot
+        expect(budget.reserve('a', 'java')).toBe(true);
+    });
+
+    it('should count a job against every search that found it', () => {
+        const budget = new JobBudget(new Map(), 1);
+
+        budget.reserve('a', 'java');
+        budget.reserve('a', 'python');
+
+        expect(budget.hasRoom('java')).toBe(false);
+        expect(budget.hasRoom('python')).toBe(false);
+
+        budget.release('a');
+        expect(budget.hasRoom('java')).toBe(true);
+        expect(budget.hasRoom('python')).toBe(true);
+    });
+
+    it('should keep committed slots and free released ones', () => {
+        const budget = new JobBudget(new Map(), 2);
+        budget.reserve('a', 'default');
+        budget.reserve('b', 'default');
+
+        budget.commit('a');
+        budget.release('b');
+        budget.release('a');
+
+        expect(budget.isPending('a')).toBe(false);
+        expect(budget.hasRoom('default')).toBe(true);
+        expect(budget.reserve('b', 'default')).toBe(false);
+        expect(budget.getStats()).toMatchObject({ committed: 1, released: 1, pending: 0 });
+    });
+
+    it('should not limit searches with a limit of 0', () => {
+        const budget = new JobBudget(new Map(), 0);
+        for (let i = 0; i < 500; i++) budget.reserve(`job-${i}`, 'default');
+
+        expect(budget.hasRoom('default')).toBe(true);
+    });
+
+    it('should stop detail requests at maxDetailRequests', () => {
+        const budget = new JobBudget(new Map(), 100, 2);
+
+        expect(['a', 'b', 'c'].map(key => budget.reserveDetailRequest(key))).toEqual([
+            true,
+            true,
+            false,
+        ]);
+        // A job asking again keeps its request without counting it twice
+        expect(budget.reserveDetailRequest('a')).toBe(true);
+        expect(budget.getStats().detailRequests).toBe(2);
+    });
+
+    it('should hand out stopped pages once their search has room again', () => {
+        const budget = new JobBudget(new Map(), 1);
+        budget.reserve('a', 'default');
+        budget.recordStop('api-default-', page('default', 'search-default-page-2'));
+
+        expect(budget.takeRefills()).toEqual([]);
+        expect(budget.stoppedSearches()).toEqual(['default']);
+
+        budget.release('a');
+        const [refill] = budget.takeRefills();
+        expect(refill.uniqueKey).toBe('search-default-page-2-refill-1');
+        expect(budget.stoppedSearches()).toEqual([]);
+
+        budget.recordStop('api-default-', page('default', refill.uniqueKey));
+        expect(budget.takeRefills()[0].uniqueKey).toBe('search-default-page-2-refill-2');
+    });
+
+    it('should continue from a saved state', () => {
+        const budget = new JobBudget(new Map(), 2, 5);
+        budget.reserve('a', 'default');
+        budget.reserve('b', 'default');
+        budget.commit('a');
+        budget.release('b');
+        budget.reserveDetailRequest('a');
+
+        const restored = new JobBudget(new Map(), 2, 5);
+        restored.restore(JSON.parse(JSON.stringify(budget.getState())));
+
+        expect(restored.getStats()).toEqual(budget.getStats());
+        expect(restored.reserve('c', 'default')).toBe(true);
+        expect(restored.hasRoom('default')).toBe(false);
+        expect(restored.reserveDetailRequest('a')).toBe(true);
+        expect(restored.getStats().detailRequests).toBe(1);
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+    JobClusterer,
+    applyRepresentatives,
+    normalizeLocation,
+    normalizeTitle,
+    summarizeClusters,
+} from '../cluster.js';
+import type { JobListingFull } from '../types.js';
+
+const ROLE =
+    'We are building a data platform for payments. You will design Spark pipelines, ' +
+    'own the Airflow scheduling, tune Snowflake models and work with analysts on ' +
+    'reporting for finance and risk teams across the United States.';
+
+const OTHER_ROLE =
+    'Ship features in our Swift banking app, pair with designers on SwiftUI screens ' +
+    'and keep the release train healthy with good test coverage and crash reporting.';
+
+const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    title: 'Data Engineer',
+    company: 'Acme Payments Inc.',
+    location: 'Austin, TX',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    description: ROLE,
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('normalizeTitle', () => {
+    it('should drop noise words and spell out abbreviations', () => {
+        expect(normalizeTitle('Sr. Data Engineer (Remote) - W2 only')).toBe('senior data engineer');
+        expect(normalizeTitle('Senior Data Engineer - Full-Time')).toBe('senior data engineer');
+    });
+});
+
+describe('normalizeLocation', () => {
+    it('should drop the country and collapse remote locations', () => {
+        expect(normalizeLocation('Austin, TX, USA')).toBe('austin tx');
+        expect(normalizeLocation('Remote or Austin, TX')).toBe('remote');
+    });
+});
+
+describe('JobClusterer', () => {
+    it('should cluster reposts with small title or location differences', () => {
+        const clusterer = new JobClusterer();
+
+        expect(clusterer.assign(job())).toBe('job-1');
+        expect(
+            clusterer.assign(
+                job({
+                    id: 'job-2',
+                    title: 'Data Engineer - Remote',
+                    company: 'Kforce',
+                    location: 'Remote',
+                    description: `${ROLE} Apply today.`,
+                })
+            )
+        ).toBe('job-1');
+        // A repost of the repost joins the same cluster
+        expect(clusterer.assign(job({ id: 'job-3', description: `${ROLE} Apply now!` }))).toBe(
+            'job-1'
+        );
+        // Assigning a posting again keeps its cluster
+        expect(clusterer.assign(job({ id: 'job-2' }))).toBe('job-1');
+    });
+
+    it('should keep different roles apart', () => {
+        const clusterer = new JobClusterer();
+        clusterer.assign(job());
+
+        expect(
+            clusterer.assign(job({ id: 'job-2', title: 'iOS Engineer', description: OTHER_ROLE }))
+        ).toBe('job-2');
+        // Same description, unrelated title
+        expect(clusterer.assign(job({ id: 'job-3', title: 'Product Designer' }))).toBe('job-3');
+    });
+
+    it('should cluster short postings only on the same company, title and location', () => {
+        const clusterer = new JobClusterer();
+        const short = { description: undefined, summary: 'Data Engineer in Austin' };
+
+        clusterer.assign(job(short));
+        expect(clusterer.assign(job({ ...short, id: 'job-2', title: 'Data Engineer (W2)' }))).toBe(
+            'job-1'
+        );
+        expect(clusterer.assign(job({ ...short, id: 'job-3', company: 'Globex' }))).toBe('job-3');
+        expect(clusterer.assign(job({ ...short, id: 'job-4', location: 'Denver, CO' }))).toBe(
+            'job-4'
+        );
+    });
+
+    it('should track the best representative of each cluster', () => {
+        const clusterer = new JobClusterer();
+        clusterer.assign(job({ isStaffingAgency: true }));
+        expect(clusterer.representativeOf('job-1')).toBe('job-1');
+
+        clusterer.assign(job({ id: 'job-2', company: 'Acme Payments', salary: '$150k' }));
+        clusterer.assign(job({ id: 'job-3', company: 'Acme Payments' }));
+        expect(clusterer.representativeOf('job-1')).toBe('job-2');
+    });
+
+    it('should honor the similarity threshold', () => {
+        const clusterer = new JobClusterer(0.99);
+        clusterer.assign(job());
+        const repost = job({ id: 'job-2', company: 'Kforce', description: `${ROLE} Apply today.` });
+        expect(clusterer.assign(repost)).toBe('job-2');
+    });
+
+    it('should continue from the saved records', () => {
+        const clusterer = new JobClusterer();
+        const short = { description: undefined, summary: 'Data Engineer in Austin' };
+        const saved = [
+            job({ isStaffingAgency: true }),
+            job({ id: 'job-2', company: 'Acme Payments', salary: '$150k' }),
+            job({ ...short, id: 'job-3', company: 'Globex' }),
+        ].map(posting => ({ ...posting, clusterId: clusterer.assign(posting) }));
+
+        const restored = new JobClusterer();
+        restored.restore(JSON.parse(JSON.stringify(saved)));
+
+        expect(restored.assign(job({ id: 'job-2' }))).toBe('job-1');
+        expect(restored.representativeOf('job-1')).toBe('job-2');
+        // Later postings still match by description and by company, title and location
+        expect(restored.assign(job({ id: 'job-4', company: 'Kforce', location: 'Remote' }))).toBe(
+            'job-1'
+        );
+        expect(restored.assign(job({ ...short, id: 'job-5', company: 'Globex' }))).toBe('job-3');
+    });
+});
+
+describe('summarizeClusters', () => {
+    it('should pick a direct-employer, complete representative and count openings', () => {
+        const report = summarizeClusters([
+            job({ clusterId: 'job-1', isStaffingAgency: true, salary: '$150k' }),
+            job({ id: 'job-2', clusterId: 'job-1', company: 'Acme Payments' }),
+            job({ id: 'job-3', clusterId: 'job-1', company: 'Acme Payments', salary: '$150k' }),
+            job({ id: 'job-4', clusterId: 'job-4', title: 'iOS Engineer' }),
+        ]);
+
+        expect(report.stats).toEqual({
+            postings: 4,
+            uniqueOpenings: 2,
+            duplicatePostings: 2,
+            clustersWithDuplicates: 1,
+            largestCluster: 3,
+        });
+        expect(report.clusters).toEqual([
+            {
+                clusterId: 'job-1',
+                representativeId: 'job-3',
+                size: 3,
+                jobIds: ['job-1', 'job-2', 'job-3'],
+                titles: ['Data Engineer'],
+                companies: ['Acme Payments Inc.', 'Acme Payments'],
+                locations: ['Austin, TX'],
+            },
+        ]);
+    });
+
+    it('should prefer the earliest posting among equally complete ones', () => {
+        const report = summarizeClusters([
+            job({ clusterId: 'job-1', postedDateTimestamp: 2000 }),
+            job({ id: 'job-2', clusterId: 'job-1', postedDateTimestamp: 1000 }),
+        ]);
+        expect(report.clusters[0].representativeId).toBe('job-2');
+    });
+
+    it('should set the final representative on the saved jobs', () => {
+        const jobs = [
+            job({ clusterId: 'job-1', clusterRepresentativeId: 'job-1' }),
+            job({ id: 'job-2', clusterId: 'job-1', salary: '$150k' }),
+            job({ id: 'job-3', clusterId: 'job-3', title: 'iOS Engineer' }),
+        ];
+
+        const saved = applyRepresentatives(jobs, summarizeClusters(jobs));
+        expect(saved.map(item => item.clusterRepresentativeId)).toEqual([
+            'job-2',
+            'job-2',
+            undefined,
+        ]);
+    });
+});
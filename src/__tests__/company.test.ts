@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+    CompanyCache,
+    collectCompanies,
+    getCompanyPageUrl,
+    parseCompanyReference,
+} from '../company.js';
+import { extractStructuredCompanyData } from '../structured.js';
+import type { CompanyProfile, JobListingFull } from '../types.js';
+
+const profile: CompanyProfile = {
+    companyId: 'acme-corp',
+    name: 'Acme Corp',
+    url: 'https://www.dice.com/company-profile/acme-corp',
+    description: 'Developer tools',
+    website: 'https://acme.example.com',
+    size: '1001-5000 employees',
+    industry: 'Software',
+    headquarters: 'Austin, TX, US',
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+};
+
+const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    title: 'Engineer',
+    company: 'Acme Corp',
+    companyId: 'acme-corp',
+    location: 'Austin, TX',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('parseCompanyReference', () => {
+    it('should accept company IDs and profile URLs', () => {
+        expect(parseCompanyReference('acme-corp')).toBe('acme-corp');
+        expect(
+            parseCompanyReference(' https://www.dice.com/company-profile/acme-corp?tab=jobs ')
+        ).toBe('acme-corp');
+        expect(parseCompanyReference('https://www.dice.com/jobs?q=java')).toBeNull();
+    });
+
+    it('should build profile URLs', () => {
+        expect(getCompanyPageUrl('acme-corp')).toBe(
+            'https://www.dice.com/company-profile/acme-corp'
+        );
+        expect(getCompanyPageUrl('acme-corp', '/company-profile/acme')).toBe(
+            'https://www.dice.com/company-profile/acme'
+        );
+    });
+});
+
+describe('CompanyCache', () => {
+    it('should fill empty company fields and keep scraped ones', () => {
+        const cache = new CompanyCache();
+        cache.add(profile);
+
+        const enriched = cache.enrich(
+            job({ companyWebsite: 'https://acme.com', fieldSources: { title: 'jsonLd' } })
+        );
+
+        expect(enriched).toMatchObject({
+            companyDescription: 'Developer tools',
+            companyWebsite: 'https://acme.com',
+            companySize: '1001-5000 employees',
+            industry: 'Software',
+            companyHeadquarters: 'Austin, TX, US',
+        });
+        expect(enriched.fieldSources).toEqual({
+            title: 'jsonLd',
+            companyDescription: 'company',
+            companySize: 'company',
+            industry: 'company',
+            companyHeadquarters: 'company',
+        });
+    });
+
+    it('should leave jobs of unknown companies unchanged', () => {
+        const cache = new CompanyCache();
+        cache.add(profile);
+
+        const other = job({ companyId: 'globex' });
+        expect(cache.enrich(other)).toBe(other);
+        expect(cache.enrich(job()).fieldSources).toBeUndefined();
+    });
+});
+
+describe('collectCompanies', () => {
+    it('should list each company once', () => {
+        const companies = collectCompanies([
+            job({ companyPageUrl: 'https://www.dice.com/company-profile/acme-corp' }),
+            job({ id: 'job-2' }),
+            job({ id: 'job-3', companyId: undefined }),
+        ]);
+
+        expect(Array.from(companies)).toEqual([
+            ['acme-corp', 'https://www.dice.com/company-profile/acme-corp'],
+        ]);
+    });
+});
+
+describe('extractStructuredCompanyData', () => {
+    it('should read a JSON-LD Organization', () => {
+        const data = extractStructuredCompanyData([
+            {
+                type: 'application/ld+json',
+                content: JSON.stringify({
+                    '@graph': [
+                        {
+                            '@type': 'Organization',
+                            name: 'Acme Corp',
+                            sameAs: 'https://acme.example.com',
+                            numberOfEmployees: { minValue: 51, maxValue: 200 },
+                            address: { addressLocality: 'Austin', addressRegion: 'TX' },
+                        },
+                    ],
+                }),
+            },
+        ]);
+
+        expect(data).toEqual({
+            name: 'Acme Corp',
+            website: 'https://acme.example.com',
+            size: '51-200 employees',
+            headquarters: 'Austin, TX',
+        });
+    });
+
+    it('should ignore pages without an Organization', () => {
+        expect(
+            extractStructuredCompanyData([
+                { type: 'application/ld+json', content: '{"@type":"JobPosting"}' },
+            ])
+        ).toBeUndefined();
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeJobDates, parsePostedDate, toIsoDate } from '../dates.js';
+import type { JobListingFull } from '../types.js';
+
+const NOW = Date.parse('2024-03-10T12:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('parsePostedDate', () => {
+    it('should resolve relative phrases against the crawl time', () => {
+        expect(parsePostedDate('Posted 2 days ago', NOW)).toBe(NOW - 2 * DAY);
+        expect(parsePostedDate('30+ days ago', NOW)).toBe(NOW - 30 * DAY);
+        expect(parsePostedDate('an hour ago', NOW)).toBe(NOW - 60 * 60 * 1000);
+        expect(parsePostedDate('3 weeks ago', NOW)).toBe(NOW - 21 * DAY);
+        expect(parsePostedDate('Today', NOW)).toBe(NOW);
+        expect(parsePostedDate('Posted Yesterday', NOW)).toBe(NOW - DAY);
+    });
+
+    it('should parse absolute dates and reject text without a date', () => {
+        expect(parsePostedDate('Posted on Mar 1, 2024', NOW)).toBe(new Date(2024, 2, 1).getTime());
+        expect(parsePostedDate('2024-03-01T10:00:00Z', NOW)).toBe(
+            Date.parse('2024-03-01T10:00:00Z')
+        );
+        expect(parsePostedDate('Unknown', NOW)).toBeUndefined();
+        expect(parsePostedDate('Engineer 2', NOW)).toBeUndefined();
+        expect(parsePostedDate('', NOW)).toBeUndefined();
+    });
+});
+
+describe('toIsoDate', () => {
+    it('should normalize parseable dates only', () => {
+        expect(toIsoDate('2024-03-01T10:00:00+02:00')).toBe('2024-03-01T08:00:00.000Z');
+        expect(toIsoDate('not a date')).toBeUndefined();
+        expect(toIsoDate(undefined)).toBeUndefined();
+    });
+});
+
+describe('normalizeJobDates', () => {
+    const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+        id: 'job-1',
+        title: 'Data Engineer',
+        company: 'Acme',
+        location: 'Austin, TX',
+        url: 'https://www.dice.com/job-detail/job-1',
+        scrapedAt: new Date(NOW).toISOString(),
+        ...overrides,
+    });
+
+    it('should derive postedAt from the timestamp', () => {
+        expect(normalizeJobDates(job({ postedDateTimestamp: NOW - DAY }))).toEqual({
+            postedDateTimestamp: NOW - DAY,
+            postedAt: '2024-03-09T12:00:00.000Z',
+            updatedAt: undefined,
+            expiresAt: undefined,
+        });
+    });
+
+    it('should resolve the display date against scrapedAt when no timestamp is known', () => {
+        const dates = normalizeJobDates(
+            job({ postedDate: '5 days ago', updatedAt: '2024-03-08', expiresAt: 'never' })
+        );
+        expect(dates.postedAt).toBe('2024-03-05T12:00:00.000Z');
+        expect(dates.postedDateTimestamp).toBe(NOW - 5 * DAY);
+        expect(dates.updatedAt).toBe('2024-03-08T00:00:00.000Z');
+        expect(dates.expiresAt).toBeUndefined();
+    });
+
+    it('should leave jobs without any posted date undated', () => {
+        expect(normalizeJobDates(job()).postedAt).toBeUndefined();
+    });
+});
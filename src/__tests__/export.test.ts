@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { flattenValue, resolveExportColumns, toCsv, toJsonl } from '../export.js';
+import type { ExportOptions, JobListingFull } from '../types.js';
+
+const options: ExportOptions = {
+    formats: ['csv', 'jsonl'],
+    columns: [],
+    arrayDelimiter: '; ',
+    csvDelimiter: ',',
+    dropDescriptionHtml: true,
+};
+
+const job: JobListingFull = {
+    id: 'job-1',
+    title: 'Engineer, "Platform"',
+    company: 'Acme',
+    location: 'Austin, TX',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    description: 'Line one\nLine two',
+    descriptionHtml: '<p>Line one</p>',
+    skills: ['TypeScript', 'Node.js'],
+    salaryMinAnnual: 120000,
+    easyApply: true,
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    fieldSources: { title: 'jsonLd' },
+};
+
+describe('resolveExportColumns', () => {
+    it('should order default columns like JobListingFull and append unknown keys', () => {
+        const columns = resolveExportColumns([{ ...job, extra: 1 }], options);
+
+        expect(columns.slice(0, 4)).toEqual(['id', 'title', 'company', 'location']);
+        expect(columns.slice(-2)).toEqual(['fieldSources', 'extra']);
+        expect(columns).not.toContain('descriptionHtml');
+        expect(columns).not.toContain('benefits');
+    });
+
+    it('should keep the configured columns and order', () => {
+        const columns = resolveExportColumns([job], {
+            ...options,
+            columns: ['url', 'title', 'url', 'missing'],
+        });
+        expect(columns).toEqual(['url', 'title', 'missing']);
+    });
+
+    it('should keep descriptionHtml when not dropped', () => {
+        const columns = resolveExportColumns([job], { ...options, dropDescriptionHtml: false });
+        expect(columns).toContain('descriptionHtml');
+    });
+});
+
+describe('flattenValue', () => {
+    it('should join arrays and serialize objects', () => {
+        expect(flattenValue(['a', 'b'], '|')).toBe('a|b');
+        expect(flattenValue({ title: 'jsonLd' }, '|')).toBe('{"title":"jsonLd"}');
+        expect(flattenValue(undefined, '|')).toBe('');
+        expect(flattenValue(false, '|')).toBe('false');
+        expect(flattenValue(120000, '|')).toBe('120000');
+    });
+});
+
+describe('toCsv', () => {
+    it('should quote cells with delimiters, quotes and line breaks', () => {
+        const csv = toCsv([job], ['id', 'title', 'location', 'description', 'skills'], options);
+
+        expect(csv).toBe(
+            'id,title,location,description,skills\r\n' +
+                'job-1,"Engineer, ""Platform""","Austin, TX","Line one\nLine two",TypeScript; Node.js\r\n'
+        );
+    });
+
+    it('should use the configured delimiters', () => {
+        const csv = toCsv([job], ['id', 'location', 'skills'], {
+            ...options,
+            csvDelimiter: '\t',
+            arrayDelimiter: ',',
+        });
+
+        expect(csv).toBe('id\tlocation\tskills\r\njob-1\tAustin, TX\tTypeScript,Node.js\r\n');
+    });
+});
+
+describe('toJsonl', () => {
+    it('should write one object per line with the selected columns in order', () => {
+        const jsonl = toJsonl([job, { id: 'job-2' }], ['title', 'id', 'skills']);
+        const lines = jsonl.trimEnd().split('\n');
+
+        expect(lines).toHaveLength(2);
+        expect(Object.keys(JSON.parse(lines[0]))).toEqual(['title', 'id', 'skills']);
+        expect(JSON.parse(lines[0]).skills).toEqual(['TypeScript', 'Node.js']);
+        expect(JSON.parse(lines[1])).toEqual({ id: 'job-2' });
+    });
+});
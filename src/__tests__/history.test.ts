@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { ChangeTracker, diffJobs, type SnapshotStore } from '../history.js';
+import type { JobListingFull } from '../types.js';
+
+const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    guid: 'guid-1',
+    title: 'Data Engineer',
+    company: 'Acme',
+    location: 'Austin, TX',
+    url: 'https://www.dice.com/job-detail/guid-1',
+    salaryMaxAnnual: 150000,
+    description: 'Build data pipelines.',
+    skills: ['Python', 'Spark'],
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+/**
+ * Key-value store stand-in backed by a map
+ */
+function memoryStore(): SnapshotStore & { records: Map<string, unknown> } {
+    const records = new Map<string, unknown>();
+    return {
+        records,
+        getValue: async <T>(key: string) => (records.get(key) as T) ?? null,
+        setValue: async (key: string, value: unknown) => {
+            records.set(key, value);
+        },
+    };
+}
+
+describe('diffJobs', () => {
+    const ignore = new Set(['scrapedAt']);
+
+    it('should list changed, added and removed fields', () => {
+        const changes = diffJobs(
+            job({ salary: '$150k' }),
+            job({
+                salaryMaxAnnual: 170000,
+                skills: ['Python', 'Spark', 'Airflow'],
+                city: 'Austin',
+            }),
+            ignore,
+            '2024-01-08T00:00:00.000Z'
+        );
+
+        expect(changes.map(({ field, oldValue, newValue }) => [field, oldValue, newValue])).toEqual(
+            [
+                ['salaryMaxAnnual', 150000, 170000],
+                ['skills', ['Python', 'Spark'], ['Python', 'Spark', 'Airflow']],
+                ['salary', '$150k', null],
+                ['city', null, 'Austin'],
+            ]
+        );
+        expect(changes[0]).toMatchObject({
+            jobId: 'job-1',
+            detectedAt: '2024-01-08T00:00:00.000Z',
+            previousScrapedAt: '2024-01-01T00:00:00.000Z',
+        });
+    });
+
+    it('should not report detail fields missing from a search-only record', () => {
+        const searchOnly = job({ description: undefined, skills: undefined });
+        delete searchOnly.description;
+        delete searchOnly.skills;
+
+        expect(diffJobs(job(), searchOnly, ignore, '2024-01-08T00:00:00.000Z')).toEqual([]);
+    });
+});
+
+describe('ChangeTracker', () => {
+    it('should compare each job with its stored version', async () => {
+        const store = memoryStore();
+        const tracker = new ChangeTracker(store, ['scrapedAt', 'fieldSources']);
+
+        expect(await tracker.compare(job({ fieldSources: { title: 'jsonLd' } }))).toEqual([]);
+        expect(store.records.get('guid-1')).not.toHaveProperty('fieldSources');
+
+        const changes = await tracker.compare(
+            job({ title: 'Senior Data Engineer', scrapedAt: '2024-01-08T00:00:00.000Z' })
+        );
+        expect(changes.map(change => change.field)).toEqual(['title']);
+        expect(await tracker.compare(job({ error: 'Failed to extract full details' }))).toEqual([]);
+
+        expect(tracker.getStats()).toEqual({ compared: 2, newJobs: 1, changedJobs: 1, changes: 1 });
+    });
+
+    it('should continue from saved counts', async () => {
+        const store = memoryStore();
+        const tracker = new ChangeTracker(store);
+        await tracker.compare(job());
+
+        const restored = new ChangeTracker(store);
+        restored.restore(JSON.parse(JSON.stringify(tracker.getStats())));
+        await restored.compare(
+            job({ guid: 'guid-2', url: 'https://www.dice.com/job-detail/guid-2' })
+        );
+
+        expect(restored.getStats()).toEqual({
+            compared: 2,
+            newJobs: 2,
+            changedJobs: 0,
+            changes: 0,
+        });
+    });
+});
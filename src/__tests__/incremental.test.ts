@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { SeenJobsIndex, type SeenJobEntry } from '../incremental.js';
+
+describe('SeenJobsIndex', () => {
+    const previous = {
+        'job-1': {
+            modifiedDate: '2024-01-01T00:00:00Z',
+            firstSeenAt: '2024-01-01T00:00:00Z',
+            lastSeenAt: '2024-01-01T00:00:00Z',
+        },
+    };
+
+    it('should classify unknown jobs as new', () => {
+        const index = new SeenJobsIndex({});
+        expect(index.check('job-1', '2024-01-01T00:00:00Z')).toBe('new');
+        index.record('job-1');
+        expect(index.stats).toEqual({ new: 1, updated: 0, unchanged: 0 });
+    });
+
+    it('should classify jobs with a different modifiedDate as updated', () => {
+        const index = new SeenJobsIndex({ ...previous });
+        expect(index.check('job-1', '2024-02-01T00:00:00Z')).toBe('updated');
+        expect(index.shouldEmit('job-1', '2024-02-01T00:00:00Z')).toBe(true);
+    });
+
+    it('should classify jobs with the same or missing modifiedDate as unchanged', () => {
+        expect(new SeenJobsIndex({ ...previous }).check('job-1', '2024-01-01T00:00:00Z')).toBe(
+            'unchanged'
+        );
+        expect(new SeenJobsIndex({ ...previous }).shouldEmit('job-1')).toBe(false);
+    });
+
+    it('should count each job only once per run', () => {
+        const index = new SeenJobsIndex({});
+        index.check('job-2');
+        index.check('job-2');
+        expect(index.check('job-2')).toBe('new');
+        index.record('job-2');
+        index.record('job-2');
+        expect(index.stats.new).toBe(1);
+        expect(index.size).toBe(1);
+    });
+
+    it('should only add jobs to the index once they are saved', () => {
+        const entries: Record<string, SeenJobEntry> = { ...previous };
+        const index = new SeenJobsIndex(entries);
+        index.check('job-2');
+        index.check('job-1', '2024-02-01T00:00:00Z');
+
+        expect(entries['job-2']).toBeUndefined();
+        expect(entries['job-1'].modifiedDate).toBe('2024-01-01T00:00:00Z');
+        expect(index.stats).toEqual({ new: 0, updated: 0, unchanged: 0 });
+
+        index.record('job-1');
+        expect(entries['job-1'].modifiedDate).toBe('2024-02-01T00:00:00Z');
+        expect(index.stats).toEqual({ new: 0, updated: 1, unchanged: 0 });
+    });
+
+    it('should continue from a saved state', () => {
+        const index = new SeenJobsIndex({ ...previous });
+        index.check('job-1');
+        index.check('job-2');
+        index.record('job-2');
+        index.check('job-3');
+
+        // The restarted run reopens the index as the previous run left it
+        const entries: Record<string, SeenJobEntry> = { ...previous };
+        const restored = new SeenJobsIndex(entries);
+        restored.restore(JSON.parse(JSON.stringify(index.getState())));
+
+        expect(restored.stats).toEqual({ new: 1, updated: 0, unchanged: 1 });
+        expect(Object.keys(entries).sort()).toEqual(['job-1', 'job-2']);
+        expect(restored.shouldEmit('job-2')).toBe(true);
+        restored.record('job-2');
+        restored.record('job-3');
+        expect(restored.stats).toEqual({ new: 2, updated: 0, unchanged: 1 });
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { JobLifecycleTracker, getClosingSearches, isRemovedPosting } from '../lifecycle.js';
+import { InputSchema, type JobListingBasic } from '../types.js';
+
+const job = (overrides: Partial<JobListingBasic> = {}): JobListingBasic => ({
+    id: 'job-1',
+    guid: 'guid-1',
+    title: 'Data Engineer',
+    company: 'Acme',
+    location: 'Austin, TX',
+    url: 'https://www.dice.com/job-detail/guid-1',
+    ...overrides,
+});
+
+const previous = {
+    'guid-1': {
+        status: 'active' as const,
+        firstSeenAt: '2024-03-01T00:00:00.000Z',
+        lastSeenAt: '2024-03-08T00:00:00.000Z',
+        postedAt: '2024-02-28T00:00:00.000Z',
+        title: 'Data Engineer',
+        company: 'Acme',
+        searchNames: ['default'],
+    },
+};
+
+describe('isRemovedPosting', () => {
+    it('should detect gone pages and "no longer available" notices', () => {
+        expect(isRemovedPosting(404, '')).toBe(true);
+        expect(isRemovedPosting(200, 'Sorry, this job is no longer available.')).toBe(true);
+        expect(isRemovedPosting(200, 'We build data pipelines.')).toBe(false);
+    });
+});
+
+describe('getClosingSearches', () => {
+    it('should skip searches with a posted-date window and custom start URLs', () => {
+        const input = InputSchema.parse({
+            searches: [{ name: 'all' }, { name: 'recent', postedDate: 'SEVEN' }],
+        });
+        expect(getClosingSearches(input)).toEqual(['all']);
+        expect(
+            getClosingSearches({ ...input, startUrls: [{ url: 'https://www.dice.com/jobs' }] })
+        ).toEqual([]);
+    });
+});
+
+describe('JobLifecycleTracker', () => {
+    it('should keep the first-seen date and refresh the last-seen date', () => {
+        const tracker = new JobLifecycleTracker({ ...previous });
+        tracker.markSeen(job(), 'default', '2024-03-09T00:00:00.000Z');
+
+        expect(tracker.getDates(job())).toEqual({
+            firstSeenAt: '2024-03-01T00:00:00.000Z',
+            lastSeenAt: '2024-03-09T00:00:00.000Z',
+        });
+        expect(tracker.closeMissing(['default'])).toBe(0);
+    });
+
+    it('should close jobs complete searches no longer return and report time to fill', () => {
+        const tracker = new JobLifecycleTracker({ ...previous });
+        expect(tracker.closeMissing(['default'], '2024-03-10T00:00:00.000Z')).toBe(1);
+
+        const report = tracker.buildReport();
+        expect(report.closedJobs).toEqual([
+            {
+                id: 'guid-1',
+                title: 'Data Engineer',
+                company: 'Acme',
+                postedAt: '2024-02-28T00:00:00.000Z',
+                firstSeenAt: '2024-03-01T00:00:00.000Z',
+                closedAt: '2024-03-10T00:00:00.000Z',
+                closedReason: 'missing',
+                daysOpen: 11,
+            },
+        ]);
+        expect(report.stats).toEqual({
+            tracked: 1,
+            active: 0,
+            closed: 1,
+            closedThisRun: 1,
+            reopened: 0,
+            medianDaysOpen: 11,
+            averageDaysOpen: 11,
+        });
+    });
+
+    it('should not close jobs of incomplete or other searches', () => {
+        const tracker = new JobLifecycleTracker({ ...previous });
+        tracker.markIncomplete('default');
+        expect(tracker.closeMissing(['default', 'other'])).toBe(0);
+    });
+
+    it('should close removed postings and reopen jobs found again', () => {
+        const tracker = new JobLifecycleTracker({ ...previous });
+        tracker.markRemoved('guid-1', '2024-03-10T00:00:00.000Z');
+        expect(tracker.buildReport().closedJobs[0].closedReason).toBe('removed');
+
+        const next = new JobLifecycleTracker({
+            'guid-1': {
+                ...previous['guid-1'],
+                status: 'closed',
+                closedAt: '2024-03-10T00:00:00.000Z',
+            },
+        });
+        next.markSeen(job(), 'default');
+        expect(next.buildReport().stats).toMatchObject({ active: 1, closed: 0, reopened: 1 });
+    });
+
+    it('should continue from a saved state', () => {
+        const other = job({ id: 'job-2', guid: 'guid-2', title: 'iOS Engineer' });
+        const tracker = new JobLifecycleTracker({ ...previous });
+        tracker.markSeen(job(), 'default', '2024-03-09T00:00:00.000Z');
+        tracker.markSeen(other, 'mobile', '2024-03-09T00:00:00.000Z');
+        tracker.markIncomplete('mobile');
+
+        // The restarted run reopens the lifecycles as the previous run left them
+        const restored = new JobLifecycleTracker({ ...previous });
+        restored.restore(JSON.parse(JSON.stringify(tracker.getState())));
+
+        expect(restored.getDates(job()).lastSeenAt).toBe('2024-03-09T00:00:00.000Z');
+        expect(restored.getDates(other).firstSeenAt).toBe('2024-03-09T00:00:00.000Z');
+        // Jobs seen before the restart stay active, and incomplete searches close nothing
+        expect(restored.closeMissing(['default', 'mobile'])).toBe(0);
+        expect(restored.buildReport().stats).toMatchObject({ tracked: 2, active: 2 });
+    });
+});
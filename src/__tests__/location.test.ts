@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeJobLocation, parseLocation, parsePlace } from '../location.js';
+import type { JobListingFull } from '../types.js';
+
+describe('parsePlace', () => {
+    it('should parse city, state, country and postal code', () => {
+        expect(parsePlace('Austin, Texas 78701, USA')).toEqual({
+            city: 'Austin',
+            state: 'TX',
+            countryCode: 'US',
+            postalCode: '78701',
+            latitude: 30.27,
+            longitude: -97.74,
+        });
+        expect(parsePlace('Toronto, ON, CA')).toMatchObject({ state: 'ON', countryCode: 'CA' });
+        expect(parsePlace('San Jose, CA')).toMatchObject({ state: 'CA', countryCode: 'US' });
+    });
+
+    it('should resolve cities, aliases and accents without a state', () => {
+        expect(parsePlace('London')).toMatchObject({ city: 'London', countryCode: 'GB' });
+        expect(parsePlace('Bengaluru, India')).toMatchObject({
+            city: 'Bangalore',
+            countryCode: 'IN',
+        });
+        expect(parsePlace('São Paulo')).toMatchObject({ city: 'Sao Paulo', countryCode: 'BR' });
+        expect(parsePlace('Cambridge, UK')).toMatchObject({ latitude: 52.21, countryCode: 'GB' });
+        expect(parsePlace('Berlin, DE')).toMatchObject({ city: 'Berlin', countryCode: 'DE' });
+        expect(parsePlace('Berlin, DE')).not.toHaveProperty('state');
+    });
+
+    it('should fall back to the state or country center for unknown cities', () => {
+        expect(parsePlace('Frisco, TX')).toEqual({
+            city: 'Frisco',
+            state: 'TX',
+            countryCode: 'US',
+            latitude: 31.05,
+            longitude: -97.56,
+        });
+        expect(parsePlace('Germany')).toMatchObject({ countryCode: 'DE', latitude: 51.17 });
+        expect(parsePlace('Smallville')).toEqual({ city: 'Smallville' });
+    });
+});
+
+describe('parseLocation', () => {
+    it('should split multi-location strings and detect remote and hybrid markers', () => {
+        const remote = parseLocation('Remote or New York, NY');
+        expect(remote.isRemote).toBe(true);
+        expect(remote.isHybrid).toBe(false);
+        expect(remote.places).toEqual([
+            {
+                city: 'New York',
+                state: 'NY',
+                countryCode: 'US',
+                latitude: 40.71,
+                longitude: -74.01,
+            },
+        ]);
+
+        const multi = parseLocation('Austin, TX; Dallas, TX | Denver, CO (Hybrid)');
+        expect(multi.isHybrid).toBe(true);
+        expect(multi.places.map(place => place.city)).toEqual(['Austin', 'Dallas', 'Denver']);
+    });
+
+    it('should return no places for remote-only and placeholder locations', () => {
+        expect(parseLocation('Remote').places).toEqual([]);
+        expect(parseLocation('Multiple Locations').places).toEqual([]);
+        expect(parseLocation('Unknown Location').places).toEqual([]);
+        expect(parseLocation('Remote - US').places).toEqual([
+            { countryCode: 'US', latitude: 39.83, longitude: -98.58 },
+        ]);
+    });
+});
+
+describe('normalizeJobLocation', () => {
+    const job = (location: string, workplaceType?: string): JobListingFull => ({
+        id: 'job-1',
+        title: 'Engineer',
+        company: 'Acme',
+        location,
+        workplaceType,
+        postedDate: 'Today',
+        url: 'https://www.dice.com/job-detail/job-1',
+        scrapedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    it('should flatten the first place and list every place when there are several', () => {
+        expect(normalizeJobLocation(job('Seattle, WA', 'Hybrid'))).toEqual({
+            city: 'Seattle',
+            state: 'WA',
+            countryCode: 'US',
+            latitude: 47.61,
+            longitude: -122.33,
+            isRemote: false,
+            isHybrid: true,
+            locations: undefined,
+        });
+
+        const fields = normalizeJobLocation(job('Boston, MA or Remote'));
+        expect(fields).toMatchObject({ city: 'Boston', isRemote: true });
+        expect(fields.locations).toBeUndefined();
+
+        expect(normalizeJobLocation(job('Boston, MA / Chicago, IL')).locations).toHaveLength(2);
+    });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { log } from 'apify';
+import {
+    buildPayload,
+    filterJobsForWebhook,
+    matchesRule,
+    notifyNewJobs,
+    renderTemplate,
+    signPayload,
+} from '../notifications.js';
+import { WebhookSchema, type JobListingFull } from '../types.js';
+
+const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    title: 'Senior TypeScript Engineer',
+    company: 'Acme & Sons',
+    location: 'Remote',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    description: 'Build APIs with Node.js',
+    descriptionHtml: '<p>Build APIs with Node.js</p>',
+    skills: ['TypeScript', 'Node.js'],
+    salaryMinAnnual: 150000,
+    salaryMaxAnnual: 180000,
+    workplaceType: 'Remote',
+    searchNames: ['typescript'],
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('matchesRule', () => {
+    it('should match on search, keywords, salary and workplace type', () => {
+        expect(matchesRule(job(), { search: 'typescript', keywords: ['node.js'] })).toBe(true);
+        expect(matchesRule(job(), { search: 'python' })).toBe(false);
+        expect(matchesRule(job(), { keywords: ['golang'] })).toBe(false);
+        expect(matchesRule(job(), { excludeKeywords: ['senior'] })).toBe(false);
+        expect(matchesRule(job(), { minSalaryAnnual: 170000 })).toBe(true);
+        expect(matchesRule(job(), { minSalaryAnnual: 200000 })).toBe(false);
+        expect(matchesRule(job({ workplaceType: 'On-Site' }), { workplaceTypes: ['Remote'] })).toBe(
+            false
+        );
+        expect(matchesRule(job(), { easyApplyOnly: true })).toBe(false);
+    });
+
+    it('should not match salary rules for jobs without a salary', () => {
+        const noSalary = job({ salaryMinAnnual: undefined, salaryMaxAnnual: undefined });
+        expect(matchesRule(noSalary, { minSalaryAnnual: 1 })).toBe(false);
+    });
+});
+
+describe('filterJobsForWebhook', () => {
+    const jobs = [
+        job({ id: 'ts', searchNames: ['typescript'] }),
+        job({ id: 'py', searchNames: ['python'], salaryMaxAnnual: 90000 }),
+    ];
+
+    it('should send every job when the webhook has no rules', () => {
+        const webhook = WebhookSchema.parse({ url: 'https://example.com/hook' });
+        expect(filterJobsForWebhook(jobs, webhook)).toHaveLength(2);
+    });
+
+    it('should apply per-search rules', () => {
+        const webhook = WebhookSchema.parse({
+            url: 'https://example.com/hook',
+            rules: [{ search: 'typescript' }, { search: 'python', minSalaryAnnual: 120000 }],
+        });
+        expect(filterJobsForWebhook(jobs, webhook).map(j => j.id)).toEqual(['ts']);
+    });
+});
+
+describe('payloads', () => {
+    it('should render templates with lists and missing fields', () => {
+        expect(renderTemplate('{{title}} [{{skills}}] {{ salary }}', job())).toBe(
+            'Senior TypeScript Engineer [TypeScript, Node.js] '
+        );
+    });
+
+    it('should build Slack messages with escaped values', () => {
+        const webhook = WebhookSchema.parse({ url: 'https://hooks.slack.com/x', format: 'slack' });
+        const payload = buildPayload(webhook, [job()], { index: 1, total: 2 });
+
+        expect(payload).toEqual({
+            text:
+                '*1 new Dice job* (1/2)\n' +
+                '• <https://www.dice.com/job-detail/job-1|Senior TypeScript Engineer> at Acme &amp; Sons - Remote',
+        });
+    });
+
+    it('should build JSON payloads without descriptions', () => {
+        const webhook = WebhookSchema.parse({
+            url: 'https://example.com/hook',
+            template: '{{title}} @ {{company}}',
+        });
+        const payload = buildPayload(webhook, [job()], { index: 1, total: 1 }, { runId: 'run-1' });
+
+        expect(payload).toMatchObject({ event: 'jobs.found', runId: 'run-1', jobCount: 1 });
+        const [sent] = payload.jobs as Record<string, unknown>[];
+        expect(sent).toMatchObject({
+            id: 'job-1',
+            message: 'Senior TypeScript Engineer @ Acme & Sons',
+        });
+        expect(sent.description).toBeUndefined();
+        expect(sent.descriptionHtml).toBeUndefined();
+    });
+
+    it('should sign bodies with HMAC-SHA256', () => {
+        expect(signPayload('{}', 'secret')).toBe(
+            'sha256=77325902caca812dc259733aacd046b73817372c777b8d95b402647474516e13'
+        );
+        expect(signPayload('{}', 'secret')).not.toBe(signPayload('{}', 'other'));
+    });
+});
+
+describe('notifyNewJobs', () => {
+    let receiver: Server;
+    let receiverUrl: string;
+    let received: { path: string; headers: Record<string, unknown>; body: string }[];
+    let failuresLeft: number;
+
+    beforeAll(async () => {
+        log.setLevel(log.LEVELS.OFF);
+
+        receiver = createServer((req, res) => {
+            let body = '';
+            req.on('data', (data: Buffer) => (body += data.toString()));
+            req.on('end', () => {
+                if (failuresLeft > 0) {
+                    failuresLeft--;
+                    res.writeHead(503);
+                    res.end();
+                    return;
+                }
+                received.push({ path: req.url || '', headers: req.headers, body });
+                res.writeHead(200);
+                res.end('ok');
+            });
+        });
+        await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+        receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => receiver.close(resolve));
+        log.setLevel(log.LEVELS.INFO);
+    });
+
+    beforeEach(() => {
+        received = [];
+        failuresLeft = 0;
+    });
+
+    it('should post signed batches to the receiver', async () => {
+        const webhook = WebhookSchema.parse({
+            url: `${receiverUrl}/jobs`,
+            secret: 'top-secret',
+            headers: { 'X-Source': 'dice' },
+            batchSize: 2,
+        });
+        const jobs = ['a', 'b', 'c'].map(id => job({ id }));
+
+        const stats = await notifyNewJobs(jobs, [webhook], { retryDelayMs: 1 });
+
+        expect(stats).toEqual({ webhooks: 1, batchesSent: 2, batchesFailed: 0, jobsNotified: 3 });
+        expect(received).toHaveLength(2);
+
+        const [first] = received;
+        expect(first.path).toBe('/jobs');
+        expect(first.headers['x-source']).toBe('dice');
+        expect(first.headers['x-signature-256']).toBe(signPayload(first.body, 'top-secret'));
+        expect(JSON.parse(first.body)).toMatchObject({
+            batch: { index: 1, total: 2 },
+            jobCount: 2,
+        });
+    });
+
+    it('should retry failed deliveries', async () => {
+        failuresLeft = 2;
+        const webhook = WebhookSchema.parse({ url: receiverUrl, format: 'slack' });
+
+        const stats = await notifyNewJobs([job()], [webhook], { retryDelayMs: 1 });
+
+        expect(stats.batchesSent).toBe(1);
+        expect(received).toHaveLength(1);
+        expect(JSON.parse(received[0].body).text).toContain('Senior TypeScript Engineer');
+    });
+
+    it('should count batches that keep failing without throwing', async () => {
+        failuresLeft = 10;
+        const webhook = WebhookSchema.parse({ url: receiverUrl });
+
+        const stats = await notifyNewJobs([job()], [webhook], { retryDelayMs: 1 });
+
+        expect(stats).toMatchObject({ batchesSent: 0, batchesFailed: 1, jobsNotified: 0 });
+    });
+
+    it('should skip webhooks with no matching jobs', async () => {
+        const webhook = WebhookSchema.parse({ url: receiverUrl, rules: [{ search: 'python' }] });
+
+        const stats = await notifyNewJobs([job()], [webhook], { retryDelayMs: 1 });
+
+        expect(stats.batchesSent).toBe(0);
+        expect(received).toHaveLength(0);
+    });
+});
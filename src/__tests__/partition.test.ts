@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+    SearchPartitioner,
+    describePartition,
+    isFullyCovered,
+    reachableJobs,
+    splitSearch,
+} from '../partition.js';
+import type { SearchParams } from '../types.js';
+
+const params = (overrides: Partial<SearchParams> = {}): SearchParams => ({
+    query: 'java',
+    location: '',
+    radius: 30,
+    employmentTypes: [],
+    postedDate: 'ANY',
+    workplaceTypes: [],
+    easyApply: false,
+    page: 1,
+    pageSize: 100,
+    ...overrides,
+});
+
+describe('reachableJobs', () => {
+    it('should cap the pages at the deepest page the API serves', () => {
+        expect(reachableJobs(5000, 50, 100)).toBe(1000);
+        expect(reachableJobs(5000, 8, 100)).toBe(800);
+        expect(reachableJobs(250, 3, 100)).toBe(250);
+    });
+});
+
+describe('splitSearch', () => {
+    it('should split by employment type, then workplace type', () => {
+        const byType = splitSearch(params());
+        expect(byType?.dimension).toBe('employmentType');
+        expect(byType?.exhaustive).toBe(true);
+        expect(byType?.children.map(child => child.employmentTypes)).toEqual([
+            ['FULLTIME'],
+            ['PARTTIME'],
+            ['CONTRACT'],
+            ['THIRD_PARTY'],
+        ]);
+
+        const byWorkplace = splitSearch(
+            params({ employmentTypes: ['CONTRACT'], workplaceTypes: ['Remote', 'Hybrid'], page: 4 })
+        );
+        expect(byWorkplace?.children.map(child => [child.workplaceTypes, child.page])).toEqual([
+            [['Remote'], 1],
+            [['Hybrid'], 1],
+        ]);
+    });
+
+    it('should split by nearby cities, then by a narrower posted-date window', () => {
+        const narrowed = { employmentTypes: ['CONTRACT'], workplaceTypes: ['On-Site'] };
+
+        const byLocation = splitSearch(params({ ...narrowed, location: 'Dallas, TX', radius: 50 }));
+        expect(byLocation?.dimension).toBe('location');
+        expect(byLocation?.exhaustive).toBe(false);
+        expect(byLocation?.children.map(child => child.location)).toContain('Fort Worth, TX');
+        expect(byLocation?.children.map(child => child.location)).not.toContain('Austin, TX');
+        expect(byLocation?.children.every(child => child.radius === 25)).toBe(true);
+
+        const byDate = splitSearch(params({ ...narrowed, location: 'Dallas, TX', radius: 25 }));
+        expect(byDate?.children.map(child => child.postedDate)).toEqual(['THIRTY']);
+
+        expect(
+            splitSearch(
+                params({ ...narrowed, location: 'Dallas, TX', radius: 25, postedDate: 'ONE' })
+            )
+        ).toBeNull();
+    });
+
+    it('should split a nationwide search into US metros', () => {
+        const split = splitSearch(
+            params({ employmentTypes: ['CONTRACT'], workplaceTypes: ['Remote'] })
+        );
+        expect(split?.children.map(child => child.location)).toContain('Austin, TX');
+        expect(split?.children.every(child => child.radius === 50)).toBe(true);
+    });
+});
+
+describe('describePartition', () => {
+    it('should list the filters a sub-search adds', () => {
+        expect(
+            describePartition(
+                params(),
+                params({ employmentTypes: ['CONTRACT'], location: 'Austin, TX', radius: 50 })
+            )
+        ).toBe('employmentType=CONTRACT,location=Austin, TX~50mi');
+    });
+});
+
+describe('SearchPartitioner', () => {
+    it('should plan each sub-search once and report coverage', () => {
+        const partitioner = new SearchPartitioner();
+        const root = params();
+
+        expect(partitioner.plan('default', root, root, 800, 8)).toBeNull();
+
+        const split = partitioner.plan('default', root, root, 5000, 50);
+        expect(split?.partitions).toEqual([
+            'employmentType=FULLTIME',
+            'employmentType=PARTTIME',
+            'employmentType=CONTRACT',
+            'employmentType=THIRD_PARTY',
+        ]);
+        expect(partitioner.plan('default', root, root, 5000, 50)?.children).toEqual([]);
+
+        partitioner.recordPage('default', undefined, 5000, ['a', 'b']);
+        partitioner.recordPage('default', 'employmentType=CONTRACT', 900, ['b', 'c']);
+
+        expect(partitioner.getReport()).toEqual([
+            {
+                searchName: 'default',
+                totalJobs: 5000,
+                jobsReached: 3,
+                coverage: 0.001,
+                subSearches: 4,
+                cappedSubSearches: 0,
+                partialSplits: 0,
+            },
+        ]);
+    });
+
+    it('should count sub-searches that cannot be split further', () => {
+        const partitioner = new SearchPartitioner();
+        const leaf = params({
+            employmentTypes: ['CONTRACT'],
+            workplaceTypes: ['Remote'],
+            location: 'Austin, TX',
+            radius: 10,
+            postedDate: 'ONE',
+        });
+
+        expect(partitioner.plan('default', params(), leaf, 3000, 30)).toBeNull();
+        expect(partitioner.getReport()[0].cappedSubSearches).toBe(1);
+    });
+
+    it('should count location and posted-date splits as partial', () => {
+        const partitioner = new SearchPartitioner();
+        const narrow = params({
+            employmentTypes: ['CONTRACT'],
+            workplaceTypes: ['Remote'],
+            location: 'Austin, TX',
+            radius: 10,
+        });
+
+        expect(partitioner.plan('default', params(), narrow, 3000, 30)).toMatchObject({
+            dimension: 'postedDate',
+            exhaustive: false,
+        });
+        expect(partitioner.getReport()[0].partialSplits).toBe(1);
+    });
+
+    it('should only treat searches that reached every job as fully covered', () => {
+        const coverage = {
+            searchName: 'default',
+            totalJobs: 80,
+            jobsReached: 80,
+            coverage: 1,
+            subSearches: 0,
+            cappedSubSearches: 0,
+            partialSplits: 0,
+        };
+
+        expect(isFullyCovered(coverage)).toBe(true);
+        expect(isFullyCovered({ ...coverage, jobsReached: 79 })).toBe(false);
+        expect(isFullyCovered({ ...coverage, cappedSubSearches: 1 })).toBe(false);
+        expect(isFullyCovered({ ...coverage, partialSplits: 2 })).toBe(false);
+    });
+
+    it('should continue from a saved state', () => {
+        const partitioner = new SearchPartitioner();
+        partitioner.plan('default', params(), params(), 5000, 50);
+        partitioner.recordPage('default', undefined, 5000, ['a', 'b']);
+
+        const restored = new SearchPartitioner();
+        restored.restore(JSON.parse(JSON.stringify(partitioner.getState())));
+
+        expect(restored.getReport()).toEqual(partitioner.getReport());
+        expect(restored.plan('default', params(), params(), 5000, 50)?.children).toEqual([]);
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { ExtractionMonitor } from '../quality.js';
+import type { JobListingFull } from '../types.js';
+
+const options = {
+    criticalFields: ['title', 'company', 'description'],
+    minFieldFillRate: 0.8,
+    failOnLowFillRate: false,
+};
+
+const detailJob = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    title: 'Engineer',
+    company: 'Acme',
+    location: 'Remote',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    description: 'Build things',
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    fieldSources: {
+        title: 'jsonLd',
+        company: 'selector',
+        location: 'search',
+        description: 'jsonLd',
+    },
+    ...overrides,
+});
+
+const recordJobs = (monitor: ExtractionMonitor, count: number, job: () => JobListingFull) => {
+    for (let i = 0; i < count; i++) monitor.recordJob(job());
+};
+
+describe('ExtractionMonitor', () => {
+    it('should split selectors by page type', () => {
+        const search = ExtractionMonitor.selectorsFor('search').map(([key]) => key);
+        const detail = ExtractionMonitor.selectorsFor('detail').map(([key]) => key);
+
+        expect(search).toContain('JOB_CARD');
+        expect(detail).toContain('DESCRIPTION');
+        expect(search.some(key => detail.includes(key))).toBe(false);
+    });
+
+    it('should report selector match rates', () => {
+        const monitor = new ExtractionMonitor(options);
+        monitor.recordSelectorHits('detail', { JOB_TITLE: true, DESCRIPTION: true });
+        monitor.recordSelectorHits('detail', { JOB_TITLE: true, DESCRIPTION: false });
+
+        const report = monitor.buildReport();
+        expect(report.detailPagesChecked).toBe(2);
+        expect(report.selectors.JOB_TITLE.fillRate).toBe(1);
+        expect(report.selectors.DESCRIPTION).toMatchObject({
+            pageType: 'detail',
+            pagesChecked: 2,
+            pagesMatched: 1,
+            fillRate: 0.5,
+        });
+    });
+
+    it('should skip the check for small samples', () => {
+        const monitor = new ExtractionMonitor(options);
+        recordJobs(monitor, 3, () => detailJob({ description: undefined }));
+
+        const report = monitor.buildReport();
+        expect(report.status).toBe('skipped');
+        expect(report.lowFillRateFields).toEqual([]);
+    });
+
+    it('should pass when critical fields are filled from the page', () => {
+        const monitor = new ExtractionMonitor(options);
+        recordJobs(monitor, 10, () => detailJob());
+
+        const report = monitor.buildReport();
+        expect(report.status).toBe('ok');
+        expect(report.fields.title).toMatchObject({
+            filled: 10,
+            fillRate: 1,
+            pageFillRate: 1,
+            sources: { jsonLd: 10 },
+        });
+    });
+
+    it('should not count values copied from search results or placeholders', () => {
+        const monitor = new ExtractionMonitor(options);
+        recordJobs(monitor, 10, () =>
+            detailJob({
+                company: 'Unknown Company',
+                fieldSources: { title: 'search', description: 'jsonLd' },
+            })
+        );
+
+        const report = monitor.buildReport();
+        expect(report.status).toBe('warning');
+        expect(report.fields.title.fillRate).toBe(1);
+        expect(report.fields.title.pageFillRate).toBe(0);
+        expect(report.fields.company.filled).toBe(0);
+        expect(report.lowFillRateFields).toEqual([
+            { field: 'title', fillRate: 0 },
+            { field: 'company', fillRate: 0 },
+        ]);
+    });
+
+    it('should fail when configured to', () => {
+        const monitor = new ExtractionMonitor({ ...options, failOnLowFillRate: true });
+        recordJobs(monitor, 8, () => detailJob());
+        recordJobs(monitor, 2, () => detailJob({ description: '' }));
+        recordJobs(monitor, 2, () => detailJob({ description: undefined }));
+
+        const report = monitor.buildReport();
+        expect(report.fields.description.pageFillRate).toBe(0.667);
+        expect(report.status).toBe('failed');
+    });
+
+    it('should list fields that were never filled', () => {
+        const monitor = new ExtractionMonitor(options);
+        monitor.recordJob(detailJob());
+
+        const report = monitor.buildReport();
+        expect(report.fields.contactEmail).toMatchObject({ filled: 0, fillRate: 0 });
+        expect(report.fields.fieldSources).toBeUndefined();
+    });
+
+    it('should continue from a saved state', () => {
+        const monitor = new ExtractionMonitor(options);
+        monitor.recordSelectorHits('search', { JOB_CARD: true });
+        monitor.recordSelectorHits('detail', { JOB_TITLE: true, DESCRIPTION: false });
+        recordJobs(monitor, 3, () => detailJob());
+        monitor.recordJob(detailJob({ fieldSources: undefined }));
+
+        const restored = new ExtractionMonitor(options);
+        restored.restore(JSON.parse(JSON.stringify(monitor.getState())));
+        expect(restored.buildReport()).toEqual(monitor.buildReport());
+
+        monitor.recordJob(detailJob({ description: '' }));
+        restored.recordJob(detailJob({ description: '' }));
+        expect(restored.buildReport()).toEqual(monitor.buildReport());
+    });
+});
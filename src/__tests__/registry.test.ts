@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { JobRegistry, getJobKey } from '../registry.js';
+import type { JobListingBasic } from '../types.js';
+
+const job = (id: string): JobListingBasic => ({
+    id,
+    title: 'Engineer',
+    company: 'Acme',
+    location: 'Remote',
+    postedDate: 'Today',
+    url: `https://www.dice.com/job-detail/${id}`,
+});
+
+describe('JobRegistry', () => {
+    it('should store a job found by several searches once', () => {
+        const registry = new JobRegistry();
+        expect(registry.add(job('a'), 'java')).toBe(true);
+        expect(registry.add(job('a'), 'python')).toBe(true);
+        expect(registry.add(job('a'), 'java')).toBe(false);
+
+        expect(registry.size).toBe(1);
+        expect(registry.values()[0].searchNames).toEqual(['java', 'python']);
+    });
+
+    it('should keep jobs in the order they were found', () => {
+        const registry = new JobRegistry();
+        registry.add(job('b'), 'x');
+        registry.add(job('a'), 'x');
+        expect(registry.values().map(j => j.id)).toEqual(['b', 'a']);
+        expect(registry.has(job('a'))).toBe(true);
+    });
+
+    it('should merge the same job found by the API and the HTML search', () => {
+        const registry = new JobRegistry();
+        registry.add(
+            { ...job('api-id'), guid: 'abc-123', salaryMin: 100000, summary: '' },
+            'default'
+        );
+        const isNew = registry.add(
+            {
+                ...job('abc-123'),
+                guid: 'abc-123',
+                salary: '$100k',
+                summary: 'Card summary',
+                easyApply: true,
+            },
+            'default'
+        );
+
+        expect(isNew).toBe(false);
+        expect(registry.size).toBe(1);
+        expect(registry.values()[0]).toMatchObject({
+            id: 'api-id',
+            salaryMin: 100000,
+            salary: '$100k',
+            summary: 'Card summary',
+            easyApply: true,
+            searchNames: ['default'],
+        });
+    });
+});
+
+describe('getJobKey', () => {
+    it('should prefer the guid over the job ID', () => {
+        expect(getJobKey({ ...job('a'), guid: 'g' })).toBe('g');
+        expect(getJobKey(job('a'))).toBe('a');
+    });
+});
@@ -0,0 +1,395 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { Configuration, Dataset, RequestQueue, log, purgeDefaultStorages } from 'crawlee';
+import { FixtureServer, fixtureFileName, normalizeFixtureUrl } from '../fixtures.js';
+import { createCrawler, crawlJobs } from '../crawler.js';
+import {
+    getJobBudget,
+    getRouterState,
+    initRouter,
+    restoreRouterState,
+    restoreSavedJobs,
+    type RouterState,
+} from '../routes.js';
+import { RunStateStore } from '../state.js';
+import { CompanyCache } from '../company.js';
+import { isRemovedPosting } from '../lifecycle.js';
+import { RequestThrottle } from '../throttle.js';
+import {
+    InputSchema,
+    type CompanyProfile,
+    type JobListingFull,
+    type RunStatistics,
+} from '../types.js';
+
+const FIXTURES_DIR = join(import.meta.dirname, 'fixtures', 'replay');
+
+// Throttle that remembers every URL it paced
+class RecordingThrottle extends RequestThrottle {
+    readonly acquired: string[] = [];
+
+    /**
+     * Record the URL, then pace it as usual
+     */
+    override async acquire(url: string): Promise<void> {
+        this.acquired.push(url);
+        await super.acquire(url);
+    }
+}
+
+describe('fixture helpers', () => {
+    it('should normalize query parameter order', () => {
+        expect(normalizeFixtureUrl('https://www.dice.com/jobs?q=java&page=2#top')).toBe(
+            normalizeFixtureUrl('https://www.dice.com/jobs?page=2&q=java')
+        );
+    });
+
+    it('should build readable, unique file names', () => {
+        const first = fixtureFileName('https://www.dice.com/jobs?page=1', 'text/html');
+        const second = fixtureFileName('https://www.dice.com/jobs?page=2', 'text/html');
+
+        expect(first).toMatch(/^www-dice-com-jobs-[a-f0-9]{10}\.html$/);
+        expect(first).not.toBe(second);
+        expect(fixtureFileName('https://example.com/api', 'application/json')).toMatch(/\.json$/);
+    });
+});
+
+describe('replay mode', () => {
+    const server = new FixtureServer(FIXTURES_DIR, 'replay');
+
+    /**
+     * Run the real crawler against the fixtures and return the saved jobs
+     */
+    const runReplay = async (rawInput: Record<string, unknown>, throttle?: RequestThrottle) => {
+        const input = InputSchema.parse({ maxConcurrency: 1, ...rawInput });
+        const statistics: RunStatistics = {
+            jobsFound: 0,
+            jobsScraped: 0,
+            jobsWithDetails: 0,
+            errors: 0,
+            startTime: new Date(),
+        };
+
+        const companyCache = input.scrapeCompanies ? new CompanyCache() : undefined;
+        initRouter(input, { fixtureServer: server, companyCache, throttle });
+        const crawler = createCrawler({ input, statistics, fixtureServer: server, throttle });
+        const jobsFound = await crawlJobs(crawler, input);
+        const { items } = await Dataset.getData<JobListingFull>();
+
+        return { jobsFound, items, statistics };
+    };
+
+    beforeAll(async () => {
+        Configuration.getGlobalConfig().set('persistStorage', false);
+        log.setLevel(log.LEVELS.OFF);
+        await server.start();
+    });
+
+    afterAll(async () => {
+        await server.stop();
+        log.setLevel(log.LEVELS.INFO);
+    });
+
+    beforeEach(async () => {
+        await purgeDefaultStorages({ onlyPurgeOnce: false });
+        await (await Dataset.open()).drop();
+        await (await RequestQueue.open()).drop();
+    });
+
+    it('should follow API pagination and scrape every detail page', async () => {
+        const { jobsFound, items, statistics } = await runReplay({
+            searchQuery: 'typescript',
+            maxJobs: 0,
+        });
+
+        expect(jobsFound).toBe(5);
+        expect(statistics.errors).toBe(0);
+        expect(items.map(job => job.id).sort()).toEqual([
+            'dice-1',
+            'dice-2',
+            'dice-3',
+            'dice-4',
+            'dice-5',
+        ]);
+
+        const fromJsonLd = items.find(job => job.id === 'dice-1')!;
+        expect(fromJsonLd).toMatchObject({
+            title: 'Senior TypeScript Engineer',
+            company: 'Acme Corp',
+            location: 'Austin, TX, US',
+            salaryMinAnnual: 140000,
+            salaryMaxAnnual: 170000,
+            expiresAt: '2024-06-30T00:00:00.000Z',
+            searchNames: ['default'],
+        });
+        expect(fromJsonLd.fieldSources?.title).toBe('jsonLd');
+
+        const fromSelectors = items.find(job => job.id === 'dice-2')!;
+        expect(fromSelectors).toMatchObject({
+            company: 'Selector Systems',
+            location: 'Chicago, IL',
+            workplaceType: 'Hybrid',
+        });
+        expect(fromSelectors.description).toContain('Java and SQL');
+        expect(fromSelectors.fieldSources?.description).toBe('selector');
+    });
+
+    it('should pace each API search page once', async () => {
+        const throttle = new RecordingThrottle(1);
+        await runReplay({ searchQuery: 'typescript', maxJobs: 0 }, throttle);
+
+        const apiHost = 'job-search-api.svc.dhigroupinc.com';
+        const apiRequests = throttle.acquired.filter(url => new URL(url).host === apiHost);
+        expect(apiRequests).toHaveLength(2);
+        expect(apiRequests.every(url => url.includes('q=typescript'))).toBe(true);
+    });
+
+    it('should stop collecting at maxJobs', async () => {
+        const { jobsFound, items } = await runReplay({ searchQuery: 'typescript', maxJobs: 2 });
+
+        expect(jobsFound).toBe(2);
+        expect(items.map(job => job.id).sort()).toEqual(['dice-1', 'dice-2']);
+    });
+
+    it('should replace jobs dropped after collection from later result pages', async () => {
+        const throttle = new RecordingThrottle(1);
+        const { jobsFound, items } = await runReplay(
+            {
+                searchQuery: 'typescript',
+                maxJobs: 2,
+                agencyCompanies: ['Selector Systems'],
+                agencyPostings: 'exclude',
+            },
+            throttle
+        );
+
+        expect(jobsFound).toBe(3);
+        // The refilled API page calls the API from its handler, like the first one
+        const placeholders = throttle.acquired.filter(url => !/q=typescript|job-detail/.test(url));
+        expect(placeholders).toEqual([]);
+        expect(items.map(job => job.id).sort()).toEqual(['dice-1', 'dice-3']);
+        for (const job of items) {
+            expect(['dice-1', 'dice-3']).toContain(job.clusterId);
+            expect(['dice-1', 'dice-3']).toContain(job.clusterRepresentativeId);
+        }
+        expect(getJobBudget().getStats()).toEqual({
+            committed: 2,
+            released: 1,
+            pending: 0,
+            detailRequests: 3,
+            refillPages: 1,
+        });
+    });
+
+    it('should list a full search on jobs another search collected', async () => {
+        const { items } = await runReplay({
+            scrapeJobDetails: false,
+            searches: [
+                { name: 'all', searchQuery: 'typescript', maxJobs: 0 },
+                { name: 'first', searchQuery: 'typescript', maxJobs: 1 },
+            ],
+        });
+
+        // The full search stops before its second page, but lists every job of its first one
+        const searchNames = Object.fromEntries(items.map(job => [job.id, job.searchNames]));
+        expect(searchNames).toEqual({
+            'dice-1': ['all', 'first'],
+            'dice-2': ['all', 'first'],
+            'dice-3': ['all', 'first'],
+            'dice-4': ['all'],
+            'dice-5': ['all'],
+        });
+    });
+
+    it('should save jobs past maxDetailRequests with search data only', async () => {
+        const { items } = await runReplay({
+            searchQuery: 'typescript',
+            maxJobs: 3,
+            maxDetailRequests: 1,
+        });
+
+        expect(items).toHaveLength(3);
+        expect(items.filter(job => job.description)).toHaveLength(1);
+        expect(getJobBudget().getStats().detailRequests).toBe(1);
+    });
+
+    it('should fall back to the HTML search when the API returns no jobs', async () => {
+        const { jobsFound, items } = await runReplay({
+            searchQuery: 'cobol',
+            scrapeJobDetails: false,
+        });
+
+        expect(jobsFound).toBe(2);
+        expect(items).toEqual([
+            expect.objectContaining({
+                guid: 'b2000000-0000-0000-0000-000000000001',
+                title: 'COBOL Programmer',
+                company: 'Mainframe Inc',
+                salaryMinHourly: 50,
+                easyApply: false,
+            }),
+            expect.objectContaining({
+                guid: 'b2000000-0000-0000-0000-000000000002',
+                title: 'Mainframe Developer',
+                easyApply: true,
+            }),
+        ]);
+    });
+
+    it('should scrape open jobs and profiles of the given companies', async () => {
+        const { jobsFound, items } = await runReplay({
+            companies: ['https://www.dice.com/company-profile/acme-corp'],
+            scrapeCompanies: true,
+            scrapeJobDetails: false,
+        });
+
+        expect(jobsFound).toBe(2);
+        expect(items.map(job => job.id)).toEqual(['dice-acme-1', 'dice-acme-2']);
+        expect(items[0]).toMatchObject({
+            companyId: 'acme-corp',
+            companyPageUrl: 'https://www.dice.com/company-profile/acme-corp',
+            companyDescription: 'Acme builds developer tools for logistics teams.',
+            companyWebsite: 'https://acme.example.com',
+            companySize: '1001-5000 employees',
+            companyHeadquarters: 'Austin, TX, US',
+            industry: 'Software Development',
+            searchNames: ['company-acme-corp'],
+        });
+
+        const companies = await Dataset.open('dice-companies');
+        const { items: profiles } = await companies.getData<CompanyProfile>();
+        await companies.drop();
+
+        expect(profiles).toEqual([
+            expect.objectContaining({
+                companyId: 'acme-corp',
+                name: 'Acme Corp',
+                logo: 'https://cdn.example.com/acme.png',
+                openJobs: 2,
+            }),
+        ]);
+    });
+
+    it('should not repeat requests handled before a restart', async () => {
+        const first = await runReplay({ searchQuery: 'typescript', maxJobs: 0 });
+        const state = getRouterState();
+
+        // A restarted run keeps the request queue and restores the collected jobs
+        const input = InputSchema.parse({
+            maxConcurrency: 1,
+            searchQuery: 'typescript',
+            maxJobs: 0,
+        });
+        initRouter(input, { fixtureServer: server });
+        restoreRouterState(state);
+        const statistics: RunStatistics = {
+            jobsFound: 0,
+            jobsScraped: 0,
+            jobsWithDetails: 0,
+            errors: 0,
+            startTime: new Date(),
+        };
+        const crawler = createCrawler({ input, statistics, fixtureServer: server });
+        const jobsFound = await crawlJobs(crawler, input);
+        const { items } = await Dataset.getData<JobListingFull>();
+
+        expect(jobsFound).toBe(first.jobsFound);
+        expect(items).toHaveLength(first.items.length);
+        expect(statistics.jobsScraped).toBe(0);
+    });
+
+    it('should not save jobs again after a restart between run state writes', async () => {
+        const input = InputSchema.parse({
+            maxConcurrency: 1,
+            searchQuery: 'typescript',
+            maxJobs: 0,
+        });
+        const statistics: RunStatistics = {
+            jobsFound: 0,
+            jobsScraped: 0,
+            jobsWithDetails: 0,
+            errors: 0,
+            startTime: new Date(),
+        };
+        const runState = await RunStateStore.open();
+        initRouter(input, { fixtureServer: server, runState });
+        await crawlJobs(createCrawler({ input, statistics, fixtureServer: server }), input);
+        const { items: first } = await Dataset.getData<JobListingFull>();
+
+        // The last run state was written before the jobs were saved
+        const state: RouterState = JSON.parse(JSON.stringify(getRouterState()));
+        Object.values(state.budget.jobs).forEach(entry => (entry.status = 'reserved'));
+
+        const restarted = await RunStateStore.open();
+        initRouter(input, { fixtureServer: server, runState: restarted });
+        restoreRouterState(state);
+        await restoreSavedJobs(restarted.restoredSaves);
+        await crawlJobs(createCrawler({ input, statistics, fixtureServer: server }), input);
+        const { items } = await Dataset.getData<JobListingFull>();
+
+        expect(items).toHaveLength(first.length);
+        expect(getJobBudget().getStats()).toMatchObject({ committed: first.length, pending: 0 });
+    });
+
+    it('should answer URLs without a fixture with an error, not a removed posting', async () => {
+        const response = await fetch(server.localUrl('https://www.dice.com/job-detail/missing'));
+        expect(response.status).toBe(501);
+        expect(isRemovedPosting(response.status, await response.text())).toBe(false);
+    });
+});
+
+describe('record mode', () => {
+    let upstream: Server;
+    let upstreamUrl: string;
+    let dir: string;
+
+    beforeAll(async () => {
+        log.setLevel(log.LEVELS.OFF);
+        dir = await mkdtemp(join(tmpdir(), 'dice-fixtures-'));
+
+        upstream = createServer((req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ path: req.url, userAgent: req.headers['user-agent'] }));
+        });
+        await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+        upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => upstream.close(resolve));
+        await rm(dir, { recursive: true, force: true });
+        log.setLevel(log.LEVELS.INFO);
+    });
+
+    it('should save live responses that replay mode then serves', async () => {
+        const url = `${upstreamUrl}/jobs?q=java&page=1`;
+
+        const recorder = new FixtureServer(dir, 'record');
+        await recorder.start();
+        const recorded = await fetch(recorder.localUrl(url), {
+            headers: { 'User-Agent': 'fixture-test' },
+        });
+        const recordedBody = await recorded.json();
+        await recorder.stop();
+
+        expect(recordedBody).toEqual({ path: '/jobs?q=java&page=1', userAgent: 'fixture-test' });
+
+        const manifest = JSON.parse(await readFile(join(dir, 'manifest.json'), 'utf8'));
+        expect(manifest[normalizeFixtureUrl(url)]).toMatchObject({
+            status: 200,
+            contentType: 'application/json',
+        });
+
+        const replayer = new FixtureServer(dir, 'replay');
+        await replayer.start();
+        const replayed = await fetch(replayer.localUrl(`${upstreamUrl}/jobs?page=1&q=java`));
+        const replayedBody = await replayed.json();
+        await replayer.stop();
+
+        expect(replayedBody).toEqual(recordedBody);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Configuration, Dataset, log, purgeDefaultStorages } from 'crawlee';
+import { initRouter, saveJobs } from '../routes.js';
+import { applyRepresentatives, summarizeClusters } from '../cluster.js';
+import { InputSchema, type JobListingFull } from '../types.js';
+
+const ROLE =
+    'We are building a data platform for payments. You will design Spark pipelines, ' +
+    'own the Airflow scheduling, tune Snowflake models and work with analysts on ' +
+    'reporting for finance and risk teams across the United States.';
+
+const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    title: 'Data Engineer',
+    company: 'Acme Payments Inc.',
+    location: 'Austin, TX',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    description: ROLE,
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('saveJobs', () => {
+    beforeAll(() => {
+        Configuration.getGlobalConfig().set('persistStorage', false);
+        log.setLevel(log.LEVELS.OFF);
+    });
+
+    afterAll(() => {
+        log.setLevel(log.LEVELS.INFO);
+    });
+
+    beforeEach(async () => {
+        await purgeDefaultStorages({ onlyPurgeOnce: false });
+        await (await Dataset.open()).drop();
+    });
+
+    it('should save provisional representatives that the final pass settles', async () => {
+        const input = InputSchema.parse({ searchQuery: 'data', agencyPostings: 'group' });
+        initRouter(input);
+        await (await Dataset.open(input.agencyDatasetName)).drop();
+
+        await saveJobs([job({ company: 'Kforce' })]);
+        await saveJobs([job({ id: 'job-2' })]);
+        await saveJobs([job({ id: 'job-3', salary: '$150k' })]);
+
+        const { items } = await Dataset.getData<JobListingFull>();
+        const { items: agencyItems } = await (
+            await Dataset.open(input.agencyDatasetName)
+        ).getData();
+
+        // The cluster started with the agency posting; direct-employer postings
+        // name the best direct-employer posting saved up to them
+        expect(agencyItems.map(item => item.clusterRepresentativeId)).toEqual(['job-1']);
+        expect(items.map(item => [item.clusterId, item.clusterRepresentativeId])).toEqual([
+            ['job-1', 'job-2'],
+            ['job-1', 'job-3'],
+        ]);
+
+        const settled = applyRepresentatives(items, summarizeClusters(items));
+        expect(settled.map(item => item.clusterRepresentativeId)).toEqual(['job-3', 'job-3']);
+    });
+});
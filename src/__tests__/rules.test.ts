@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { JobRulesEngine, matchesJobRule } from '../rules.js';
+import { JobRuleSchema, type JobListingFull } from '../types.js';
+
+const job = (overrides: Partial<JobListingFull> = {}): JobListingFull => ({
+    id: 'job-1',
+    title: 'Senior Go Engineer',
+    company: 'Acme Staffing LLC',
+    location: 'Remote',
+    postedDate: 'Today',
+    url: 'https://www.dice.com/job-detail/job-1',
+    description: 'Build services in Go and Kubernetes at Google scale',
+    skills: ['Go', 'Kubernetes'],
+    salaryMinAnnual: 140000,
+    salaryMaxAnnual: 160000,
+    employmentType: 'Full-time',
+    workplaceType: 'Remote',
+    seniority: 'senior',
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+const rule = (input: Record<string, unknown>) => JobRuleSchema.parse(input);
+
+describe('matchesJobRule', () => {
+    it('should match whole-word keywords in the chosen field', () => {
+        expect(matchesJobRule(job(), rule({ keywords: ['go'] }))).toBe(true);
+        expect(matchesJobRule(job(), rule({ keywords: ['goog'] }))).toBe(false);
+        expect(matchesJobRule(job(), rule({ keywords: ['kubernetes'], keywordsIn: 'title' }))).toBe(
+            false
+        );
+        expect(
+            matchesJobRule(job(), rule({ keywords: ['kubernetes'], keywordsIn: 'description' }))
+        ).toBe(true);
+    });
+
+    it('should match companies, salary, skills, workplace types and seniority', () => {
+        expect(matchesJobRule(job(), rule({ companies: ['acme staffing'] }))).toBe(true);
+        expect(matchesJobRule(job(), rule({ minSalaryAnnual: 150000 }))).toBe(true);
+        expect(matchesJobRule(job(), rule({ minSalaryAnnual: 200000 }))).toBe(false);
+        expect(
+            matchesJobRule(
+                job({ salaryMinAnnual: undefined, salaryMaxAnnual: undefined }),
+                rule({ minSalaryAnnual: 1 })
+            )
+        ).toBe(false);
+        expect(matchesJobRule(job(), rule({ skills: ['go', 'KUBERNETES'] }))).toBe(true);
+        expect(matchesJobRule(job(), rule({ skills: ['Go', 'Rust'] }))).toBe(false);
+        expect(matchesJobRule(job(), rule({ workplaceTypes: ['Hybrid'] }))).toBe(false);
+        expect(matchesJobRule(job(), rule({ seniority: ['staff'] }))).toBe(false);
+        expect(matchesJobRule(job({ seniority: undefined }), rule({ seniority: ['senior'] }))).toBe(
+            false
+        );
+    });
+
+    it('should compare employment types regardless of spelling', () => {
+        expect(matchesJobRule(job(), rule({ employmentTypes: ['FULLTIME'] }))).toBe(true);
+        expect(
+            matchesJobRule(
+                job({ employmentType: 'Third Party' }),
+                rule({ employmentTypes: ['THIRD_PARTY'] })
+            )
+        ).toBe(true);
+        expect(
+            matchesJobRule(
+                job({ employmentType: undefined, jobType: 'Contract - W2' }),
+                rule({ employmentTypes: ['CONTRACT'] })
+            )
+        ).toBe(true);
+        expect(matchesJobRule(job(), rule({ employmentTypes: ['PARTTIME'] }))).toBe(false);
+    });
+
+    it('should require every condition of a rule', () => {
+        expect(matchesJobRule(job(), rule({ keywords: ['go'], minSalaryAnnual: 150000 }))).toBe(
+            true
+        );
+        expect(matchesJobRule(job(), rule({ keywords: ['go'], minSalaryAnnual: 190000 }))).toBe(
+            false
+        );
+    });
+});
+
+describe('JobRulesEngine', () => {
+    it('should add the weights of matching score rules', () => {
+        const engine = new JobRulesEngine([
+            rule({ name: 'go', keywords: ['go'], weight: 3 }),
+            rule({ name: 'well-paid', minSalaryAnnual: 150000, weight: 2 }),
+            rule({ name: 'rust', keywords: ['rust'], weight: 5 }),
+        ]);
+
+        expect(engine.apply(job())).toMatchObject({
+            matchScore: 5,
+            matchedRules: ['go', 'well-paid'],
+        });
+    });
+
+    it('should drop jobs failing require rules or matching exclude rules', () => {
+        const engine = new JobRulesEngine([
+            rule({ action: 'exclude', employmentTypes: ['THIRD_PARTY'] }),
+            rule({ name: 'remote', action: 'require', workplaceTypes: ['Remote'] }),
+        ]);
+
+        expect(engine.apply(job({ employmentType: 'Third Party' }))).toBeNull();
+        expect(engine.apply(job({ workplaceType: 'On-Site' }))).toBeNull();
+        expect(engine.apply(job())).toMatchObject({ matchScore: 0, matchedRules: ['remote'] });
+        expect(engine.getStats()).toEqual({
+            evaluated: 3,
+            saved: 1,
+            belowThreshold: 0,
+            droppedByRule: { 'rule-1': 1, remote: 1 },
+        });
+    });
+
+    it('should drop jobs scoring below the threshold', () => {
+        const engine = new JobRulesEngine([rule({ keywords: ['python'], weight: 2 })], 1);
+
+        expect(engine.apply(job())).toBeNull();
+        expect(engine.apply(job({ title: 'Python Developer' }))).toMatchObject({ matchScore: 2 });
+        expect(engine.getStats().belowThreshold).toBe(1);
+    });
+
+    it('should continue from saved counts', () => {
+        const rules = [rule({ name: 'remote', action: 'require', workplaceTypes: ['Remote'] })];
+        const engine = new JobRulesEngine(rules);
+        engine.apply(job());
+        engine.apply(job({ workplaceType: 'On-Site' }));
+
+        const restored = new JobRulesEngine(rules);
+        restored.restore(JSON.parse(JSON.stringify(engine.getStats())));
+        restored.apply(job({ workplaceType: 'Hybrid' }));
+
+        expect(restored.getStats()).toEqual({
+            evaluated: 3,
+            saved: 1,
+            belowThreshold: 0,
+            droppedByRule: { remote: 2 },
+        });
+        expect(engine.getStats().droppedByRule).toEqual({ remote: 1 });
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSalary, normalizeSalaryEstimate, bestSalary } from '../salary.js';
+import fixtures from './fixtures/salaries.json';
+
+interface SalaryFixture {
+    text: string;
+    expected: Record<string, string | number | boolean | null>;
+    minConfidence?: number;
+    maxConfidence?: number;
+}
+
+describe('normalizeSalary fixtures', () => {
+    it.each(fixtures as SalaryFixture[])('should normalize $text', fixture => {
+        const result = normalizeSalary(fixture.text);
+        expect(result).not.toBeNull();
+
+        const salary = result as unknown as Record<string, unknown>;
+        for (const [key, value] of Object.entries(fixture.expected)) {
+            if (value === null) {
+                expect(salary[key], key).toBeUndefined();
+            } else {
+                expect(salary[key], key).toBe(value);
+            }
+        }
+
+        expect(salary.salaryText).toBe(fixture.text);
+        if (fixture.minConfidence !== undefined) {
+            expect(result!.salaryConfidence).toBeGreaterThanOrEqual(fixture.minConfidence);
+        }
+        if (fixture.maxConfidence !== undefined) {
+            expect(result!.salaryConfidence).toBeLessThanOrEqual(fixture.maxConfidence);
+        }
+    });
+});
+
+describe('normalizeSalary', () => {
+    it('should return null for text without salary information', () => {
+        expect(normalizeSalary('')).toBeNull();
+        expect(normalizeSalary('Full-time position')).toBeNull();
+    });
+
+    it('should keep confidence between 0 and 1', () => {
+        for (const { text } of fixtures as SalaryFixture[]) {
+            const { salaryConfidence } = normalizeSalary(text)!;
+            expect(salaryConfidence).toBeGreaterThanOrEqual(0);
+            expect(salaryConfidence).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it('should never turn hourly contract rates into thousands', () => {
+        const result = normalizeSalary('$60-70/hr on W2');
+        expect(result?.salaryMin).toBe(60);
+        expect(result?.salaryMax).toBe(70);
+    });
+});
+
+describe('normalizeSalaryEstimate', () => {
+    it('should normalize an API estimate with a unit', () => {
+        const result = normalizeSalaryEstimate({
+            minValue: 50,
+            maxValue: 60,
+            currency: 'USD',
+            unitText: 'HOUR',
+        });
+        expect(result).toMatchObject({
+            salaryPeriod: 'hour',
+            salaryMinAnnual: 104000,
+            salaryMaxAnnual: 124800,
+            salaryConfidence: 0.8,
+        });
+    });
+
+    it('should return null for empty estimates', () => {
+        expect(normalizeSalaryEstimate(undefined)).toBeNull();
+        expect(normalizeSalaryEstimate({})).toBeNull();
+    });
+});
+
+describe('bestSalary', () => {
+    it('should prefer the most confident salary with amounts', () => {
+        const text = normalizeSalary('$45');
+        const estimate = normalizeSalaryEstimate({ minValue: 90000, unitText: 'YEAR' });
+        expect(bestSalary(text, estimate)?.salaryMinAnnual).toBe(90000);
+    });
+
+    it('should keep the raw text of a negotiable-only candidate', () => {
+        const estimate = normalizeSalaryEstimate({ minValue: 90000, unitText: 'YEAR' });
+        const result = bestSalary(normalizeSalary('DOE'), estimate);
+        expect(result?.salaryMinAnnual).toBe(90000);
+        expect(result?.salaryText).toBe('DOE');
+    });
+
+    it('should fall back to a negotiable-only salary', () => {
+        expect(bestSalary(normalizeSalary('DOE'), null)?.salaryNegotiable).toBe(true);
+        expect(bestSalary(null, undefined)).toBeNull();
+    });
+});
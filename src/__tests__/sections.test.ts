@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDescription, matchSection } from '../sections.js';
+
+describe('matchSection', () => {
+    it('should recognize common headings', () => {
+        expect(matchSection('What You Will Do')).toBe('responsibilities');
+        expect(matchSection('Basic Qualifications')).toBe('requirements');
+        expect(matchSection('Preferred Qualifications')).toBe('preferredQualifications');
+        expect(matchSection('Nice to have')).toBe('preferredQualifications');
+        expect(matchSection('Perks & Benefits')).toBe('benefits');
+        expect(matchSection('Who We Are')).toBe('about');
+        expect(matchSection('Who You Are')).toBe('requirements');
+        expect(matchSection('Location')).toBeNull();
+    });
+});
+
+describe('analyzeDescription', () => {
+    it('should split HTML headings and lists into sections', () => {
+        const sections = analyzeDescription(`
+            <p>Acme is hiring a backend engineer.</p>
+            <h3>About Us</h3>
+            <p>Acme builds logistics software.</p>
+            <h3>Responsibilities</h3>
+            <ul><li>Design APIs</li><li><p>Review code</p></li></ul>
+            <h3>Requirements</h3>
+            <ul>
+                <li>5+ years of Java</li>
+                <li>Kubernetes experience is a plus</li>
+            </ul>
+            <h3>Preferred Qualifications</h3>
+            <ul><li>Kafka</li></ul>
+            <h3>Benefits</h3>
+            <ul><li>401(k) match</li><li>Remote work</li></ul>
+            <h3>Location</h3>
+            <p>Austin, TX</p>
+        `);
+
+        expect(sections).toEqual({
+            about: ['Acme builds logistics software.'],
+            responsibilities: ['Design APIs', 'Review code'],
+            requirements: ['5+ years of Java'],
+            preferredQualifications: ['Kubernetes experience is a plus', 'Kafka'],
+            benefits: ['401(k) match', 'Remote work'],
+        });
+    });
+
+    it('should treat bold paragraphs and inline labels as headings', () => {
+        const sections = analyzeDescription(
+            '<p><strong>What you will need:</strong></p>' +
+                '<p>Experience with:</p><ul><li>TypeScript</li><li>AWS</li></ul>' +
+                '<p>Nice to have: GraphQL</p>' +
+                '<p><b>Compensation:</b> $150k plus equity</p>'
+        );
+
+        expect(sections.requirements).toEqual(['TypeScript', 'AWS']);
+        expect(sections.preferredQualifications).toEqual(['GraphQL']);
+        expect(sections.benefits).toEqual(['$150k plus equity']);
+    });
+
+    it('should read bullets from plain text', () => {
+        const sections = analyzeDescription(
+            'Qualifications\n• SQL\n• Python\n\nWhat we offer\n- Health insurance\n- PTO'
+        );
+
+        expect(sections.requirements).toEqual(['SQL', 'Python']);
+        expect(sections.benefits).toEqual(['Health insurance', 'PTO']);
+    });
+
+    it('should return empty sections for unstructured text', () => {
+        const sections = analyzeDescription(
+            '<p>We need an engineer who has the required experience and enjoys the role.</p>'
+        );
+
+        expect(Object.values(sections).every(items => items.length === 0)).toBe(true);
+    });
+});
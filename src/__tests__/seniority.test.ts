@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+    classifySeniority,
+    matchesSeniority,
+    parseExperienceYears,
+    seniorityFromText,
+} from '../seniority.js';
+import type { ExperienceProfile, JobListingFull } from '../types.js';
+
+// Labelled titles, experience levels and descriptions
+const corpus: {
+    title: string;
+    experienceLevel?: string;
+    description?: string;
+    expected: ExperienceProfile;
+}[] = JSON.parse(
+    readFileSync(join(import.meta.dirname, 'fixtures', 'seniority-corpus.json'), 'utf8')
+);
+
+describe('classifySeniority', () => {
+    it.each(corpus.map(entry => [entry.title, entry] as const))(
+        'should classify "%s"',
+        (_title, { expected, ...job }) => {
+            const result = classifySeniority(job);
+            expect(result).toEqual({
+                experienceYearsMin: expected.experienceYearsMin,
+                experienceYearsMax: expected.experienceYearsMax,
+                seniority: expected.seniority,
+            });
+        }
+    );
+});
+
+describe('parseExperienceYears', () => {
+    it('should read ranges, minimums and maximums', () => {
+        expect(parseExperienceYears('3 to 5 yrs of experience')).toEqual({ min: 3, max: 5 });
+        expect(parseExperienceYears('5 years or more of relevant experience')).toEqual({
+            min: 5,
+            max: undefined,
+        });
+        expect(parseExperienceYears('less than 1 year of experience')).toEqual({
+            min: undefined,
+            max: 1,
+        });
+    });
+
+    it('should ignore year counts that are not about experience', () => {
+        expect(parseExperienceYears('Founded 40 years ago')).toBeUndefined();
+        expect(parseExperienceYears('Equity vests over 4 years')).toBeUndefined();
+        expect(parseExperienceYears('Java since 1995')).toBeUndefined();
+    });
+});
+
+describe('seniorityFromText', () => {
+    it('should not take non-manager or account executive roles for leadership', () => {
+        expect(seniorityFromText('Experienced (Non-Manager)')).toBe('mid');
+        expect(seniorityFromText('Account Executive')).toBeUndefined();
+        expect(seniorityFromText('Executive (SVP, VP, Department Head, etc)')).toBe('director');
+    });
+});
+
+describe('matchesSeniority', () => {
+    const job = (seniority?: JobListingFull['seniority']): JobListingFull => ({
+        id: 'job-1',
+        title: 'Engineer',
+        company: 'Acme',
+        location: 'Remote',
+        postedDate: 'Today',
+        url: 'https://www.dice.com/job-detail/job-1',
+        scrapedAt: '2024-01-01T00:00:00.000Z',
+        seniority,
+    });
+
+    it('should keep listed levels and optionally unknown ones', () => {
+        expect(matchesSeniority(job('senior'), [], false)).toBe(true);
+        expect(matchesSeniority(job('senior'), ['senior', 'staff'], true)).toBe(true);
+        expect(matchesSeniority(job('entry'), ['senior', 'staff'], true)).toBe(false);
+        expect(matchesSeniority(job(), ['senior'], true)).toBe(true);
+        expect(matchesSeniority(job(), ['senior'], false)).toBe(false);
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SkillTaxonomy, buildSkillTaxonomy, loadSkillTaxonomy } from '../skills.js';
+import { InputSchema, SkillDefinitionSchema } from '../types.js';
+
+const taxonomy = new SkillTaxonomy();
+
+describe('SkillTaxonomy.extract', () => {
+    it('should map aliases to canonical names', () => {
+        const { skills } = taxonomy.extract('Deploy to k8s on Amazon Web Services with Postgres');
+        expect(skills).toEqual(['Kubernetes', 'AWS', 'PostgreSQL']);
+    });
+
+    it('should group skills by category', () => {
+        const { skillsByCategory } = taxonomy.extract(
+            'TypeScript and React on AWS, MongoDB, Scrum'
+        );
+        expect(skillsByCategory).toEqual({
+            language: ['TypeScript'],
+            framework: ['React'],
+            cloud: ['AWS'],
+            database: ['MongoDB'],
+            methodology: ['Scrum'],
+        });
+    });
+
+    it('should ignore ambiguous words in ordinary text', () => {
+        const { skills } = taxonomy.extract(
+            'Go above and beyond for our customers. R&D teams use Slack-free async updates. ' +
+                'Our Teams work across time zones and AI is changing how we work. Cut some slack.'
+        );
+        expect(skills).toEqual([]);
+    });
+
+    it('should accept ambiguous terms with context or listed next to skills', () => {
+        expect(taxonomy.extract('Backend services in Go and Python').skills).toEqual([
+            'Go',
+            'Python',
+        ]);
+        expect(taxonomy.extract('Statistical modeling in R').skills).toEqual(['R']);
+        expect(taxonomy.extract('Python, R, Go').skills).toEqual(['Python', 'R', 'Go']);
+        expect(taxonomy.extract('Tools: Jira, Confluence, Slack').skills).toEqual([
+            'Jira',
+            'Confluence',
+            'Slack',
+        ]);
+        expect(taxonomy.extract('Build AI models for NLP').skills).toEqual([
+            'Artificial Intelligence',
+            'NLP',
+        ]);
+    });
+
+    it('should not count terms inside longer terms', () => {
+        const { skills } = taxonomy.extract('SQL Server and Ruby on Rails, plus some SQL');
+        expect(skills).toEqual(['SQL Server', 'Ruby on Rails', 'SQL']);
+    });
+
+    it('should keep symbols and dots in terms', () => {
+        const { skills } = taxonomy.extract('C#, C++ and ASP.NET; JavaScript with Node.js');
+        expect(skills).toEqual(['C#', 'C++', '.NET', 'JavaScript', 'Node.js']);
+    });
+});
+
+describe('SkillTaxonomy.normalize', () => {
+    it('should canonicalize listed skills and keep unknown ones', () => {
+        const result = taxonomy.merge(
+            taxonomy.normalize(['golang', 'K8S', 'Mainframe']),
+            taxonomy.extract('Experience with Kubernetes and Terraform')
+        );
+
+        expect(result.skills).toEqual(['Go', 'Kubernetes', 'Mainframe', 'Terraform']);
+        expect(result.skillsByCategory).toEqual({
+            language: ['Go'],
+            devops: ['Kubernetes', 'Terraform'],
+        });
+    });
+});
+
+describe('custom taxonomies', () => {
+    const custom = [
+        SkillDefinitionSchema.parse({ name: 'Go', category: 'backend', aliases: ['Golang'] }),
+        SkillDefinitionSchema.parse({
+            name: 'Airflow',
+            category: 'data',
+            aliases: ['Apache Airflow'],
+        }),
+    ];
+
+    it('should extend the built-in taxonomy, replacing skills of the same name', () => {
+        const extended = buildSkillTaxonomy(custom, 'extend');
+        const { skills, skillsByCategory } = extended.extract('Go, Airflow and Docker');
+
+        expect(skills).toEqual(['Go', 'Airflow', 'Docker']);
+        expect(skillsByCategory.backend).toEqual(['Go']);
+    });
+
+    it('should replace the built-in taxonomy', () => {
+        const replaced = buildSkillTaxonomy(custom, 'replace');
+        expect(replaced.extract('Golang, Airflow and Docker').skills).toEqual(['Go', 'Airflow']);
+    });
+
+    describe('loadSkillTaxonomy', () => {
+        let server: Server;
+        let serverUrl: string;
+
+        beforeAll(async () => {
+            server = createServer((req, res) => {
+                if (req.url === '/taxonomy.json') {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify([{ name: 'Airflow', category: 'data' }]));
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify([{ name: 'Airflow' }]));
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('should combine inline entries with the taxonomy file', async () => {
+            const loaded = await loadSkillTaxonomy(
+                InputSchema.parse({
+                    skillTaxonomy: [{ name: 'dbt', category: 'data' }],
+                    skillTaxonomyUrl: `${serverUrl}/taxonomy.json`,
+                })
+            );
+
+            expect(loaded.extract('dbt and Airflow on Snowflake').skills).toEqual([
+                'dbt',
+                'Airflow',
+                'Snowflake',
+            ]);
+        });
+
+        it('should reject invalid taxonomy files', async () => {
+            const input = InputSchema.parse({ skillTaxonomyUrl: `${serverUrl}/broken.json` });
+            await expect(loadSkillTaxonomy(input)).rejects.toThrow('Invalid skill taxonomy file');
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { extractStructuredJobData, mapJobPosting } from '../structured.js';
+
+const jobPosting = {
+    '@context': 'https://schema.org',
+    '@type': 'JobPosting',
+    title: 'Senior Data Engineer',
+    description: '<p>Build pipelines with <b>Python</b> and Spark.</p>',
+    datePosted: '2024-03-01T10:00:00Z',
+    validThrough: '2024-04-01T00:00:00Z',
+    employmentType: ['FULL_TIME'],
+    hiringOrganization: {
+        '@type': 'Organization',
+        name: 'Acme Corp',
+        sameAs: 'https://acme.example.com',
+        logo: 'https://acme.example.com/logo.png',
+    },
+    jobLocation: {
+        '@type': 'Place',
+        address: {
+            '@type': 'PostalAddress',
+            addressLocality: 'Austin',
+            addressRegion: 'TX',
+            addressCountry: 'US',
+        },
+    },
+    baseSalary: {
+        '@type': 'MonetaryAmount',
+        currency: 'USD',
+        value: {
+            '@type': 'QuantitativeValue',
+            minValue: 140000,
+            maxValue: 170000,
+            unitText: 'YEAR',
+        },
+    },
+};
+
+describe('mapJobPosting', () => {
+    it('should map JobPosting fields', () => {
+        const { fields, salary } = mapJobPosting(jobPosting);
+        expect(fields).toMatchObject({
+            title: 'Senior Data Engineer',
+            company: 'Acme Corp',
+            companyWebsite: 'https://acme.example.com',
+            companyLogo: 'https://acme.example.com/logo.png',
+            location: 'Austin, TX, US',
+            employmentType: 'FULLTIME',
+            jobType: 'Full-time',
+            postedDateTimestamp: Date.parse('2024-03-01T10:00:00Z'),
+            expiresAt: '2024-04-01T00:00:00.000Z',
+            description: 'Build pipelines with Python and Spark.',
+        });
+        expect(salary).toMatchObject({
+            salaryMinAnnual: 140000,
+            salaryMaxAnnual: 170000,
+            salaryPeriod: 'year',
+            salaryConfidence: 0.95,
+        });
+    });
+
+    it('should treat telecommute postings as remote', () => {
+        const { fields } = mapJobPosting({
+            '@type': 'JobPosting',
+            title: 'Engineer',
+            jobLocationType: 'TELECOMMUTE',
+        });
+        expect(fields.location).toBe('Remote');
+        expect(fields.workplaceType).toBe('Remote');
+    });
+});
+
+describe('extractStructuredJobData', () => {
+    it('should find a JobPosting inside a JSON-LD @graph', () => {
+        const results = extractStructuredJobData([
+            { type: 'application/ld+json', content: '{ invalid json' },
+            {
+                type: 'application/ld+json',
+                content: JSON.stringify({ '@graph': [{ '@type': 'WebPage' }, jobPosting] }),
+            },
+        ]);
+        expect(results).toHaveLength(1);
+        expect(results[0].source).toBe('jsonLd');
+        expect(results[0].fields.title).toBe('Senior Data Engineer');
+    });
+
+    it('should find a Dice job object in __NEXT_DATA__', () => {
+        const nextData = {
+            props: {
+                pageProps: {
+                    initialState: {
+                        job: {
+                            title: 'Go Developer',
+                            companyName: 'Gopher Inc',
+                            description: '<p>Write Go services</p>',
+                            jobLocation: { displayName: 'Remote' },
+                            postedDate: '2024-03-02T00:00:00Z',
+                            skills: [{ name: 'Go' }, { name: 'Kubernetes' }],
+                            salaryEstimate: { minValue: 70, maxValue: 80, unitText: 'HOUR' },
+                        },
+                    },
+                },
+            },
+        };
+        const results = extractStructuredJobData([
+            { id: '__NEXT_DATA__', type: 'application/json', content: JSON.stringify(nextData) },
+        ]);
+
+        expect(results).toHaveLength(1);
+        expect(results[0].source).toBe('nextData');
+        expect(results[0].fields).toMatchObject({
+            title: 'Go Developer',
+            company: 'Gopher Inc',
+            location: 'Remote',
+            skills: ['Go', 'Kubernetes'],
+        });
+        expect(results[0].salary?.salaryMinHourly).toBe(70);
+    });
+
+    it('should return nothing for pages without embedded job data', () => {
+        expect(extractStructuredJobData([])).toEqual([]);
+        expect(
+            extractStructuredJobData([{ type: 'application/json', content: '{"a":1}' }])
+        ).toEqual([]);
+    });
+});
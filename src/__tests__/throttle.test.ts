@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Configuration, RequestQueue, SessionError, log } from 'crawlee';
+import { RequestThrottle, detectBlock } from '../throttle.js';
+import { createCrawler } from '../crawler.js';
+import { THROTTLE_CONFIG } from '../constants.js';
+import { InputSchema, type RunStatistics } from '../types.js';
+
+const API_URL = 'https://job-search-api.svc.dhigroupinc.com/v1/dice/jobs/search?page=1';
+const PAGE_URL = 'https://www.dice.com/jobs?q=java';
+
+describe('detectBlock', () => {
+    it('should flag blocked status codes', () => {
+        expect(detectBlock(403, '<html></html>', false)).toBe('forbidden');
+        expect(detectBlock(429, '{}', true)).toBe('rate-limited');
+    });
+
+    it('should flag captcha and bot-check pages', () => {
+        expect(detectBlock(200, '<div class="g-recaptcha" data-sitekey="x"></div>', false)).toBe(
+            'captcha'
+        );
+        expect(detectBlock(200, '<title>Just a moment...</title>', false)).toBe('captcha');
+    });
+
+    it('should flag empty API bodies only', () => {
+        expect(detectBlock(200, '  ', true)).toBe('empty-response');
+        expect(detectBlock(200, '', false)).toBeNull();
+    });
+
+    it('should pass regular pages', () => {
+        expect(detectBlock(200, '<h1>Java Developer</h1>', false)).toBeNull();
+        expect(detectBlock(404, '<h1>Not found</h1>', false)).toBeNull();
+    });
+});
+
+describe('RequestThrottle', () => {
+    it('should back off the blocked host only, doubling per block', () => {
+        const throttle = new RequestThrottle(8);
+        const now = Date.now();
+
+        expect(throttle.recordBlock(API_URL, 'rate-limited', now)).toBeInstanceOf(SessionError);
+        throttle.recordBlock(API_URL, 'rate-limited', now);
+
+        expect(throttle.getBackoff(API_URL, now)).toBe(THROTTLE_CONFIG.BASE_BACKOFF_MS * 2);
+        expect(throttle.getBackoff(PAGE_URL, now)).toBe(0);
+    });
+
+    it('should halve concurrency on blocks and recover it step by step', () => {
+        const throttle = new RequestThrottle(8, {
+            ...THROTTLE_CONFIG,
+            SUCCESSES_PER_CONCURRENCY_STEP: 2,
+        });
+
+        throttle.recordBlock(PAGE_URL, 'captcha');
+        throttle.recordBlock(PAGE_URL, 'captcha');
+        expect(throttle.currentConcurrency).toBe(2);
+
+        for (let i = 0; i < 4; i++) throttle.recordSuccess(PAGE_URL);
+        expect(throttle.currentConcurrency).toBe(4);
+    });
+
+    it('should report block events per reason and host', () => {
+        const throttle = new RequestThrottle(4, { ...THROTTLE_CONFIG, MAX_BLOCK_EVENTS: 2 });
+
+        throttle.recordBlock(API_URL, 'empty-response');
+        throttle.recordBlock(PAGE_URL, 'forbidden');
+        throttle.recordBlock(PAGE_URL, 'forbidden');
+
+        const stats = throttle.getStats();
+        expect(stats).toMatchObject({
+            blocks: 3,
+            byReason: { 'empty-response': 1, forbidden: 2 },
+            byHost: { 'job-search-api.svc.dhigroupinc.com': 1, 'www.dice.com': 2 },
+            concurrency: 1,
+        });
+        expect(stats.events.map(event => event.reason)).toEqual(['forbidden', 'forbidden']);
+    });
+
+    it('should continue from a saved state', () => {
+        const config = { ...THROTTLE_CONFIG, SUCCESSES_PER_CONCURRENCY_STEP: 2 };
+        const throttle = new RequestThrottle(8, config);
+        const now = Date.now();
+        throttle.recordBlock(API_URL, 'rate-limited', now);
+        throttle.recordBlock(API_URL, 'rate-limited', now);
+        throttle.recordSuccess(PAGE_URL);
+
+        const restored = new RequestThrottle(8, config);
+        restored.restore(JSON.parse(JSON.stringify(throttle.getState())));
+
+        expect(restored.getStats()).toEqual(throttle.getStats());
+        expect(restored.currentConcurrency).toBe(2);
+        expect(restored.getBackoff(API_URL, now)).toBe(THROTTLE_CONFIG.BASE_BACKOFF_MS * 2);
+        expect(restored.getBackoff(PAGE_URL, now)).toBe(0);
+
+        // The success before the restart counts towards the next concurrency step
+        restored.recordSuccess(PAGE_URL);
+        expect(restored.currentConcurrency).toBe(3);
+        // The next block of the API host doubles its backoff again
+        restored.recordBlock(API_URL, 'rate-limited', now);
+        expect(restored.getBackoff(API_URL, now)).toBe(THROTTLE_CONFIG.BASE_BACKOFF_MS * 4);
+    });
+});
+
+describe('blocked responses in the crawler', () => {
+    let server: Server;
+    let serverUrl: string;
+    let requests = 0;
+
+    beforeAll(async () => {
+        Configuration.getGlobalConfig().set('persistStorage', false);
+        log.setLevel(log.LEVELS.OFF);
+
+        // Answers the first request with 429 and a bot-check page, then with the page
+        server = createServer((_req, res) => {
+            requests++;
+            res.writeHead(requests === 1 ? 429 : 200, { 'Content-Type': 'text/html' });
+            res.end(requests === 1 ? '<title>Just a moment...</title>' : '<h1>Jobs</h1>');
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        log.setLevel(log.LEVELS.INFO);
+    });
+
+    it('should retry blocked requests after backing off', async () => {
+        await (await RequestQueue.open()).drop();
+
+        const input = InputSchema.parse({ maxConcurrency: 2 });
+        const statistics: RunStatistics = {
+            jobsFound: 0,
+            jobsScraped: 0,
+            jobsWithDetails: 0,
+            errors: 0,
+            startTime: new Date(),
+        };
+        const throttle = new RequestThrottle(input.maxConcurrency, {
+            ...THROTTLE_CONFIG,
+            BASE_BACKOFF_MS: 50,
+        });
+
+        const crawler = createCrawler({ input, statistics, throttle });
+        await crawler.run([`${serverUrl}/jobs`]);
+
+        expect(requests).toBe(2);
+        expect(statistics.errors).toBe(0);
+        expect(throttle.getStats()).toMatchObject({
+            blocks: 1,
+            byReason: { 'rate-limited': 1 },
+            concurrency: 1,
+        });
+    });
+});
@@ -1,13 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import {
     cleanText,
+    htmlToText,
     formatPostedDate,
     formatSalary,
     parseSalaryFromText,
     extractSkills,
     isValidUrl,
     extractJobIdFromUrl,
+    resolveSearches,
+    buildSearchApiUrl,
 } from '../utils.js';
+import { InputSchema } from '../types.js';
 
 describe('cleanText', () => {
     it('should remove HTML entities', () => {
@@ -31,6 +35,21 @@ describe('cleanText', () => {
     });
 });
 
+describe('htmlToText', () => {
+    it('should keep words of adjacent blocks apart', () => {
+        expect(htmlToText('<p>Hello <b>world</b></p><ul><li>Req A</li><li>Req B</li></ul>')).toBe(
+            'Hello world Req A Req B'
+        );
+        expect(htmlToText('Line one<br>Line two')).toBe('Line one Line two');
+    });
+
+    it('should read entity-encoded HTML', () => {
+        expect(htmlToText('&lt;p&gt;Tom &amp; Jerry&lt;/p&gt;&lt;p&gt;Next&lt;/p&gt;')).toBe(
+            'Tom & Jerry Next'
+        );
+    });
+});
+
 describe('formatPostedDate', () => {
     it('should return "Today" for today', () => {
         const today = new Date().toISOString();
@@ -150,3 +169,90 @@ describe('extractJobIdFromUrl', () => {
         expect(extractJobIdFromUrl('')).toBeNull();
     });
 });
+
+describe('resolveSearches', () => {
+    it('should build a single default search from top-level input', () => {
+        const input = InputSchema.parse({ searchQuery: 'Python', maxJobs: 50 });
+        const searches = resolveSearches(input);
+        expect(searches).toHaveLength(1);
+        expect(searches[0].name).toBe('default');
+        expect(searches[0].maxJobs).toBe(50);
+        expect(searches[0].params.query).toBe('Python');
+    });
+
+    it('should resolve saved searches with inherited defaults', () => {
+        const input = InputSchema.parse({
+            radius: 10,
+            maxJobs: 20,
+            searches: [
+                { name: 'java-nyc', searchQuery: 'Java', location: 'New York, NY', maxJobs: 5 },
+                { searchQuery: 'Go', radius: 50 },
+            ],
+        });
+        const searches = resolveSearches(input);
+        expect(searches.map(s => s.name)).toEqual(['java-nyc', 'search-2']);
+        expect(searches[0].maxJobs).toBe(5);
+        expect(searches[0].params.radius).toBe(10);
+        expect(searches[1].maxJobs).toBe(20);
+        expect(searches[1].params.radius).toBe(50);
+    });
+
+    it('should not give unnamed searches a name already taken', () => {
+        const input = InputSchema.parse({
+            searches: [{ name: 'search-2', searchQuery: 'Java' }, { searchQuery: 'Go' }, {}],
+        });
+        expect(resolveSearches(input).map(s => s.name)).toEqual([
+            'search-2',
+            'search-3',
+            'search-4',
+        ]);
+    });
+
+    it('should add one search per company instead of the default search', () => {
+        const input = InputSchema.parse({
+            searchQuery: 'Engineer',
+            companies: ['acme-corp', 'https://www.dice.com/company-profile/globex', 'acme-corp'],
+        });
+        const searches = resolveSearches(input);
+        expect(searches.map(s => s.name)).toEqual(['company-acme-corp', 'company-globex']);
+        expect(searches[1].params).toMatchObject({ query: 'Engineer', companyId: 'globex' });
+        expect(buildSearchApiUrl(searches[1].params)).toContain('filters.companyId=globex');
+    });
+
+    it('should only accept webhooks in incremental mode', () => {
+        const webhooks = [{ url: 'https://example.com/hook' }];
+        expect(InputSchema.safeParse({ webhooks }).success).toBe(false);
+        expect(InputSchema.safeParse({ webhooks, incrementalMode: true }).success).toBe(true);
+    });
+
+    it('should reject invalid company references', () => {
+        expect(InputSchema.safeParse({ companies: ['https://www.dice.com/jobs'] }).success).toBe(
+            false
+        );
+    });
+
+    it('should reject duplicate search names', () => {
+        const result = InputSchema.safeParse({
+            searches: [{ name: 'a' }, { name: 'a' }],
+        });
+        expect(result.success).toBe(false);
+    });
+});
+
+describe('buildSearchApiUrl', () => {
+    const params = (location: string) =>
+        resolveSearches(InputSchema.parse({ searchQuery: 'Java', location }))[0].params;
+
+    it('should send the coordinates and country of the search location', () => {
+        const query = new URLSearchParams(buildSearchApiUrl(params('London, UK')));
+        expect(query.get('latitude')).toBe('51.51');
+        expect(query.get('longitude')).toBe('-0.13');
+        expect(query.get('countryCode2')).toBe('GB');
+    });
+
+    it('should fall back to the US without coordinates for unknown places', () => {
+        const query = new URLSearchParams(buildSearchApiUrl(params('Nowhere Special')));
+        expect(query.has('latitude')).toBe(false);
+        expect(query.get('countryCode2')).toBe('US');
+    });
+});
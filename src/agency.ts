@@ -0,0 +1,173 @@
+import type { AgencyProfile, AgencyStats, JobListingFull } from './types.js';
+
+// Staffing and recruiting firms that post on Dice, as normalized company names
+const KNOWN_AGENCIES = [
+    'adecco',
+    'aerotek',
+    'akkodis',
+    'ampcus',
+    'apex systems',
+    'beacon hill',
+    'collabera',
+    'cybercoders',
+    'cyberthink',
+    'diverse lynx',
+    'experis',
+    'hays',
+    'insight global',
+    'jobot',
+    'judge group',
+    'kelly services',
+    'kforce',
+    'manpowergroup',
+    'matlen silver',
+    'mindlance',
+    'modis',
+    'motion recruitment',
+    'net2source',
+    'pyramid consulting',
+    'randstad',
+    'robert half',
+    'russell tobin',
+    'signature consultants',
+    'teksystems',
+    'vaco',
+    'yoh',
+];
+
+// Words in a company name suggesting a staffing firm
+const AGENCY_NAME_PATTERN =
+    /\b(?:staffing|recruit(?:ing|ment|ers)?|talent|placements?|workforce|resourcing|personnel|consult(?:ing|ancy|ants))\b/i;
+
+// Industries of staffing firms (from scraped company profiles)
+const AGENCY_INDUSTRY_PATTERN = /\b(?:staffing|recruit(?:ing|ment))\b/i;
+
+// Phrasing typical of postings for another company's role, by signal name
+const AGENCY_PHRASES: [string, RegExp][] = [
+    ['clientReference', /\b(?:our|my|direct|end) client\b|\bon behalf of\b|\bclient of ours\b/i],
+    ['c2c', /\bc2c\b|\bcorp[\s-]?(?:to|2)[\s-]?corp\b/i],
+    ['w2Only', /\bw-?2 only\b|\bonly (?:on )?w-?2\b|\bno c2c\b/i],
+    ['vendorChain', /\b(?:implementation partner|prime vendor|tier[\s-]?1 vendor)\b/i],
+    ['visaList', /\b(?:usc|gc|h-?1b|ead|tn)\s*(?:\/|,|and|or)\s*(?:usc|gc|h-?1b|ead|tn)\b/i],
+];
+
+// Signal weights; a posting is an agency posting at AGENCY_THRESHOLD
+const SIGNAL_WEIGHTS: Record<string, number> = {
+    knownAgency: 2,
+    thirdParty: 2,
+    agencyIndustry: 2,
+    companyName: 1,
+};
+const AGENCY_THRESHOLD = 2;
+
+// Weight of each description phrase: direct employers say "W2 only" or "no C2C" too,
+// so phrases flag a posting only together with company evidence or in numbers
+const PHRASE_WEIGHT = 0.5;
+
+/**
+ * Company name in lowercase without punctuation and legal suffixes
+ */
+export function normalizeCompanyName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .replace(/\b(?:inc|llc|ltd|corp|corporation|co|company|lp|llp|plc)\b/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Staffing-agency signals of a posting: known agency names, company-name words,
+ * a staffing industry, the Third Party employment type and description phrasing
+ */
+export function detectAgencySignals(job: JobListingFull, extraAgencies: string[] = []): string[] {
+    const signals: string[] = [];
+    const company = normalizeCompanyName(job.company || '');
+    const agencies = [...KNOWN_AGENCIES, ...extraAgencies.map(normalizeCompanyName)];
+
+    if (company && agencies.some(agency => agency && containsWords(company, agency))) {
+        signals.push('knownAgency');
+    }
+    if (AGENCY_NAME_PATTERN.test(job.company || '')) signals.push('companyName');
+    if (job.industry && AGENCY_INDUSTRY_PATTERN.test(job.industry)) signals.push('agencyIndustry');
+    if (/third\s*_?party/i.test(`${job.employmentType} ${job.jobType}`)) signals.push('thirdParty');
+
+    const text = [job.title, job.summary, job.description].filter(Boolean).join('\n');
+    for (const [signal, pattern] of AGENCY_PHRASES) {
+        if (pattern.test(text)) signals.push(signal);
+    }
+
+    return signals;
+}
+
+/**
+ * Check whether the signals add up to a staffing-agency posting
+ */
+export function isAgencyPosting(signals: string[]): boolean {
+    const score = signals.reduce(
+        (sum, signal) => sum + (SIGNAL_WEIGHTS[signal] ?? PHRASE_WEIGHT),
+        0
+    );
+    return score >= AGENCY_THRESHOLD;
+}
+
+/**
+ * Flags staffing-agency postings and postings that repeat an earlier one
+ * (those whose near-duplicate cluster started with another posting)
+ */
+export class AgencyDetector {
+    private readonly stats: AgencyStats = { flagged: 0, duplicates: 0, excluded: 0, grouped: 0 };
+
+    constructor(private readonly extraAgencies: string[] = []) {}
+
+    /**
+     * Classify a posting as a staffing-agency posting or not
+     */
+    classify(job: JobListingFull): AgencyProfile {
+        const agencySignals = detectAgencySignals(job, this.extraAgencies);
+        const isStaffingAgency = isAgencyPosting(agencySignals);
+
+        if (isStaffingAgency) this.stats.flagged++;
+
+        return { isStaffingAgency, agencySignals };
+    }
+
+    /**
+     * ID of the posting a saved posting repeats: the first posting of its
+     * near-duplicate cluster, unless that is the posting itself
+     */
+    duplicateOf(job: JobListingFull, clusterId: string): string | undefined {
+        if (clusterId === job.id) return undefined;
+
+        this.stats.duplicates++;
+        return clusterId;
+    }
+
+    /**
+     * Count agency postings that were excluded or saved to the agency dataset
+     */
+    recordOutcome(outcome: 'excluded' | 'grouped', count = 1): void {
+        this.stats[outcome] += count;
+    }
+
+    /**
+     * Counts of flagged, duplicate, excluded and grouped postings
+     */
+    getStats(): AgencyStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Continue from the counts saved before a restart
+     */
+    restore(stats: AgencyStats): void {
+        Object.assign(this.stats, stats);
+    }
+}
+
+/**
+ * Check whether a name contains a phrase as whole words
+ */
+function containsWords(name: string, phrase: string): boolean {
+    return ` ${name} `.includes(` ${phrase} `);
+}
@@ -0,0 +1,140 @@
+import {
+    PlaywrightCrawler,
+    createPlaywrightRouter,
+    log,
+    type PlaywrightCrawlingContext,
+    type Request,
+    type RouterHandler,
+} from 'crawlee';
+import {
+    handleJobDetailPage,
+    handleSearchPage,
+    saveJobWithoutDetails,
+    type PageContext,
+} from './routes.js';
+import { recordFailedRequest, type CrawlerOptions } from './crawler.js';
+import { BROWSER_CONFIG, REQUEST_CONFIG, SELECTORS } from './constants.js';
+import { RequestThrottle, detectBlock } from './throttle.js';
+import type { RequestUserData, RunStatistics } from './types.js';
+import type { JobLifecycleTracker } from './lifecycle.js';
+
+// Element each page type renders once its client-side scripts have run
+const RENDERED_SELECTORS = {
+    SEARCH: SELECTORS.JOB_CARD,
+    JOB_DETAIL: `${SELECTORS.JOB_TITLE}, ${SELECTORS.DESCRIPTION}`,
+};
+
+/**
+ * Create the router of the browser crawler. Its handlers wait for the page to
+ * render, back off through the throttle when the page is blocked and pass the
+ * rendered HTML to the same handlers as plain HTML pages.
+ */
+export function createBrowserRouter(
+    throttle: RequestThrottle
+): RouterHandler<PlaywrightCrawlingContext> {
+    const router = createPlaywrightRouter();
+
+    /**
+     * Wait for the page to render its content, check it for blocks and turn it
+     * into the context the page handlers take
+     */
+    const renderPage = async (
+        label: keyof typeof RENDERED_SELECTORS,
+        context: PlaywrightCrawlingContext
+    ): Promise<PageContext> => {
+        const { request, page, response, crawler } = context;
+        await page
+            .waitForSelector(RENDERED_SELECTORS[label], {
+                timeout: BROWSER_CONFIG.RENDER_TIMEOUT_MS,
+            })
+            .catch(() => log.debug(`Page did not render its content: ${request.url}`));
+
+        const reason = detectBlock(response?.status(), await page.content(), false);
+        if (reason) throw throttle.recordBlock(request.url, reason);
+        throttle.recordSuccess(request.url);
+
+        return {
+            request: request as Request<RequestUserData>,
+            $: await context.parseWithCheerio(),
+            statusCode: response?.status(),
+            addRequests: requests => crawler.addRequests(requests),
+            rendered: true,
+        };
+    };
+
+    router.addHandler('SEARCH', async context =>
+        handleSearchPage(await renderPage('SEARCH', context))
+    );
+
+    router.addHandler('JOB_DETAIL', async context =>
+        handleJobDetailPage(await renderPage('JOB_DETAIL', context))
+    );
+
+    return router;
+}
+
+/**
+ * Create the PlaywrightCrawler that renders the search and job detail pages
+ * the HTTP crawler found without content. Rendered pages go through the same
+ * handlers as plain HTML ones; blocked pages back off through the shared
+ * throttle and are retried with a new session.
+ */
+export function createBrowserCrawler(options: CrawlerOptions): PlaywrightCrawler {
+    const { input, statistics, proxyConfiguration, fixtureServer, lifecycleTracker } = options;
+    const throttle = options.throttle ?? new RequestThrottle(input.maxConcurrency);
+
+    return new PlaywrightCrawler({
+        proxyConfiguration,
+        requestHandler: createBrowserRouter(throttle),
+        headless: true,
+
+        // Blocked status codes are detected in the handlers, together with captcha pages
+        sessionPoolOptions: { blockedStatusCodes: [] },
+
+        // Request configuration
+        maxRequestRetries: REQUEST_CONFIG.RETRY_COUNT,
+        requestHandlerTimeoutSecs: REQUEST_CONFIG.REQUEST_TIMEOUT_SECS,
+        navigationTimeoutSecs: REQUEST_CONFIG.NAVIGATION_TIMEOUT_SECS,
+
+        // Browser pages are heavy: run fewer of them than HTTP requests
+        maxConcurrency: Math.min(input.maxConcurrency, BROWSER_CONFIG.MAX_CONCURRENCY),
+        minConcurrency: 1,
+
+        // Pre-navigation hooks for pacing requests per host and the fixture server
+        preNavigationHooks: [
+            async ({ request }) => throttle.acquire(request.url),
+            async ({ page }) => {
+                // Load every request of the page from the fixture server
+                if (fixtureServer) {
+                    await page.route('**/*', async route => {
+                        const response = await route.fetch({
+                            url: fixtureServer.localUrl(route.request().url()),
+                        });
+                        await route.fulfill({ response });
+                    });
+                }
+            },
+        ],
+
+        failedRequestHandler: async ({ request }, error) => {
+            await recordFailedBrowserRequest(request, error, statistics, lifecycleTracker);
+        },
+    });
+}
+
+/**
+ * Count a rendered page that failed for good. The HTTP crawler already gave up
+ * on the details of a job page, so the job is saved with its search data, as
+ * when its extraction fails.
+ */
+export async function recordFailedBrowserRequest(
+    request: Request,
+    error: Error,
+    statistics: RunStatistics,
+    lifecycleTracker?: JobLifecycleTracker
+): Promise<void> {
+    const { label, jobBasic } = request.userData as RequestUserData;
+    if (label === 'JOB_DETAIL' && jobBasic) await saveJobWithoutDetails(jobBasic);
+
+    await recordFailedRequest(request, error, statistics, lifecycleTracker);
+}
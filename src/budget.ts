@@ -0,0 +1,213 @@
+import type { BudgetStats, RequestUserData } from './types.js';
+
+// Suffix added to the unique key of a result page fetched again to replace dropped jobs
+const REFILL_SUFFIX = /-refill-\d+$/;
+
+// Slot a job holds in the budget of the searches that found it: reserved while
+// it is being scraped, committed once saved, released when it was dropped
+type SlotStatus = 'reserved' | 'committed' | 'released';
+
+// Budget entry of a collected job
+interface BudgetEntry {
+    status: SlotStatus;
+    searchNames: string[];
+}
+
+// Result page a search stopped at because its budget was full
+export interface StoppedPage {
+    url: string;
+    uniqueKey: string;
+    userData: RequestUserData;
+    skipNavigation?: boolean;
+}
+
+// Serializable budget, saved with the run state
+export interface BudgetState {
+    jobs: Record<string, BudgetEntry>;
+    stoppedPages: Record<string, StoppedPage>;
+    detailJobs: string[];
+    refills: number;
+}
+
+/**
+ * Per-search `maxJobs` budget. A slot is reserved when a search collects a job
+ * and committed when the job is saved to the dataset; jobs dropped on the way
+ * (failed or removed detail pages, filters) release their slot, and the
+ * searches they came from can then continue from the page they stopped at.
+ * Also counts job detail requests against `maxDetailRequests`.
+ */
+export class JobBudget {
+    private readonly jobs = new Map<string, BudgetEntry>();
+    private readonly used = new Map<string, number>();
+    private readonly stoppedPages = new Map<string, StoppedPage>();
+    private readonly detailJobs = new Set<string>();
+    private refills = 0;
+
+    constructor(
+        private readonly limits: Map<string, number> = new Map(),
+        private readonly defaultLimit = 100,
+        private readonly maxDetailRequests = 0
+    ) {}
+
+    /**
+     * Job limit of a search (0 for no limit)
+     */
+    limit(searchName: string): number {
+        return this.limits.get(searchName) ?? this.defaultLimit;
+    }
+
+    /**
+     * Whether a search can still collect jobs: its reserved and committed slots
+     * are below its limit
+     */
+    hasRoom(searchName: string): boolean {
+        const limit = this.limit(searchName);
+        return limit === 0 || (this.used.get(searchName) || 0) < limit;
+    }
+
+    /**
+     * Reserve a slot of the search for a job. Returns true when the job holds a
+     * slot of the search afterwards; false when the search is full or the job
+     * was dropped earlier in the run.
+     */
+    reserve(key: string, searchName: string): boolean {
+        const entry = this.jobs.get(key);
+        if (entry?.status === 'released') return false;
+        if (entry?.searchNames.includes(searchName)) return true;
+        if (!this.hasRoom(searchName)) return false;
+
+        if (entry) {
+            entry.searchNames.push(searchName);
+        } else {
+            this.jobs.set(key, { status: 'reserved', searchNames: [searchName] });
+        }
+        this.used.set(searchName, (this.used.get(searchName) || 0) + 1);
+        return true;
+    }
+
+    /**
+     * Whether a job still waits to be saved or dropped
+     */
+    isPending(key: string): boolean {
+        return this.jobs.get(key)?.status === 'reserved';
+    }
+
+    /**
+     * Count a saved job against its searches for good
+     */
+    commit(key: string): void {
+        const entry = this.jobs.get(key);
+        if (entry?.status === 'reserved') entry.status = 'committed';
+    }
+
+    /**
+     * Give back the slots of a job that will not be saved
+     */
+    release(key: string): void {
+        const entry = this.jobs.get(key);
+        if (entry?.status !== 'reserved') return;
+
+        entry.status = 'released';
+        for (const searchName of entry.searchNames) {
+            this.used.set(searchName, (this.used.get(searchName) || 0) - 1);
+        }
+    }
+
+    /**
+     * Reserve the detail request of a job. Returns false once `maxDetailRequests`
+     * were made; a job asking again (after a restart) keeps its request.
+     */
+    reserveDetailRequest(key: string): boolean {
+        if (this.detailJobs.has(key)) return true;
+        if (this.maxDetailRequests > 0 && this.detailJobs.size >= this.maxDetailRequests) {
+            return false;
+        }
+        this.detailJobs.add(key);
+        return true;
+    }
+
+    /**
+     * Remember the page a search chain stopped at because its budget was full.
+     * A later stop of the same chain replaces the earlier one.
+     */
+    recordStop(chain: string, page: StoppedPage): void {
+        this.stoppedPages.set(chain, page);
+    }
+
+    /**
+     * Take the stopped pages of searches that have room again, with new unique
+     * keys so the request queue fetches them again
+     */
+    takeRefills(): StoppedPage[] {
+        const refills: StoppedPage[] = [];
+
+        for (const [chain, page] of this.stoppedPages) {
+            if (!this.hasRoom(page.userData.searchName ?? '')) continue;
+
+            this.stoppedPages.delete(chain);
+            this.refills++;
+            refills.push({
+                ...page,
+                uniqueKey: `${page.uniqueKey.replace(REFILL_SUFFIX, '')}-refill-${this.refills}`,
+            });
+        }
+
+        return refills;
+    }
+
+    /**
+     * Searches that stopped at their limit, leaving later result pages unread
+     */
+    stoppedSearches(): string[] {
+        return Array.from(
+            new Set(Array.from(this.stoppedPages.values(), page => page.userData.searchName ?? ''))
+        );
+    }
+
+    /**
+     * Saved, dropped and pending jobs, detail requests and refill pages of the run
+     */
+    getStats(): BudgetStats {
+        const count = (status: SlotStatus) =>
+            Array.from(this.jobs.values()).filter(entry => entry.status === status).length;
+
+        return {
+            committed: count('committed'),
+            released: count('released'),
+            pending: count('reserved'),
+            detailRequests: this.detailJobs.size,
+            refillPages: this.refills,
+        };
+    }
+
+    /**
+     * Slots, stopped pages and counters, for the run state
+     */
+    getState(): BudgetState {
+        return {
+            jobs: Object.fromEntries(this.jobs),
+            stoppedPages: Object.fromEntries(this.stoppedPages),
+            detailJobs: Array.from(this.detailJobs),
+            refills: this.refills,
+        };
+    }
+
+    /**
+     * Continue from the state saved before a restart
+     */
+    restore(state: BudgetState): void {
+        for (const [key, entry] of Object.entries(state.jobs)) {
+            this.jobs.set(key, { ...entry, searchNames: [...entry.searchNames] });
+            if (entry.status === 'released') continue;
+
+            for (const searchName of entry.searchNames) {
+                this.used.set(searchName, (this.used.get(searchName) || 0) + 1);
+            }
+        }
+        for (const [chain, page] of Object.entries(state.stoppedPages)) {
+            this.stoppedPages.set(chain, page);
+        }
+        state.detailJobs.forEach(key => this.detailJobs.add(key));
+        this.refills = state.refills;
+    }
+}
@@ -0,0 +1,351 @@
+import type { ClusterReport, JobCluster, JobListingFull } from './types.js';
+import { normalizeCompanyName } from './agency.js';
+
+// Word shingle size and words compared per description
+const SHINGLE_SIZE = 3;
+const MAX_WORDS = 300;
+
+// Descriptions shorter than this many shingles are only clustered by exact key
+const MIN_SHINGLES = 10;
+
+// Share of title words two postings of one opening must have in common
+const MIN_TITLE_SIMILARITY = 0.5;
+
+// Shingles found in this many postings are boilerplate and not indexed further
+const MAX_SHINGLE_POSTINGS = 50;
+
+// Title words that do not tell openings apart ("Java Developer - Remote - W2")
+const TITLE_NOISE = new Set([
+    'remote',
+    'hybrid',
+    'onsite',
+    'w2',
+    'c2c',
+    '1099',
+    'contract',
+    'fulltime',
+    'parttime',
+    'urgent',
+    'immediate',
+    'hiring',
+    'needed',
+    'opening',
+    'position',
+    'only',
+    'local',
+]);
+
+// Abbreviations spelled out in titles before comparing them
+const TITLE_ABBREVIATIONS = new Map([
+    ['sr', 'senior'],
+    ['jr', 'junior'],
+    ['eng', 'engineer'],
+    ['dev', 'developer'],
+    ['mgr', 'manager'],
+]);
+
+// Fields set by clustering itself, left out when comparing how complete records are
+const CLUSTER_FIELDS = new Set(['clusterId', 'clusterRepresentativeId', 'likelyDuplicateOf']);
+
+// What makes a posting the representative of its cluster
+export interface RepresentativeRank {
+    id: string;
+    isStaffingAgency: boolean;
+    filledFields: number;
+    postedDateTimestamp?: number;
+}
+
+// Posting remembered for later comparisons
+interface ClusterMember {
+    clusterId: string;
+    titleWords: Set<string>;
+    shingles: Set<string>;
+}
+
+/**
+ * Similarity of two sets (shared / all)
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const item of a) {
+        if (b.has(item)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Word shingles of a text (HTML tags are ignored)
+ */
+export function shingles(text: string): Set<string> {
+    const words = text
+        .toLowerCase()
+        .replace(/<[^>]+>/g, ' ')
+        .split(/[^a-z0-9+#]+/)
+        .filter(Boolean)
+        .slice(0, MAX_WORDS);
+
+    const result = new Set<string>();
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+        result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return result;
+}
+
+/**
+ * Title in lowercase words, without bracketed notes, contract terms and other
+ * noise, and with common abbreviations spelled out
+ */
+export function normalizeTitle(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+        .replace(/\b(?:full|part)[\s-]time\b|\bon[\s-]site\b/g, match => match.replace(/[\s-]/, ''))
+        .split(/[^a-z0-9+#]+/)
+        .filter(word => word && !TITLE_NOISE.has(word))
+        .map(word => TITLE_ABBREVIATIONS.get(word) ?? word)
+        .join(' ');
+}
+
+/**
+ * Location in lowercase words without the country, or "remote"
+ */
+export function normalizeLocation(location: string): string {
+    const text = location.toLowerCase();
+    if (/\bremote\b/.test(text)) return 'remote';
+
+    return text
+        .replace(/\b(?:united states(?: of america)?|usa|us)\b/g, ' ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Groups the postings of a run into near-duplicate clusters as they are saved.
+ * Two postings belong together when their descriptions are near duplicates and
+ * their titles mostly agree, or when company, title and location are the same
+ * after normalization. A cluster's ID is the ID of its first posting; its
+ * representative is the best posting assigned so far.
+ */
+export class JobClusterer {
+    private readonly members = new Map<string, ClusterMember>();
+    private readonly shingleIndex = new Map<string, string[]>();
+    private readonly keyIndex = new Map<string, string>();
+    private readonly representatives = new Map<string, RepresentativeRank>();
+
+    constructor(private readonly similarity = 0.8) {}
+
+    /**
+     * Cluster ID for a posting, starting a new cluster when it matches none
+     */
+    assign(job: JobListingFull): string {
+        const known = this.members.get(job.id);
+        if (known) return known.clusterId;
+
+        const { key, titleWords, own } = describe(job);
+        const clusterId = this.findSimilar(own, titleWords) ?? this.keyIndex.get(key) ?? job.id;
+        this.add(job, clusterId);
+
+        return clusterId;
+    }
+
+    /**
+     * ID of the best representative among the postings of a cluster assigned so far
+     */
+    representativeOf(clusterId: string): string {
+        return this.representatives.get(clusterId)?.id ?? clusterId;
+    }
+
+    /**
+     * Continue from the postings saved before a restart, in the order they were
+     * saved, keeping the cluster each was assigned to
+     */
+    restore(jobs: JobListingFull[]): void {
+        for (const job of jobs) {
+            if (!this.members.has(job.id)) this.add(job, job.clusterId ?? job.id);
+        }
+    }
+
+    /**
+     * Remember a posting of a cluster for later comparisons
+     */
+    private add(job: JobListingFull, clusterId: string): void {
+        const { key, titleWords, own } = describe(job);
+        this.members.set(job.id, { clusterId, titleWords, shingles: own });
+        const rank = rankRepresentative(job);
+        const best = this.representatives.get(clusterId);
+        if (!best || compareRepresentatives(rank, best) < 0) {
+            this.representatives.set(clusterId, rank);
+        }
+        if (!this.keyIndex.has(key)) this.keyIndex.set(key, clusterId);
+        this.indexShingles(job.id, own);
+    }
+
+    /**
+     * Index the shingles of a posting whose description is long enough to compare
+     */
+    private indexShingles(id: string, own: Set<string>): void {
+        if (own.size < MIN_SHINGLES) return;
+
+        for (const shingle of own) {
+            const ids = this.shingleIndex.get(shingle);
+            if (!ids) this.shingleIndex.set(shingle, [id]);
+            else if (ids.length < MAX_SHINGLE_POSTINGS) ids.push(id);
+        }
+    }
+
+    /**
+     * Cluster of the most similar earlier posting, if any is similar enough
+     */
+    private findSimilar(own: Set<string>, titleWords: Set<string>): string | undefined {
+        if (own.size < MIN_SHINGLES) return undefined;
+
+        // Earlier postings sharing a shingle, skipping boilerplate
+        const candidates = new Set<string>();
+        for (const shingle of own) {
+            const ids = this.shingleIndex.get(shingle) ?? [];
+            if (ids.length < MAX_SHINGLE_POSTINGS) ids.forEach(id => candidates.add(id));
+        }
+
+        let clusterId: string | undefined;
+        let best = 0;
+        for (const id of candidates) {
+            const other = this.members.get(id);
+            if (!other || jaccard(titleWords, other.titleWords) < MIN_TITLE_SIMILARITY) continue;
+
+            const similarity = jaccard(own, other.shingles);
+            if (similarity >= this.similarity && similarity > best) {
+                best = similarity;
+                clusterId = other.clusterId;
+            }
+        }
+
+        return clusterId;
+    }
+}
+
+/**
+ * Exact cluster key, title words and description shingles of a posting
+ */
+function describe(job: JobListingFull): { key: string; titleWords: Set<string>; own: Set<string> } {
+    const title = normalizeTitle(job.title);
+    const key = [
+        normalizeCompanyName(job.company || ''),
+        title,
+        normalizeLocation(job.location || ''),
+    ].join('|');
+    const titleWords = new Set(title.split(' ').filter(Boolean));
+    return { key, titleWords, own: shingles(job.description || job.summary || '') };
+}
+
+/**
+ * Group saved jobs by cluster and pick each cluster's canonical representative:
+ * a direct-employer posting over an agency one, then the most complete record,
+ * then the earliest posted. Only clusters with more than one posting are listed.
+ */
+export function summarizeClusters(jobs: JobListingFull[]): ClusterReport {
+    const groups = new Map<string, JobListingFull[]>();
+    for (const job of jobs) {
+        const clusterId = job.clusterId ?? job.id;
+        const group = groups.get(clusterId);
+        if (group) group.push(job);
+        else groups.set(clusterId, [job]);
+    }
+
+    const clusters: JobCluster[] = [];
+    for (const [clusterId, members] of groups) {
+        if (members.length < 2) continue;
+
+        const representative = members
+            .map(rankRepresentative)
+            .reduce((best, rank) => (compareRepresentatives(rank, best) < 0 ? rank : best));
+
+        clusters.push({
+            clusterId,
+            representativeId: representative.id,
+            size: members.length,
+            jobIds: members.map(job => job.id),
+            titles: distinct(members.map(job => job.title)),
+            companies: distinct(members.map(job => job.company)),
+            locations: distinct(members.map(job => job.location)),
+        });
+    }
+
+    clusters.sort((a, b) => b.size - a.size);
+
+    return {
+        stats: {
+            postings: jobs.length,
+            uniqueOpenings: groups.size,
+            duplicatePostings: jobs.length - groups.size,
+            clustersWithDuplicates: clusters.length,
+            largestCluster: clusters[0]?.size ?? (jobs.length > 0 ? 1 : 0),
+        },
+        clusters,
+    };
+}
+
+/**
+ * Set each saved job's `clusterRepresentativeId` to the representative of its
+ * final cluster (postings saved early may name one that a later posting beat)
+ */
+export function applyRepresentatives(
+    jobs: JobListingFull[],
+    report: ClusterReport
+): JobListingFull[] {
+    const representatives = new Map(
+        report.clusters.map(cluster => [cluster.clusterId, cluster.representativeId])
+    );
+
+    return jobs.map(job => {
+        const representativeId = representatives.get(job.clusterId ?? job.id);
+        return representativeId ? { ...job, clusterRepresentativeId: representativeId } : job;
+    });
+}
+
+/**
+ * What counts when choosing a cluster's representative
+ */
+function rankRepresentative(job: JobListingFull): RepresentativeRank {
+    return {
+        id: job.id,
+        isStaffingAgency: Boolean(job.isStaffingAgency),
+        filledFields: filledFields(job),
+        postedDateTimestamp: job.postedDateTimestamp,
+    };
+}
+
+/**
+ * Negative when `a` makes a better representative than `b`
+ */
+function compareRepresentatives(a: RepresentativeRank, b: RepresentativeRank): number {
+    if (a.isStaffingAgency !== b.isStaffingAgency) {
+        return a.isStaffingAgency ? 1 : -1;
+    }
+
+    const completeness = b.filledFields - a.filledFields;
+    if (completeness !== 0) return completeness;
+
+    return (a.postedDateTimestamp ?? Infinity) - (b.postedDateTimestamp ?? Infinity) || 0;
+}
+
+/**
+ * Number of non-empty fields of a job record, apart from the clustering ones
+ */
+function filledFields(job: JobListingFull): number {
+    return Object.entries(job).filter(
+        ([field, value]) =>
+            !CLUSTER_FIELDS.has(field) &&
+            value !== undefined &&
+            value !== null &&
+            value !== '' &&
+            !(Array.isArray(value) && value.length === 0)
+    ).length;
+}
+
+/**
+ * Distinct non-empty values, in order
+ */
+function distinct(values: (string | undefined)[]): string[] {
+    return [...new Set(values.filter((value): value is string => Boolean(value)))];
+}
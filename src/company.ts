@@ -0,0 +1,119 @@
+import type { CompanyProfile, FieldSource, JobListingBasic, JobListingFull } from './types.js';
+import { DICE_BASE_URL } from './constants.js';
+
+// Job fields filled from the company profile, keyed by profile field
+const ENRICHED_FIELDS: [keyof CompanyProfile, keyof JobListingFull][] = [
+    ['description', 'companyDescription'],
+    ['website', 'companyWebsite'],
+    ['size', 'companySize'],
+    ['industry', 'industry'],
+    ['headquarters', 'companyHeadquarters'],
+    ['logo', 'companyLogo'],
+];
+
+/**
+ * Company ID from a company ID or a Dice company profile URL
+ */
+export function parseCompanyReference(reference: string): string | null {
+    const trimmed = reference.trim();
+    const fromUrl = trimmed.match(/\/company-profile\/([\w-]+)/i);
+    if (fromUrl) return fromUrl[1];
+
+    return /^[\w-]+$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Profile page URL for a company, preferring the URL reported by the API
+ */
+export function getCompanyPageUrl(companyId: string, pageUrl?: string): string {
+    if (pageUrl) {
+        return pageUrl.startsWith('http') ? pageUrl : `${DICE_BASE_URL}${pageUrl}`;
+    }
+    return `${DICE_BASE_URL}/company-profile/${companyId}`;
+}
+
+/**
+ * Company profiles scraped during the run, used to enrich job records.
+ * Each company page is visited once per run.
+ */
+export class CompanyCache {
+    private readonly profiles = new Map<string, CompanyProfile>();
+
+    /**
+     * Store a scraped profile
+     */
+    add(profile: CompanyProfile): void {
+        this.profiles.set(profile.companyId, profile);
+    }
+
+    /**
+     * Check whether a company profile was scraped
+     */
+    has(companyId: string): boolean {
+        return this.profiles.has(companyId);
+    }
+
+    /**
+     * Profile for a company, if scraped
+     */
+    get(companyId: string): CompanyProfile | undefined {
+        return this.profiles.get(companyId);
+    }
+
+    /**
+     * Every cached profile
+     */
+    values(): CompanyProfile[] {
+        return Array.from(this.profiles.values());
+    }
+
+    /**
+     * Fill a job's empty company fields from the cached profile
+     */
+    enrich<T extends JobListingFull>(job: T): T {
+        const profile = job.companyId ? this.profiles.get(job.companyId) : undefined;
+        if (!profile) return job;
+
+        const enriched = { ...job } as Record<string, unknown>;
+        const fieldSources: Partial<Record<keyof JobListingFull, FieldSource>> = {
+            ...job.fieldSources,
+        };
+
+        for (const [profileField, jobField] of ENRICHED_FIELDS) {
+            const current = enriched[jobField];
+            const value = profile[profileField];
+
+            if ((current === undefined || current === '') && value !== undefined) {
+                enriched[jobField] = value;
+                fieldSources[jobField] = 'company';
+            }
+        }
+
+        // Only detail-page records track field sources
+        if (job.fieldSources) enriched.fieldSources = fieldSources;
+
+        return enriched as T;
+    }
+
+    /**
+     * Number of cached profiles
+     */
+    get size(): number {
+        return this.profiles.size;
+    }
+}
+
+/**
+ * Distinct companies of the collected jobs, with their profile page URLs
+ */
+export function collectCompanies(jobs: JobListingBasic[]): Map<string, string> {
+    const companies = new Map<string, string>();
+
+    for (const job of jobs) {
+        if (job.companyId && !companies.has(job.companyId)) {
+            companies.set(job.companyId, getCompanyPageUrl(job.companyId, job.companyPageUrl));
+        }
+    }
+
+    return companies;
+}
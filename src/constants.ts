@@ -1,7 +1,12 @@
+import type { JobListingFull } from './types.js';
+
 // Dice.com API and URL constants
 export const DICE_BASE_URL = 'https://www.dice.com';
 export const DICE_API_URL = 'https://job-search-api.svc.dhigroupinc.com/v1/dice/jobs/search';
 
+// Country searched when the search location does not name one
+export const DEFAULT_COUNTRY_CODE = 'US';
+
 // Default headers for API requests
 export const DEFAULT_HEADERS = {
     'Accept': 'application/json, text/plain, */*',
@@ -19,8 +24,29 @@ export const REQUEST_CONFIG = {
     REQUEST_TIMEOUT_SECS: 60,
     NAVIGATION_TIMEOUT_SECS: 60,
     PAGE_SIZE: 100, // Max jobs per API page
+    MAX_RESULT_PAGES: 10, // Deepest result page the search API serves
+    MAX_REFILL_ROUNDS: 10, // Times searches continue past their limit to replace dropped jobs
+};
+
+// Request pacing per host, and how crawling slows down after blocked responses
+export const THROTTLE_CONFIG = {
+    REQUESTS_PER_SECOND: 5,
+    BURST: 10,
+    BASE_BACKOFF_MS: 2000, // Pause of a host after its first blocked response, doubled per block
+    MAX_BACKOFF_MS: 20000, // Well below REQUEST_TIMEOUT_SECS: API calls wait it out in the handler
+    SUCCESSES_PER_CONCURRENCY_STEP: 20, // Unblocked responses before concurrency goes back up by one
+    MAX_BLOCK_EVENTS: 100, // Block events kept for the run statistics
+};
+
+// Browser fallback for pages Dice renders client-side
+export const BROWSER_CONFIG = {
+    MAX_CONCURRENCY: 3, // Browser pages open at once, at most maxConcurrency
+    RENDER_TIMEOUT_MS: 15000, // Wait for the job cards or job details to render
 };
 
+// Name given to the search built from the top-level input fields
+export const DEFAULT_SEARCH_NAME = 'default';
+
 // Selectors for job detail page
 export const SELECTORS = {
     // Job detail page selectors
@@ -50,6 +76,147 @@ export const SELECTORS = {
     TOTAL_JOBS: 'span[data-cy="totalJobs"]',
 };
 
+// SELECTORS keys that apply to search pages; all others apply to job detail pages
+export const SEARCH_PAGE_SELECTOR_KEYS = ['SEARCH_RESULTS', 'JOB_CARD', 'PAGINATION_NEXT', 'TOTAL_JOBS'];
+
+// Selectors for company profile pages
+export const COMPANY_SELECTORS = {
+    NAME: 'h1[data-cy="companyName"]',
+    DESCRIPTION: 'div[data-cy="companyOverview"], div[data-cy="companyDescription"]',
+    WEBSITE: 'a[data-cy="companyWebsite"]',
+    SIZE: '[data-cy="companySize"]',
+    INDUSTRY: '[data-cy="companyIndustry"]',
+    HEADQUARTERS: '[data-cy="companyHeadquarters"]',
+    LOGO: 'img[data-cy="companyLogo"]',
+    OPEN_JOBS: '[data-cy="openJobsCount"]',
+};
+
+// Placeholder values written when a field could not be extracted
+export const PLACEHOLDER_VALUES = [
+    'Unknown',
+    'Unknown Title',
+    'Unknown Company',
+    'Unknown Location',
+];
+
+// Minimum number of detail pages before the extraction quality check applies
+export const QUALITY_MIN_SAMPLE_SIZE = 10;
+
+// Every JobListingFull field, in output order (quality report and export columns)
+export const JOB_LISTING_FIELDS: (keyof JobListingFull)[] = [
+    'id',
+    'guid',
+    'title',
+    'company',
+    'companyId',
+    'companyPageUrl',
+    'location',
+    'salary',
+    'salaryMin',
+    'salaryMax',
+    'salaryCurrency',
+    'salaryPeriod',
+    'salaryMinAnnual',
+    'salaryMaxAnnual',
+    'salaryMinHourly',
+    'salaryMaxHourly',
+    'salaryConfidence',
+    'salaryText',
+    'salaryNegotiable',
+    'salaryTaxTerm',
+    'jobType',
+    'employmentType',
+    'workplaceType',
+    'postedDate',
+    'postedDateTimestamp',
+    'postedAt',
+    'updatedAt',
+    'expiresAt',
+    'url',
+    'easyApply',
+    'summary',
+    'searchNames',
+    'description',
+    'descriptionHtml',
+    'responsibilities',
+    'requirements',
+    'preferredQualifications',
+    'skills',
+    'skillsByCategory',
+    'benefits',
+    'experienceLevel',
+    'experienceYearsMin',
+    'experienceYearsMax',
+    'seniority',
+    'matchScore',
+    'matchedRules',
+    'isStaffingAgency',
+    'agencySignals',
+    'likelyDuplicateOf',
+    'clusterId',
+    'clusterRepresentativeId',
+    'city',
+    'state',
+    'countryCode',
+    'postalCode',
+    'latitude',
+    'longitude',
+    'isRemote',
+    'isHybrid',
+    'locations',
+    'firstSeenAt',
+    'lastSeenAt',
+    'educationLevel',
+    'industry',
+    'companyDescription',
+    'companyWebsite',
+    'companySize',
+    'companyHeadquarters',
+    'companyLogo',
+    'applicationUrl',
+    'contactEmail',
+    'isSponsored',
+    'scrapedAt',
+];
+
+// Key-value store records written by the export stage
+export const EXPORT_KEYS = {
+    CSV: 'JOBS_CSV',
+    JSONL: 'JOBS_JSONL',
+};
+
+// Webhook delivery settings
+export const WEBHOOK_CONFIG = {
+    MAX_ATTEMPTS: 3,
+    RETRY_DELAY_MS: 1000,
+    TIMEOUT_MS: 15000,
+    SIGNATURE_HEADER: 'X-Signature-256',
+};
+
+// Job fields included in webhook payloads (descriptions are left out to keep batches small)
+export const NOTIFICATION_JOB_FIELDS: (keyof JobListingFull)[] = [
+    'id',
+    'guid',
+    'title',
+    'company',
+    'location',
+    'salary',
+    'salaryMinAnnual',
+    'salaryMaxAnnual',
+    'salaryCurrency',
+    'employmentType',
+    'workplaceType',
+    'postedDate',
+    'postedAt',
+    'url',
+    'easyApply',
+    'skills',
+    'searchNames',
+];
+
+// Per-job line used by Slack notifications when no template is configured
+export const DEFAULT_SLACK_TEMPLATE = '<{{url}}|{{title}}> at {{company}} - {{location}}';
+
 // Employment type mappings
 export const EMPLOYMENT_TYPE_MAP: Record<string, string> = {
     'FULLTIME': 'Full-time',
@@ -73,3 +240,15 @@ export const WORKPLACE_TYPE_MAP: Record<string, string> = {
     'On-Site': 'ON_SITE',
     'Hybrid': 'HYBRID',
 };
+
+// Multipliers converting a pay period to its annual equivalent
+export const ANNUAL_PERIOD_FACTORS: Record<string, number> = {
+    hour: 2080, // 40 hours x 52 weeks
+    day: 260,
+    week: 52,
+    month: 12,
+    year: 1,
+};
+
+// Working hours per year used for hourly equivalents
+export const HOURS_PER_YEAR = 2080;
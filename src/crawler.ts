@@ -0,0 +1,399 @@
+import {
+    CheerioCrawler,
+    Request,
+    log,
+    type CheerioCrawlingContext,
+    type PlaywrightCrawler,
+    type ProxyConfiguration,
+    createRequestDebugInfo,
+} from 'crawlee';
+import {
+    router,
+    getCollectedJobs,
+    getJobBudget,
+    releaseJob,
+    createHtmlFallbackRequest,
+    saveJobs,
+    takeBrowserRequests,
+} from './routes.js';
+import type { Input, JobListingBasic, RequestUserData, RunStatistics } from './types.js';
+import { DICE_API_URL, REQUEST_CONFIG, DEFAULT_SEARCH_NAME } from './constants.js';
+import { resolveSearches } from './utils.js';
+import type { FixtureServer } from './fixtures.js';
+import type { JobLifecycleTracker } from './lifecycle.js';
+import type { RunStateStore } from './state.js';
+import { collectCompanies, getCompanyPageUrl, parseCompanyReference } from './company.js';
+import { classifySeniority } from './seniority.js';
+import { getJobKey } from './registry.js';
+import { RequestThrottle, detectBlock } from './throttle.js';
+
+// Keep handled requests between crawler runs so they are not repeated after a restart
+const RUN_OPTIONS = { purgeRequestQueue: false };
+
+// Options for building the crawler
+export interface CrawlerOptions {
+    input: Input;
+    statistics: RunStatistics;
+    proxyConfiguration?: ProxyConfiguration;
+    fixtureServer?: FixtureServer;
+    lifecycleTracker?: JobLifecycleTracker;
+    throttle?: RequestThrottle;
+}
+
+/**
+ * Create the CheerioCrawler that runs the router. With a fixture server,
+ * every request is sent to the local stand-in instead of Dice. Blocked
+ * responses never reach the router: they slow the crawler down and are
+ * retried with a new session.
+ */
+export function createCrawler(options: CrawlerOptions): CheerioCrawler {
+    const { input, statistics, proxyConfiguration, fixtureServer, lifecycleTracker } = options;
+    const throttle = options.throttle ?? new RequestThrottle(input.maxConcurrency);
+
+    /**
+     * Match the crawler's concurrency to the throttle's
+     */
+    const applyConcurrency = ({ crawler }: CheerioCrawlingContext) => {
+        const pool = crawler.autoscaledPool;
+        if (pool && pool.maxConcurrency !== throttle.currentConcurrency) {
+            pool.maxConcurrency = throttle.currentConcurrency;
+        }
+    };
+
+    return new CheerioCrawler({
+        proxyConfiguration,
+        requestHandler: async context => {
+            const { request, response, body, contentType } = context;
+
+            // API search pages are not navigated to: their handler paces the API call
+            // and checks its response
+            if (request.skipNavigation) {
+                try {
+                    await router(context);
+                } finally {
+                    applyConcurrency(context);
+                }
+                return;
+            }
+
+            const reason = detectBlock(
+                response.statusCode,
+                body.toString(),
+                contentType.type === 'application/json'
+            );
+
+            if (reason) {
+                const error = throttle.recordBlock(request.url, reason);
+                applyConcurrency(context);
+                throw error;
+            }
+
+            throttle.recordSuccess(request.url);
+            applyConcurrency(context);
+            await router(context);
+        },
+
+        // Blocked status codes are detected above, together with captcha pages
+        sessionPoolOptions: { blockedStatusCodes: [] },
+
+        // Request configuration
+        maxRequestRetries: REQUEST_CONFIG.RETRY_COUNT,
+        requestHandlerTimeoutSecs: REQUEST_CONFIG.REQUEST_TIMEOUT_SECS,
+        navigationTimeoutSecs: REQUEST_CONFIG.NAVIGATION_TIMEOUT_SECS,
+
+        // Concurrency settings
+        maxConcurrency: input.maxConcurrency,
+        minConcurrency: 1,
+
+        // Additional request options
+        additionalMimeTypes: ['application/json'],
+
+        // Pre-navigation hooks for pacing requests per host and setting headers
+        preNavigationHooks: [
+            async ({ request }) => throttle.acquire(request.url),
+            ({ request }, gotOptions) => {
+                // Set browser-like headers for web requests
+                gotOptions.headers = {
+                    ...gotOptions.headers,
+                    'Accept-Language': 'en-US,en;q=0.9',
+                    'Cache-Control': 'no-cache',
+                    Pragma: 'no-cache',
+                };
+
+                // Load the page from the fixture server; request.url keeps the Dice URL
+                if (fixtureServer) {
+                    gotOptions.url = fixtureServer.localUrl(request.url);
+                }
+            },
+        ],
+
+        // Failed request handler
+        failedRequestHandler: async ({ request, crawler: failedCrawler }, error) => {
+            await recordFailedRequest(request, error, statistics, lifecycleTracker);
+
+            // Fall back to the HTML search when an API search page keeps failing
+            const userData = request.userData as RequestUserData;
+            if (userData.label === 'SEARCH_API' && userData.searchParams) {
+                log.info(`Falling back to HTML search for page ${userData.searchParams.page}`);
+                await failedCrawler.addRequests([createHtmlFallbackRequest(userData)]);
+            }
+        },
+    });
+}
+
+/**
+ * Count a request that failed for good, in either crawler
+ */
+export async function recordFailedRequest(
+    request: Request,
+    error: Error,
+    statistics: RunStatistics,
+    lifecycleTracker?: JobLifecycleTracker
+): Promise<void> {
+    statistics.errors++;
+    log.error(`Request failed: ${request.url}`, {
+        error: error.message,
+        ...createRequestDebugInfo(request),
+    });
+
+    // A search with a failed page cannot show which jobs closed
+    const userData = request.userData as RequestUserData;
+    if (userData.label === 'SEARCH_API' || userData.label === 'SEARCH') {
+        lifecycleTracker?.markIncomplete(userData.searchName || DEFAULT_SEARCH_NAME);
+    }
+
+    // A job whose detail page keeps failing gives its slot to another job, unless it was
+    // saved with its search data
+    if (userData.label === 'JOB_DETAIL' && userData.jobBasic) {
+        await releaseJob(getJobKey(userData.jobBasic));
+    }
+}
+
+/**
+ * Build the start requests: the custom start URLs, or one API search chain
+ * per saved search
+ */
+export function buildStartRequests(input: Input): Request[] {
+    const startRequests: Request[] = [];
+
+    // Check for custom start URLs first
+    if (input.startUrls && input.startUrls.length > 0) {
+        log.info(`Using ${input.startUrls.length} custom start URLs`);
+
+        for (const startUrl of input.startUrls) {
+            const url = startUrl.url;
+
+            // Determine the type of URL
+            if (url.includes('/job-detail/')) {
+                startRequests.push(
+                    new Request({
+                        url,
+                        label: 'JOB_DETAIL',
+                        userData: {
+                            label: 'JOB_DETAIL' as const,
+                        },
+                    })
+                );
+            } else {
+                startRequests.push(
+                    new Request({
+                        url,
+                        label: 'SEARCH',
+                        userData: {
+                            label: 'SEARCH' as const,
+                            page: 1,
+                        },
+                    })
+                );
+            }
+        }
+
+        return startRequests;
+    }
+
+    // Seed one API search chain per saved search; the HTML search only
+    // runs as a fallback when the API fails or returns nothing
+    for (const search of resolveSearches(input)) {
+        log.info(`Building search request for "${search.name}"`, {
+            searchParams: search.params,
+            maxJobs: search.maxJobs,
+        });
+
+        // Use API-based search (more reliable)
+        startRequests.push(
+            new Request({
+                url: `${DICE_API_URL}?page=1`,
+                label: 'SEARCH_API',
+                skipNavigation: true,
+                userData: {
+                    label: 'SEARCH_API' as const,
+                    page: 1,
+                    searchName: search.name,
+                    searchParams: search.params,
+                },
+                uniqueKey: `search-${search.name}-page-1`,
+            })
+        );
+    }
+
+    return startRequests;
+}
+
+/**
+ * Build one COMPANY request per distinct company: those of the collected jobs
+ * plus the companies given in the input
+ */
+export function buildCompanyRequests(input: Input, jobs: JobListingBasic[]): Request[] {
+    const companies = collectCompanies(jobs);
+
+    for (const reference of input.companies) {
+        const companyId = parseCompanyReference(reference);
+        if (companyId && !companies.has(companyId)) {
+            companies.set(companyId, getCompanyPageUrl(companyId));
+        }
+    }
+
+    return Array.from(companies).map(
+        ([companyId, url]) =>
+            new Request({
+                url,
+                label: 'COMPANY',
+                userData: {
+                    label: 'COMPANY' as const,
+                    companyId,
+                },
+                uniqueKey: `company-${companyId}`,
+            })
+    );
+}
+
+/**
+ * Run the search phase, then save the collected jobs: optionally scrape company
+ * pages, then scrape details (or save basic data) once for every job. Jobs dropped
+ * on the way free their slots in the job budget, and searches that stopped at their
+ * limit continue from that page to replace them. Returns the number of collected jobs.
+ * A restarted run goes through the phases again: requests handled before the restart are skipped.
+ * With a browser crawler, pages the HTTP crawler could not extract are rendered in the browser.
+ */
+export async function crawlJobs(
+    crawler: CheerioCrawler,
+    input: Input,
+    runState?: RunStateStore,
+    browserCrawler?: PlaywrightCrawler
+): Promise<number> {
+    const startRequests = buildStartRequests(input);
+    log.info(`Starting crawler with ${startRequests.length} initial requests`);
+
+    const budget = getJobBudget();
+
+    // Run the search phase
+    await runRequests(startRequests, crawler, browserCrawler);
+    log.info(`Search phase finished with ${getCollectedJobs().length} unique jobs`);
+
+    for (let round = 1; ; round++) {
+        const jobs = getCollectedJobs().filter(job => budget.isPending(getJobKey(job)));
+        await saveCollectedJobs(jobs, input, crawler, browserCrawler, runState);
+
+        const refills = budget.takeRefills();
+        if (refills.length === 0) break;
+        if (round > REQUEST_CONFIG.MAX_REFILL_ROUNDS) {
+            log.warning('Stopped replacing dropped jobs', { rounds: round - 1 });
+            break;
+        }
+
+        log.info(`Continuing ${refills.length} searches to replace dropped jobs`);
+        await runState?.persist();
+        await runRequests(
+            refills.map(page => new Request(page)),
+            crawler,
+            browserCrawler
+        );
+    }
+
+    return getCollectedJobs().length;
+}
+
+/**
+ * Scrape company pages and job details for newly collected jobs, or save them
+ * with search data only. Jobs past `maxDetailRequests` are saved without details.
+ */
+async function saveCollectedJobs(
+    jobs: JobListingBasic[],
+    input: Input,
+    crawler: CheerioCrawler,
+    browserCrawler?: PlaywrightCrawler,
+    runState?: RunStateStore
+): Promise<void> {
+    // Visit each company page once, before jobs are saved, so jobs can be enriched
+    if (input.scrapeCompanies) {
+        const companyRequests = buildCompanyRequests(input, jobs);
+        log.info(`Scraping ${companyRequests.length} company pages`);
+        await runState?.persist();
+        await crawler.run(companyRequests, RUN_OPTIONS);
+    }
+
+    if (jobs.length === 0) return;
+
+    const budget = getJobBudget();
+    const detailJobs = input.scrapeJobDetails
+        ? jobs.filter(job => budget.reserveDetailRequest(getJobKey(job)))
+        : [];
+    const basicJobs = jobs.filter(job => !detailJobs.includes(job));
+
+    if (detailJobs.length > 0) {
+        await runState?.persist();
+        await runRequests(
+            detailJobs.map(
+                job =>
+                    new Request({
+                        url: job.url,
+                        label: 'JOB_DETAIL',
+                        userData: {
+                            label: 'JOB_DETAIL' as const,
+                            jobBasic: job,
+                        },
+                    })
+            ),
+            crawler,
+            browserCrawler
+        );
+    }
+
+    if (basicJobs.length > 0) {
+        if (input.scrapeJobDetails) {
+            log.info(
+                `Detail request limit reached, saving ${basicJobs.length} jobs without details`
+            );
+        }
+
+        const scrapedAt = new Date().toISOString();
+        await saveJobs(
+            basicJobs.map(job => ({
+                ...job,
+                ...classifySeniority({ title: job.title, description: job.summary }),
+                scrapedAt,
+            }))
+        );
+        await runState?.persist();
+        log.info(`Saved ${basicJobs.length} jobs without details`);
+    }
+}
+
+/**
+ * Run requests in the HTTP crawler, then render the pages it could not extract
+ * in the browser crawler
+ */
+async function runRequests(
+    requests: Request[],
+    crawler: CheerioCrawler,
+    browserCrawler?: PlaywrightCrawler
+): Promise<void> {
+    await crawler.run(requests, RUN_OPTIONS);
+    if (!browserCrawler) return;
+
+    const browserRequests = takeBrowserRequests();
+    if (browserRequests.length === 0) return;
+
+    log.info(`Rendering ${browserRequests.length} pages in the browser`);
+    await browserCrawler.run(browserRequests, RUN_OPTIONS);
+}
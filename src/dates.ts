@@ -0,0 +1,101 @@
+import type { JobListingFull } from './types.js';
+
+// Length of the units used by relative dates, in milliseconds
+const UNIT_MS: Record<string, number> = {
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000,
+    year: 365 * 24 * 60 * 60 * 1000,
+};
+
+// Relative dates such as "2 days ago", "30+ days ago", "an hour ago" or "3d ago"
+const RELATIVE_DATE =
+    /\b(\d+|an?)\+?\s*(minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w|months?|mos?|years?|yrs?|y)\s+ago\b/i;
+
+// Unit abbreviations used by relative dates
+const UNIT_ALIASES: Record<string, string> = {
+    m: 'minute',
+    min: 'minute',
+    h: 'hour',
+    hr: 'hour',
+    d: 'day',
+    w: 'week',
+    wk: 'week',
+    mo: 'month',
+    y: 'year',
+    yr: 'year',
+};
+
+// Words for the crawl day and the day before
+const TODAY = /\b(?:today|just now|just posted|moments? ago)\b/i;
+const YESTERDAY = /\byesterday\b/i;
+
+// Absolute dates are only trusted with a four-digit year ("Mar 1, 2024", "2024-03-01")
+const ABSOLUTE_DATE = /\b\d{4}\b/;
+
+// Labels in front of dates on job pages ("Posted on", "Updated:")
+const DATE_LABEL = /^\s*(?:posted|updated|modified|date posted)\s*(?:on)?\s*:?\s*/i;
+
+/**
+ * Timestamp of a date string, or undefined when it does not parse
+ */
+export function toTimestamp(date?: string): number | undefined {
+    const timestamp = date ? Date.parse(date) : NaN;
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * ISO form of a date string, or undefined when it does not parse
+ */
+export function toIsoDate(date?: string): string | undefined {
+    const timestamp = toTimestamp(date);
+    return timestamp === undefined ? undefined : new Date(timestamp).toISOString();
+}
+
+/**
+ * Resolve a posted date as shown on Dice ("Posted 2 days ago", "Today",
+ * "30+ days ago", "Mar 1, 2024") to a timestamp. Relative phrases are resolved
+ * against `now`, the time of the crawl.
+ */
+export function parsePostedDate(text: string, now = Date.now()): number | undefined {
+    const phrase = text.replace(DATE_LABEL, '').trim();
+    if (!phrase) return undefined;
+
+    const relative = phrase.match(RELATIVE_DATE);
+    if (relative) {
+        const amount = /^an?$/i.test(relative[1]) ? 1 : parseInt(relative[1], 10);
+        const unit = relative[2].toLowerCase().replace(/s$/, '');
+        return now - amount * UNIT_MS[UNIT_ALIASES[unit] ?? unit];
+    }
+
+    if (YESTERDAY.test(phrase)) return now - UNIT_MS.day;
+    if (TODAY.test(phrase)) return now;
+
+    return ABSOLUTE_DATE.test(phrase) ? toTimestamp(phrase) : undefined;
+}
+
+/**
+ * Absolute date fields of a job: `postedDateTimestamp` and ISO `postedAt` from
+ * whichever of them is known, or from the display date resolved against
+ * `scrapedAt`; `updatedAt` and `expiresAt` in ISO form.
+ */
+export function normalizeJobDates(job: JobListingFull): Partial<JobListingFull> {
+    const postedDateTimestamp =
+        job.postedDateTimestamp ??
+        toTimestamp(job.postedAt) ??
+        (job.postedDate
+            ? parsePostedDate(job.postedDate, toTimestamp(job.scrapedAt) ?? Date.now())
+            : undefined);
+
+    return {
+        postedDateTimestamp,
+        postedAt:
+            postedDateTimestamp !== undefined
+                ? new Date(postedDateTimestamp).toISOString()
+                : undefined,
+        updatedAt: toIsoDate(job.updatedAt),
+        expiresAt: toIsoDate(job.expiresAt),
+    };
+}
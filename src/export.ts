@@ -0,0 +1,119 @@
+import { Actor, log } from 'apify';
+import type { Dataset } from 'crawlee';
+import type { ExportOptions } from './types.js';
+import { EXPORT_KEYS, JOB_LISTING_FIELDS } from './constants.js';
+
+// Dataset item being exported (a JobListingFull, or any item of a re-exported dataset)
+type ExportRecord = Record<string, unknown>;
+
+/**
+ * Columns to export: the configured columns in their given order, or every
+ * JobListingFull field followed by any other keys found in the records
+ */
+export function resolveExportColumns(records: ExportRecord[], options: ExportOptions): string[] {
+    let columns: string[];
+
+    if (options.columns.length > 0) {
+        columns = options.columns;
+    } else {
+        const found = new Set(records.flatMap(record => Object.keys(record)));
+        columns = [
+            ...JOB_LISTING_FIELDS.filter(field => found.has(field)),
+            ...Array.from(found).filter(key => !(JOB_LISTING_FIELDS as string[]).includes(key)),
+        ];
+    }
+
+    const unique = Array.from(new Set(columns));
+    return options.dropDescriptionHtml
+        ? unique.filter(column => column !== 'descriptionHtml')
+        : unique;
+}
+
+/**
+ * Flatten a value into a single cell: arrays joined with the delimiter, objects as JSON
+ */
+export function flattenValue(value: unknown, arrayDelimiter: string): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) {
+        return value.map(item => flattenValue(item, arrayDelimiter)).join(arrayDelimiter);
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value as string | number | boolean);
+}
+
+/**
+ * Render records as CSV with a header row (RFC 4180 quoting, CRLF line endings)
+ */
+export function toCsv(records: ExportRecord[], columns: string[], options: ExportOptions): string {
+    const row = (cells: string[]) =>
+        cells.map(cell => escapeCsvCell(cell, options.csvDelimiter)).join(options.csvDelimiter);
+
+    const lines = [
+        row(columns),
+        ...records.map(record =>
+            row(columns.map(column => flattenValue(record[column], options.arrayDelimiter)))
+        ),
+    ];
+
+    return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Render records as JSON Lines, keeping the selected columns in order.
+ * Arrays and objects keep their JSON types.
+ */
+export function toJsonl(records: ExportRecord[], columns: string[]): string {
+    return records
+        .map(record =>
+            JSON.stringify(Object.fromEntries(columns.map(column => [column, record[column]])))
+        )
+        .map(line => `${line}\n`)
+        .join('');
+}
+
+/**
+ * Write the records to the default key-value store in the configured formats
+ */
+export async function exportJobs(items: object[], options: ExportOptions): Promise<void> {
+    if (options.formats.length === 0) return;
+
+    const records = items as ExportRecord[];
+    const columns = resolveExportColumns(records, options);
+
+    if (options.formats.includes('csv')) {
+        await Actor.setValue(EXPORT_KEYS.CSV, toCsv(records, columns, options), {
+            contentType: 'text/csv; charset=utf-8',
+        });
+    }
+
+    if (options.formats.includes('jsonl')) {
+        await Actor.setValue(EXPORT_KEYS.JSONL, toJsonl(records, columns), {
+            contentType: 'application/x-ndjson; charset=utf-8',
+        });
+    }
+
+    log.info(`Exported ${records.length} jobs as ${options.formats.join(', ')}`, {
+        columns: columns.length,
+    });
+}
+
+/**
+ * Read every item of a dataset
+ */
+export async function readDatasetItems<T = ExportRecord>(dataset: Dataset): Promise<T[]> {
+    const items: T[] = [];
+    await dataset.forEach(item => {
+        items.push(item as T);
+    });
+    return items;
+}
+
+/**
+ * Quote a CSV cell when it contains the delimiter, quotes or line breaks
+ */
+function escapeCsvCell(cell: string, delimiter: string): string {
+    if (cell.includes(delimiter) || /["\r\n]/.test(cell)) {
+        return `"${cell.replace(/"/g, '""')}"`;
+    }
+    return cell;
+}
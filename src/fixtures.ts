@@ -0,0 +1,226 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { log } from 'crawlee';
+import type { FixtureEntry, FixtureMode } from './types.js';
+
+// Manifest mapping request URLs to fixture files, stored in the fixtures directory
+const MANIFEST_FILE = 'manifest.json';
+
+// Path on the local server that serves fixtures (the original URL is in the query)
+const FIXTURE_PATH = '/fixture';
+
+// Request headers that must not be forwarded upstream in record mode
+const SKIPPED_REQUEST_HEADERS = [
+    'host',
+    'connection',
+    'content-length',
+    'accept-encoding',
+    'keep-alive',
+    'transfer-encoding',
+];
+
+// Content types assumed for hand-written fixtures, by file extension
+const CONTENT_TYPES: Record<string, string> = {
+    '.json': 'application/json; charset=utf-8',
+    '.html': 'text/html; charset=utf-8',
+};
+
+/**
+ * Normalize a URL for fixture lookup: sorted query parameters, no hash
+ */
+export function normalizeFixtureUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.searchParams.sort();
+    return parsed.toString();
+}
+
+/**
+ * File name for a recorded response, readable but unique per URL
+ */
+export function fixtureFileName(url: string, contentType: string): string {
+    const parsed = new URL(url);
+    const slug = `${parsed.hostname}${parsed.pathname}`
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+        .slice(0, 80);
+    const hash = createHash('sha1').update(normalizeFixtureUrl(url)).digest('hex').slice(0, 10);
+    const extension = contentType.includes('json')
+        ? 'json'
+        : contentType.includes('html')
+          ? 'html'
+          : 'txt';
+
+    return `${slug}-${hash}.${extension}`;
+}
+
+/**
+ * Local HTTP stand-in for Dice. In replay mode it serves recorded API responses
+ * and HTML pages from a fixtures directory, so the crawler runs without network
+ * access. In record mode it forwards each request to the real URL and saves the
+ * response as a new fixture.
+ */
+export class FixtureServer {
+    private server?: Server;
+    private baseUrl?: string;
+    private manifest: Record<string, FixtureEntry> = {};
+    private recorded = 0;
+
+    constructor(
+        private readonly dir: string,
+        readonly mode: FixtureMode
+    ) {}
+
+    /**
+     * Load the manifest and start listening on a free local port
+     */
+    async start(): Promise<string> {
+        this.manifest = await this.loadManifest();
+
+        const server = createServer((req, res) => {
+            this.handle(req, res).catch((error: unknown) => {
+                log.error('Fixture server request failed', { error, url: req.url });
+                if (!res.headersSent) res.writeHead(500);
+                res.end();
+            });
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+
+        this.server = server;
+        this.baseUrl = `http://127.0.0.1:${port}`;
+
+        log.info(`Fixture server (${this.mode}) listening on ${this.baseUrl}`, {
+            fixturesDir: this.dir,
+            fixtures: Object.keys(this.manifest).length,
+        });
+
+        return this.baseUrl;
+    }
+
+    /**
+     * URL on the local server that stands in for a Dice URL
+     */
+    localUrl(url: string): string {
+        if (!this.baseUrl) throw new Error('Fixture server is not running');
+        return `${this.baseUrl}${FIXTURE_PATH}?url=${encodeURIComponent(url)}`;
+    }
+
+    /**
+     * Stop the server and, in record mode, write the updated manifest
+     */
+    async stop(): Promise<void> {
+        if (this.server) {
+            const server = this.server;
+            await new Promise<void>(resolve => server.close(() => resolve()));
+            this.server = undefined;
+            this.baseUrl = undefined;
+        }
+
+        if (this.mode === 'record') {
+            await mkdir(this.dir, { recursive: true });
+            await writeFile(
+                join(this.dir, MANIFEST_FILE),
+                `${JSON.stringify(this.manifest, null, 2)}\n`
+            );
+            log.info(`Recorded ${this.recorded} fixtures to ${this.dir}`);
+        }
+    }
+
+    /**
+     * Route a local request to replay or record
+     */
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const requestUrl = new URL(req.url || '/', 'http://127.0.0.1');
+        const url = requestUrl.searchParams.get('url');
+
+        if (requestUrl.pathname !== FIXTURE_PATH || !url) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Expected /fixture?url=<original URL>' }));
+            return;
+        }
+
+        if (this.mode === 'record') {
+            await this.record(url, req, res);
+        } else {
+            await this.replay(url, res);
+        }
+    }
+
+    /**
+     * Serve the recorded response for a URL, or 501 when none was recorded. Not 404:
+     * that would read as a removed posting, and the request fails instead.
+     */
+    private async replay(url: string, res: ServerResponse): Promise<void> {
+        const entry = this.manifest[normalizeFixtureUrl(url)];
+
+        if (!entry) {
+            log.warning(`No fixture recorded for ${url}`);
+            res.writeHead(501, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'No fixture recorded', url }));
+            return;
+        }
+
+        const body = await readFile(join(this.dir, entry.file));
+        res.writeHead(entry.status ?? 200, {
+            'Content-Type': entry.contentType || CONTENT_TYPES[extname(entry.file)] || 'text/plain',
+        });
+        res.end(body);
+    }
+
+    /**
+     * Fetch a URL from the live site, save the response as a fixture and pass it on
+     */
+    private async record(url: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+            if (value === undefined || SKIPPED_REQUEST_HEADERS.includes(name)) continue;
+            headers[name] = Array.isArray(value) ? value.join(', ') : value;
+        }
+
+        const response = await fetch(url, { method: req.method, headers });
+        const body = Buffer.from(await response.arrayBuffer());
+        const contentType = response.headers.get('content-type') || 'text/plain';
+        const file = fixtureFileName(url, contentType);
+
+        await mkdir(this.dir, { recursive: true });
+        await writeFile(join(this.dir, file), body);
+
+        this.manifest[normalizeFixtureUrl(url)] = {
+            file,
+            status: response.status,
+            contentType,
+        };
+        this.recorded++;
+        log.debug(`Recorded fixture ${file}`, { url, status: response.status });
+
+        res.writeHead(response.status, { 'Content-Type': contentType });
+        res.end(body);
+    }
+
+    /**
+     * Read the manifest, or start empty when recording into a new directory
+     */
+    private async loadManifest(): Promise<Record<string, FixtureEntry>> {
+        try {
+            const content = await readFile(join(this.dir, MANIFEST_FILE), 'utf8');
+            const manifest = JSON.parse(content) as Record<string, FixtureEntry>;
+
+            // Hand-written manifests may use URLs with any query parameter order
+            return Object.fromEntries(
+                Object.entries(manifest).map(([url, entry]) => [normalizeFixtureUrl(url), entry])
+            );
+        } catch (error) {
+            if (this.mode === 'record' && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return {};
+            }
+            throw new Error(
+                `Could not read fixtures manifest in "${this.dir}": ${(error as Error).message}`
+            );
+        }
+    }
+}
@@ -0,0 +1,331 @@
+// Offline gazetteer used by the location module: countries, US states and
+// Canadian provinces, and the cities most Dice postings are in, with coordinates
+// (rounded to two decimals; regions and countries use their geographic centers).
+
+// Country: ISO 3166-1 alpha-2 code, name, other names, latitude, longitude
+export type CountryEntry = [string, string, string[], number, number];
+
+// State or province: code, name, country code, latitude, longitude
+export type RegionEntry = [string, string, string, number, number];
+
+// City: name, state or province code ('' outside the US and Canada), country code,
+// latitude, longitude. Cities sharing a name are listed most prominent first.
+export type CityEntry = [string, string, string, number, number];
+
+export const COUNTRIES: CountryEntry[] = [
+    [
+        'US',
+        'United States',
+        ['usa', 'us', 'u s', 'u s a', 'united states of america', 'america'],
+        39.83,
+        -98.58,
+    ],
+    ['CA', 'Canada', ['can'], 56.13, -106.35],
+    ['MX', 'Mexico', ['méxico'], 23.63, -102.55],
+    [
+        'GB',
+        'United Kingdom',
+        [
+            'uk',
+            'u k',
+            'great britain',
+            'britain',
+            'england',
+            'scotland',
+            'wales',
+            'northern ireland',
+        ],
+        55.38,
+        -3.44,
+    ],
+    ['IE', 'Ireland', [], 53.41, -8.24],
+    ['FR', 'France', [], 46.23, 2.21],
+    ['DE', 'Germany', ['deutschland'], 51.17, 10.45],
+    ['NL', 'Netherlands', ['the netherlands', 'holland'], 52.13, 5.29],
+    ['BE', 'Belgium', [], 50.5, 4.47],
+    ['CH', 'Switzerland', [], 46.82, 8.23],
+    ['AT', 'Austria', [], 47.52, 14.55],
+    ['ES', 'Spain', [], 40.46, -3.75],
+    ['PT', 'Portugal', [], 39.4, -8.22],
+    ['IT', 'Italy', [], 41.87, 12.57],
+    ['SE', 'Sweden', [], 60.13, 18.64],
+    ['NO', 'Norway', [], 60.47, 8.47],
+    ['DK', 'Denmark', [], 56.26, 9.5],
+    ['FI', 'Finland', [], 61.92, 25.75],
+    ['PL', 'Poland', [], 51.92, 19.15],
+    ['CZ', 'Czech Republic', ['czechia'], 49.82, 15.47],
+    ['RO', 'Romania', [], 45.94, 24.97],
+    ['IL', 'Israel', [], 31.05, 34.85],
+    ['AE', 'United Arab Emirates', ['uae'], 23.42, 53.85],
+    ['IN', 'India', [], 20.59, 78.96],
+    ['SG', 'Singapore', [], 1.35, 103.82],
+    ['JP', 'Japan', [], 36.2, 138.25],
+    ['KR', 'South Korea', ['korea', 'republic of korea'], 35.91, 127.77],
+    ['CN', 'China', [], 35.86, 104.2],
+    ['HK', 'Hong Kong', [], 22.32, 114.17],
+    ['AU', 'Australia', [], -25.27, 133.78],
+    ['NZ', 'New Zealand', [], -40.9, 174.89],
+    ['BR', 'Brazil', ['brasil'], -14.24, -51.93],
+    ['AR', 'Argentina', [], -38.42, -63.62],
+    ['CO', 'Colombia', [], 4.57, -74.3],
+    ['PH', 'Philippines', [], 12.88, 121.77],
+    ['ZA', 'South Africa', [], -30.56, 22.94],
+];
+
+export const REGIONS: RegionEntry[] = [
+    ['AL', 'Alabama', 'US', 32.81, -86.79],
+    ['AK', 'Alaska', 'US', 61.37, -152.4],
+    ['AZ', 'Arizona', 'US', 33.73, -111.43],
+    ['AR', 'Arkansas', 'US', 34.97, -92.37],
+    ['CA', 'California', 'US', 36.12, -119.68],
+    ['CO', 'Colorado', 'US', 39.06, -105.31],
+    ['CT', 'Connecticut', 'US', 41.6, -72.76],
+    ['DE', 'Delaware', 'US', 39.32, -75.51],
+    ['DC', 'District of Columbia', 'US', 38.9, -77.03],
+    ['FL', 'Florida', 'US', 27.77, -81.69],
+    ['GA', 'Georgia', 'US', 33.04, -83.64],
+    ['HI', 'Hawaii', 'US', 21.09, -157.5],
+    ['ID', 'Idaho', 'US', 44.24, -114.48],
+    ['IL', 'Illinois', 'US', 40.35, -88.99],
+    ['IN', 'Indiana', 'US', 39.85, -86.26],
+    ['IA', 'Iowa', 'US', 42.01, -93.21],
+    ['KS', 'Kansas', 'US', 38.53, -96.73],
+    ['KY', 'Kentucky', 'US', 37.67, -84.67],
+    ['LA', 'Louisiana', 'US', 31.17, -91.87],
+    ['ME', 'Maine', 'US', 44.69, -69.38],
+    ['MD', 'Maryland', 'US', 39.06, -76.8],
+    ['MA', 'Massachusetts', 'US', 42.23, -71.53],
+    ['MI', 'Michigan', 'US', 43.33, -84.54],
+    ['MN', 'Minnesota', 'US', 45.69, -93.9],
+    ['MS', 'Mississippi', 'US', 32.74, -89.68],
+    ['MO', 'Missouri', 'US', 38.46, -92.29],
+    ['MT', 'Montana', 'US', 46.92, -110.45],
+    ['NE', 'Nebraska', 'US', 41.13, -98.27],
+    ['NV', 'Nevada', 'US', 38.31, -117.06],
+    ['NH', 'New Hampshire', 'US', 43.45, -71.56],
+    ['NJ', 'New Jersey', 'US', 40.3, -74.52],
+    ['NM', 'New Mexico', 'US', 34.84, -106.25],
+    ['NY', 'New York', 'US', 42.17, -74.95],
+    ['NC', 'North Carolina', 'US', 35.63, -79.81],
+    ['ND', 'North Dakota', 'US', 47.53, -99.78],
+    ['OH', 'Ohio', 'US', 40.39, -82.76],
+    ['OK', 'Oklahoma', 'US', 35.57, -96.93],
+    ['OR', 'Oregon', 'US', 44.57, -122.07],
+    ['PA', 'Pennsylvania', 'US', 40.59, -77.21],
+    ['RI', 'Rhode Island', 'US', 41.68, -71.51],
+    ['SC', 'South Carolina', 'US', 33.86, -80.95],
+    ['SD', 'South Dakota', 'US', 44.3, -99.44],
+    ['TN', 'Tennessee', 'US', 35.75, -86.69],
+    ['TX', 'Texas', 'US', 31.05, -97.56],
+    ['UT', 'Utah', 'US', 40.15, -111.86],
+    ['VT', 'Vermont', 'US', 44.05, -72.71],
+    ['VA', 'Virginia', 'US', 37.77, -78.17],
+    ['WA', 'Washington', 'US', 47.4, -121.49],
+    ['WV', 'West Virginia', 'US', 38.49, -80.95],
+    ['WI', 'Wisconsin', 'US', 44.27, -89.62],
+    ['WY', 'Wyoming', 'US', 42.76, -107.3],
+    ['PR', 'Puerto Rico', 'US', 18.22, -66.59],
+    ['AB', 'Alberta', 'CA', 53.93, -116.58],
+    ['BC', 'British Columbia', 'CA', 53.73, -127.65],
+    ['MB', 'Manitoba', 'CA', 53.76, -98.81],
+    ['NB', 'New Brunswick', 'CA', 46.57, -66.46],
+    ['NL', 'Newfoundland and Labrador', 'CA', 53.14, -57.66],
+    ['NS', 'Nova Scotia', 'CA', 44.68, -63.74],
+    ['ON', 'Ontario', 'CA', 51.25, -85.32],
+    ['PE', 'Prince Edward Island', 'CA', 46.51, -63.42],
+    ['QC', 'Quebec', 'CA', 52.94, -73.55],
+    ['SK', 'Saskatchewan', 'CA', 52.94, -106.45],
+    ['NT', 'Northwest Territories', 'CA', 64.83, -124.85],
+    ['NU', 'Nunavut', 'CA', 70.3, -83.11],
+    ['YT', 'Yukon', 'CA', 64.28, -135.0],
+];
+
+export const CITIES: CityEntry[] = [
+    // United States
+    ['New York', 'NY', 'US', 40.71, -74.01],
+    ['Los Angeles', 'CA', 'US', 34.05, -118.24],
+    ['Chicago', 'IL', 'US', 41.88, -87.63],
+    ['Houston', 'TX', 'US', 29.76, -95.37],
+    ['Phoenix', 'AZ', 'US', 33.45, -112.07],
+    ['Philadelphia', 'PA', 'US', 39.95, -75.17],
+    ['San Antonio', 'TX', 'US', 29.42, -98.49],
+    ['San Diego', 'CA', 'US', 32.72, -117.16],
+    ['Dallas', 'TX', 'US', 32.78, -96.8],
+    ['San Jose', 'CA', 'US', 37.34, -121.89],
+    ['Austin', 'TX', 'US', 30.27, -97.74],
+    ['Jacksonville', 'FL', 'US', 30.33, -81.66],
+    ['Fort Worth', 'TX', 'US', 32.76, -97.33],
+    ['Columbus', 'OH', 'US', 39.96, -83.0],
+    ['Charlotte', 'NC', 'US', 35.23, -80.84],
+    ['San Francisco', 'CA', 'US', 37.77, -122.42],
+    ['Indianapolis', 'IN', 'US', 39.77, -86.16],
+    ['Seattle', 'WA', 'US', 47.61, -122.33],
+    ['Denver', 'CO', 'US', 39.74, -104.99],
+    ['Washington', 'DC', 'US', 38.91, -77.04],
+    ['Boston', 'MA', 'US', 42.36, -71.06],
+    ['Nashville', 'TN', 'US', 36.16, -86.78],
+    ['Detroit', 'MI', 'US', 42.33, -83.05],
+    ['Portland', 'OR', 'US', 45.52, -122.68],
+    ['Las Vegas', 'NV', 'US', 36.17, -115.14],
+    ['Memphis', 'TN', 'US', 35.15, -90.05],
+    ['Louisville', 'KY', 'US', 38.25, -85.76],
+    ['Baltimore', 'MD', 'US', 39.29, -76.61],
+    ['Milwaukee', 'WI', 'US', 43.04, -87.91],
+    ['Albuquerque', 'NM', 'US', 35.08, -106.65],
+    ['Tucson', 'AZ', 'US', 32.22, -110.97],
+    ['Sacramento', 'CA', 'US', 38.58, -121.49],
+    ['Kansas City', 'MO', 'US', 39.1, -94.58],
+    ['Atlanta', 'GA', 'US', 33.75, -84.39],
+    ['Omaha', 'NE', 'US', 41.26, -95.93],
+    ['Raleigh', 'NC', 'US', 35.78, -78.64],
+    ['Miami', 'FL', 'US', 25.76, -80.19],
+    ['Minneapolis', 'MN', 'US', 44.98, -93.27],
+    ['Tampa', 'FL', 'US', 27.95, -82.46],
+    ['New Orleans', 'LA', 'US', 29.95, -90.07],
+    ['Cleveland', 'OH', 'US', 41.5, -81.69],
+    ['Pittsburgh', 'PA', 'US', 40.44, -80.0],
+    ['Cincinnati', 'OH', 'US', 39.1, -84.51],
+    ['St. Louis', 'MO', 'US', 38.63, -90.2],
+    ['Orlando', 'FL', 'US', 28.54, -81.38],
+    ['Salt Lake City', 'UT', 'US', 40.76, -111.89],
+    ['Irvine', 'CA', 'US', 33.68, -117.83],
+    ['Plano', 'TX', 'US', 33.02, -96.7],
+    ['Irving', 'TX', 'US', 32.81, -96.95],
+    ['Richmond', 'VA', 'US', 37.54, -77.44],
+    ['Arlington', 'VA', 'US', 38.88, -77.1],
+    ['Reston', 'VA', 'US', 38.96, -77.36],
+    ['Herndon', 'VA', 'US', 38.97, -77.39],
+    ['McLean', 'VA', 'US', 38.93, -77.18],
+    ['Alexandria', 'VA', 'US', 38.8, -77.05],
+    ['Chantilly', 'VA', 'US', 38.89, -77.43],
+    ['Columbia', 'MD', 'US', 39.2, -76.86],
+    ['Bethesda', 'MD', 'US', 38.98, -77.1],
+    ['Rockville', 'MD', 'US', 39.08, -77.15],
+    ['Jersey City', 'NJ', 'US', 40.73, -74.08],
+    ['Newark', 'NJ', 'US', 40.74, -74.17],
+    ['Princeton', 'NJ', 'US', 40.36, -74.66],
+    ['Hartford', 'CT', 'US', 41.76, -72.69],
+    ['Stamford', 'CT', 'US', 41.05, -73.54],
+    ['Providence', 'RI', 'US', 41.82, -71.41],
+    ['Cambridge', 'MA', 'US', 42.37, -71.11],
+    ['Durham', 'NC', 'US', 35.99, -78.9],
+    ['Boise', 'ID', 'US', 43.62, -116.2],
+    ['Madison', 'WI', 'US', 43.07, -89.4],
+    ['Des Moines', 'IA', 'US', 41.59, -93.62],
+    ['Oklahoma City', 'OK', 'US', 35.47, -97.52],
+    ['Birmingham', 'AL', 'US', 33.52, -86.8],
+    ['Huntsville', 'AL', 'US', 34.73, -86.59],
+    ['Scottsdale', 'AZ', 'US', 33.49, -111.93],
+    ['Tempe', 'AZ', 'US', 33.43, -111.94],
+    ['Chandler', 'AZ', 'US', 33.31, -111.84],
+    ['Mountain View', 'CA', 'US', 37.39, -122.08],
+    ['Palo Alto', 'CA', 'US', 37.44, -122.14],
+    ['Sunnyvale', 'CA', 'US', 37.37, -122.04],
+    ['Santa Clara', 'CA', 'US', 37.35, -121.96],
+    ['Oakland', 'CA', 'US', 37.8, -122.27],
+    ['Redmond', 'WA', 'US', 47.67, -122.12],
+    ['Bellevue', 'WA', 'US', 47.61, -122.2],
+    ['Boulder', 'CO', 'US', 40.01, -105.27],
+    ['Colorado Springs', 'CO', 'US', 38.83, -104.82],
+    ['Honolulu', 'HI', 'US', 21.31, -157.86],
+    ['Anchorage', 'AK', 'US', 61.22, -149.9],
+    ['St. Paul', 'MN', 'US', 44.95, -93.09],
+    ['Buffalo', 'NY', 'US', 42.89, -78.88],
+    ['Rochester', 'NY', 'US', 43.16, -77.61],
+    ['Albany', 'NY', 'US', 42.65, -73.76],
+    ['Charleston', 'SC', 'US', 32.78, -79.93],
+    ['Greenville', 'SC', 'US', 34.85, -82.4],
+    ['Columbia', 'SC', 'US', 34.0, -81.03],
+    ['Wilmington', 'DE', 'US', 39.74, -75.55],
+    ['San Juan', 'PR', 'US', 18.47, -66.11],
+
+    // Canada
+    ['Toronto', 'ON', 'CA', 43.65, -79.38],
+    ['Montreal', 'QC', 'CA', 45.5, -73.57],
+    ['Vancouver', 'BC', 'CA', 49.28, -123.12],
+    ['Calgary', 'AB', 'CA', 51.05, -114.07],
+    ['Ottawa', 'ON', 'CA', 45.42, -75.7],
+    ['Edmonton', 'AB', 'CA', 53.55, -113.49],
+    ['Mississauga', 'ON', 'CA', 43.59, -79.64],
+    ['Winnipeg', 'MB', 'CA', 49.9, -97.14],
+    ['Quebec City', 'QC', 'CA', 46.81, -71.21],
+    ['Waterloo', 'ON', 'CA', 43.46, -80.52],
+    ['Halifax', 'NS', 'CA', 44.65, -63.58],
+
+    // Rest of the world
+    ['London', '', 'GB', 51.51, -0.13],
+    ['Manchester', '', 'GB', 53.48, -2.24],
+    ['Edinburgh', '', 'GB', 55.95, -3.19],
+    ['Cambridge', '', 'GB', 52.21, 0.12],
+    ['Birmingham', '', 'GB', 52.49, -1.89],
+    ['Dublin', '', 'IE', 53.35, -6.26],
+    ['Paris', '', 'FR', 48.86, 2.35],
+    ['Berlin', '', 'DE', 52.52, 13.4],
+    ['Munich', '', 'DE', 48.14, 11.58],
+    ['Frankfurt', '', 'DE', 50.11, 8.68],
+    ['Hamburg', '', 'DE', 53.55, 9.99],
+    ['Amsterdam', '', 'NL', 52.37, 4.9],
+    ['Brussels', '', 'BE', 50.85, 4.35],
+    ['Zurich', '', 'CH', 47.38, 8.54],
+    ['Geneva', '', 'CH', 46.2, 6.14],
+    ['Vienna', '', 'AT', 48.21, 16.37],
+    ['Madrid', '', 'ES', 40.42, -3.7],
+    ['Barcelona', '', 'ES', 41.39, 2.17],
+    ['Lisbon', '', 'PT', 38.72, -9.14],
+    ['Milan', '', 'IT', 45.46, 9.19],
+    ['Rome', '', 'IT', 41.9, 12.5],
+    ['Stockholm', '', 'SE', 59.33, 18.07],
+    ['Oslo', '', 'NO', 59.91, 10.75],
+    ['Copenhagen', '', 'DK', 55.68, 12.57],
+    ['Helsinki', '', 'FI', 60.17, 24.94],
+    ['Warsaw', '', 'PL', 52.23, 21.01],
+    ['Krakow', '', 'PL', 50.06, 19.94],
+    ['Prague', '', 'CZ', 50.08, 14.44],
+    ['Bucharest', '', 'RO', 44.43, 26.1],
+    ['Tel Aviv', '', 'IL', 32.09, 34.78],
+    ['Dubai', '', 'AE', 25.2, 55.27],
+    ['Bangalore', '', 'IN', 12.97, 77.59],
+    ['Hyderabad', '', 'IN', 17.39, 78.49],
+    ['Pune', '', 'IN', 18.52, 73.86],
+    ['Chennai', '', 'IN', 13.08, 80.27],
+    ['Mumbai', '', 'IN', 19.08, 72.88],
+    ['New Delhi', '', 'IN', 28.61, 77.21],
+    ['Noida', '', 'IN', 28.54, 77.39],
+    ['Gurgaon', '', 'IN', 28.46, 77.03],
+    ['Singapore', '', 'SG', 1.35, 103.82],
+    ['Tokyo', '', 'JP', 35.68, 139.69],
+    ['Seoul', '', 'KR', 37.57, 126.98],
+    ['Shanghai', '', 'CN', 31.23, 121.47],
+    ['Beijing', '', 'CN', 39.9, 116.41],
+    ['Hong Kong', '', 'HK', 22.32, 114.17],
+    ['Sydney', '', 'AU', -33.87, 151.21],
+    ['Melbourne', '', 'AU', -37.81, 144.96],
+    ['Brisbane', '', 'AU', -27.47, 153.03],
+    ['Auckland', '', 'NZ', -36.85, 174.76],
+    ['Mexico City', '', 'MX', 19.43, -99.13],
+    ['Guadalajara', '', 'MX', 20.66, -103.35],
+    ['Sao Paulo', '', 'BR', -23.55, -46.63],
+    ['Buenos Aires', '', 'AR', -34.6, -58.38],
+    ['Bogota', '', 'CO', 4.71, -74.07],
+    ['Manila', '', 'PH', 14.6, 120.98],
+    ['Johannesburg', '', 'ZA', -26.2, 28.05],
+    ['Cape Town', '', 'ZA', -33.92, 18.42],
+];
+
+// Other names of cities, keyed by normalized name
+export const CITY_ALIASES = new Map([
+    ['nyc', 'new york'],
+    ['new york city', 'new york'],
+    ['manhattan', 'new york'],
+    ['sf', 'san francisco'],
+    ['saint louis', 'st louis'],
+    ['saint paul', 'st paul'],
+    ['washington dc', 'washington'],
+    ['washington d c', 'washington'],
+    ['bengaluru', 'bangalore'],
+    ['gurugram', 'gurgaon'],
+    ['delhi', 'new delhi'],
+    ['bombay', 'mumbai'],
+    ['munchen', 'munich'],
+    ['cracow', 'krakow'],
+]);
@@ -0,0 +1,128 @@
+import { Actor, log } from 'apify';
+import type { ChangeStats, JobChange, JobListingFull } from './types.js';
+import { getJobKey } from './registry.js';
+
+// Characters allowed in key-value store keys
+const INVALID_KEY_CHARS = /[^a-zA-Z0-9!\-_.'()]/g;
+
+// Storage for the last saved version of each job (a key-value store)
+export interface SnapshotStore {
+    getValue<T>(key: string): Promise<T | null>;
+    setValue(key: string, value: unknown): Promise<void>;
+}
+
+/**
+ * Whether a record comes from a job detail page rather than search results only
+ */
+function hasDetails(job: Partial<JobListingFull>): boolean {
+    return Boolean(job.description || job.descriptionHtml);
+}
+
+/**
+ * Field-level changes between the stored and the newly extracted version of a
+ * job. Fields a search-only record cannot have are only compared when both
+ * versions come from the same kind of page.
+ */
+export function diffJobs(
+    previous: Partial<JobListingFull>,
+    current: JobListingFull,
+    ignoreFields: Set<string>,
+    detectedAt: string
+): JobChange[] {
+    const fields =
+        hasDetails(previous) === hasDetails(current)
+            ? new Set([...Object.keys(previous), ...Object.keys(current)])
+            : new Set(Object.keys(current));
+
+    const changes: JobChange[] = [];
+    for (const field of fields) {
+        if (ignoreFields.has(field)) continue;
+
+        const oldValue = previous[field as keyof JobListingFull] ?? null;
+        const newValue = current[field as keyof JobListingFull] ?? null;
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+        changes.push({
+            jobId: current.id,
+            title: current.title,
+            company: current.company,
+            url: current.url,
+            field,
+            oldValue,
+            newValue,
+            detectedAt,
+            previousScrapedAt: previous.scrapedAt,
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Compares every saved job with the version saved by an earlier run and keeps
+ * the latest version of each job, one key-value store record per job
+ */
+export class ChangeTracker {
+    private readonly stats: ChangeStats = { compared: 0, newJobs: 0, changedJobs: 0, changes: 0 };
+    private readonly ignoreFields: Set<string>;
+
+    constructor(
+        private readonly store: SnapshotStore,
+        ignoreFields: string[] = []
+    ) {
+        this.ignoreFields = new Set(ignoreFields);
+    }
+
+    /**
+     * Open the tracker on a named key-value store
+     */
+    static async open(storeName: string, ignoreFields: string[]): Promise<ChangeTracker> {
+        const store = await Actor.openKeyValueStore(storeName);
+        log.info(`Comparing jobs with their last versions in "${storeName}"`);
+        return new ChangeTracker(store, ignoreFields);
+    }
+
+    /**
+     * Changes of a job since its stored version; the job then becomes the stored
+     * version. Records saved after a failed detail extraction are not compared.
+     */
+    async compare(
+        job: JobListingFull,
+        detectedAt = new Date().toISOString()
+    ): Promise<JobChange[]> {
+        if (job.error) return [];
+
+        const key = getJobKey(job).replace(INVALID_KEY_CHARS, '-');
+        const previous = await this.store.getValue<Partial<JobListingFull>>(key);
+        const changes = previous ? diffJobs(previous, job, this.ignoreFields, detectedAt) : [];
+
+        // Search-only records keep the detail fields of the stored version
+        const snapshot = previous && !hasDetails(job) ? { ...previous, ...job } : { ...job };
+        for (const field of this.ignoreFields) {
+            if (field !== 'scrapedAt') delete snapshot[field as keyof JobListingFull];
+        }
+        await this.store.setValue(key, snapshot);
+
+        this.stats.compared++;
+        if (!previous) this.stats.newJobs++;
+        if (changes.length > 0) this.stats.changedJobs++;
+        this.stats.changes += changes.length;
+
+        return changes;
+    }
+
+    /**
+     * Summary of the comparisons made in this run
+     */
+    getStats(): ChangeStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Continue from the counts saved before a restart; the stored versions
+     * written before it are already in the key-value store
+     */
+    restore(stats: ChangeStats): void {
+        Object.assign(this.stats, stats);
+    }
+}
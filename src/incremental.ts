@@ -0,0 +1,155 @@
+import { Actor, log, type KeyValueStore } from 'apify';
+import type { IncrementalStats } from './types.js';
+
+// Key under which the seen-jobs index is stored
+const SEEN_JOBS_KEY = 'SEEN_JOBS';
+
+export type SeenJobStatus = 'new' | 'updated' | 'unchanged';
+
+// Entry stored for every job seen in previous runs
+export interface SeenJobEntry {
+    modifiedDate?: string;
+    firstSeenAt: string;
+    lastSeenAt: string;
+}
+
+// Job checked in this run: its status and the modifiedDate to store once it is saved
+export interface CheckedJob {
+    status: SeenJobStatus;
+    modifiedDate?: string;
+    recorded?: boolean;
+}
+
+// Counts, checked jobs and the index entries written in this run, saved with the run state
+export interface SeenJobsState {
+    stats: IncrementalStats;
+    checked: Record<string, CheckedJob>;
+    entries: Record<string, SeenJobEntry>;
+}
+
+/**
+ * Persisted index of job IDs seen in previous runs, used by incremental mode
+ */
+export class SeenJobsIndex {
+    readonly stats: IncrementalStats = { new: 0, updated: 0, unchanged: 0 };
+    private readonly checkedThisRun = new Map<string, CheckedJob>();
+
+    constructor(
+        private readonly entries: Record<string, SeenJobEntry>,
+        private readonly store?: KeyValueStore
+    ) {}
+
+    /**
+     * Open the index from a named key-value store
+     */
+    static async open(storeName: string): Promise<SeenJobsIndex> {
+        const store = await Actor.openKeyValueStore(storeName);
+        const entries = (await store.getValue<Record<string, SeenJobEntry>>(SEEN_JOBS_KEY)) || {};
+
+        log.info(`Loaded ${Object.keys(entries).length} previously seen jobs from "${storeName}"`);
+
+        return new SeenJobsIndex(entries, store);
+    }
+
+    /**
+     * Classify a job against the index. A job counts as updated when its
+     * modifiedDate differs from the stored one. Unchanged jobs are marked seen
+     * right away; new and updated ones only once they are saved (`record`), so
+     * jobs dropped during the run come up again in the next one.
+     */
+    check(id: string, modifiedDate?: string): SeenJobStatus {
+        const checked = this.checkedThisRun.get(id);
+        if (checked) return checked.status;
+
+        const previous = this.entries[id];
+        let status: SeenJobStatus;
+
+        if (!previous) {
+            status = 'new';
+        } else if (modifiedDate && previous.modifiedDate !== modifiedDate) {
+            status = 'updated';
+        } else {
+            status = 'unchanged';
+        }
+
+        this.checkedThisRun.set(id, { status, modifiedDate });
+        if (status === 'unchanged') {
+            this.entries[id] = { ...previous, lastSeenAt: new Date().toISOString() };
+            this.stats.unchanged++;
+        }
+
+        return status;
+    }
+
+    /**
+     * Record a saved job as seen, with the modifiedDate it was checked with
+     */
+    record(id: string): void {
+        const checked = this.checkedThisRun.get(id);
+        if (!checked || checked.status === 'unchanged' || checked.recorded) return;
+
+        const previous = this.entries[id];
+        const now = new Date().toISOString();
+        this.entries[id] = {
+            modifiedDate: checked.modifiedDate ?? previous?.modifiedDate,
+            firstSeenAt: previous?.firstSeenAt ?? now,
+            lastSeenAt: now,
+        };
+
+        checked.recorded = true;
+        this.stats[checked.status]++;
+    }
+
+    /**
+     * Whether a job should be emitted (new or changed since the last run)
+     */
+    shouldEmit(id: string, modifiedDate?: string): boolean {
+        return this.check(id, modifiedDate) !== 'unchanged';
+    }
+
+    /**
+     * Counts, checked jobs and the entries they wrote, for the run state
+     */
+    getState(): SeenJobsState {
+        const entries: Record<string, SeenJobEntry> = {};
+        for (const id of this.checkedThisRun.keys()) {
+            if (this.entries[id]) entries[id] = this.entries[id];
+        }
+
+        return {
+            stats: { ...this.stats },
+            checked: Object.fromEntries(this.checkedThisRun),
+            entries,
+        };
+    }
+
+    /**
+     * Continue from the state saved before a restart. The index was reopened from
+     * its store, which holds the entries of the previous run, so the entries
+     * written in this run are put back as well.
+     */
+    restore(state: SeenJobsState): void {
+        Object.assign(this.stats, state.stats);
+        for (const [id, checked] of Object.entries(state.checked)) {
+            this.checkedThisRun.set(id, { ...checked });
+        }
+        Object.assign(this.entries, state.entries);
+    }
+
+    /**
+     * Number of jobs in the index
+     */
+    get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    /**
+     * Write the index back to its key-value store
+     */
+    async persist(): Promise<void> {
+        if (!this.store) return;
+
+        await this.store.setValue(SEEN_JOBS_KEY, this.entries);
+        log.info(`Saved ${this.size} seen jobs to the incremental index`);
+    }
+}
@@ -0,0 +1,280 @@
+import { Actor, log, type KeyValueStore } from 'apify';
+import type {
+    ClosedJob,
+    ClosedReason,
+    Input,
+    JobListingBasic,
+    LifecycleStats,
+    TimeToFillReport,
+} from './types.js';
+import { getJobKey } from './registry.js';
+import { resolveSearches } from './utils.js';
+
+// Key under which the job lifecycles are stored
+const LIFECYCLE_KEY = 'JOB_LIFECYCLE';
+
+// Detail pages of postings taken down by the employer
+const REMOVED_STATUS_CODES = [404, 410];
+const REMOVED_POSTING_TEXT =
+    /\b(?:(?:job|position|posting) (?:is )?no longer available|no longer accepting applications|this job has (?:expired|been (?:filled|removed|closed))|job (?:you are looking for )?(?:was|has been) (?:removed|filled))\b/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lifecycle stored for every tracked job
+export interface JobLifecycleEntry {
+    status: 'active' | 'closed';
+    firstSeenAt: string;
+    lastSeenAt: string;
+    closedAt?: string;
+    closedReason?: ClosedReason;
+    postedAt?: string;
+    title?: string;
+    company?: string;
+    searchNames: string[];
+}
+
+// Jobs seen, closed and reopened in this run, their lifecycles and the searches
+// marked incomplete, saved with the run state
+export interface LifecycleState {
+    entries: Record<string, JobLifecycleEntry>;
+    seen: string[];
+    closed: string[];
+    incompleteSearches: string[];
+    reopened: number;
+}
+
+/**
+ * Whether a job detail response is a posting that no longer exists: a 404/410
+ * status or a "no longer available" notice on the page
+ */
+export function isRemovedPosting(statusCode: number | undefined, pageText: string): boolean {
+    return (
+        (statusCode !== undefined && REMOVED_STATUS_CODES.includes(statusCode)) ||
+        REMOVED_POSTING_TEXT.test(pageText)
+    );
+}
+
+/**
+ * Searches whose results can show that a job closed: saved searches without a
+ * posted-date window (jobs age out of "last 7 days" while still open). Custom
+ * start URLs are not compared across runs.
+ */
+export function getClosingSearches(input: Input): string[] {
+    if (input.startUrls.length > 0) return [];
+
+    return resolveSearches(input)
+        .filter(search => search.params.postedDate === 'ANY')
+        .map(search => search.name);
+}
+
+/**
+ * Persisted first-seen, last-seen and closed dates of every job found by the
+ * scheduled runs, used to report how long roles stay open
+ */
+export class JobLifecycleTracker {
+    private readonly seenThisRun = new Set<string>();
+    private readonly closedThisRun = new Set<string>();
+    private readonly incompleteSearches = new Set<string>();
+    private reopened = 0;
+
+    constructor(
+        private readonly entries: Record<string, JobLifecycleEntry>,
+        private readonly store?: KeyValueStore
+    ) {}
+
+    /**
+     * Open the tracker from a named key-value store
+     */
+    static async open(storeName: string): Promise<JobLifecycleTracker> {
+        const store = await Actor.openKeyValueStore(storeName);
+        const entries =
+            (await store.getValue<Record<string, JobLifecycleEntry>>(LIFECYCLE_KEY)) || {};
+
+        log.info(`Loaded ${Object.keys(entries).length} tracked jobs from "${storeName}"`);
+
+        return new JobLifecycleTracker(entries, store);
+    }
+
+    /**
+     * Record a job found by a search. A closed job found again is active again.
+     */
+    markSeen(job: JobListingBasic, searchName: string, now = new Date().toISOString()): void {
+        const key = getJobKey(job);
+        const previous = this.entries[key];
+        if (previous?.status === 'closed' && !this.closedThisRun.has(key)) this.reopened++;
+
+        this.entries[key] = {
+            status: 'active',
+            firstSeenAt: previous?.firstSeenAt ?? now,
+            lastSeenAt: now,
+            postedAt:
+                job.postedDateTimestamp !== undefined
+                    ? new Date(job.postedDateTimestamp).toISOString()
+                    : (job.postedAt ?? previous?.postedAt),
+            title: job.title || previous?.title,
+            company: job.company || previous?.company,
+            searchNames: Array.from(new Set([...(previous?.searchNames ?? []), searchName])),
+        };
+        this.seenThisRun.add(key);
+        this.closedThisRun.delete(key);
+    }
+
+    /**
+     * Mark a job closed because its detail page is gone
+     */
+    markRemoved(key: string, now = new Date().toISOString()): void {
+        const entry = this.entries[key];
+        if (entry?.status === 'active') this.close(key, entry, 'removed', now);
+    }
+
+    /**
+     * Record that a search did not page through all of its results (job limit
+     * or failed requests), so its missing jobs cannot be told apart from closed ones
+     */
+    markIncomplete(searchName: string): void {
+        this.incompleteSearches.add(searchName);
+    }
+
+    /**
+     * Close the active jobs that complete searches of this run no longer return.
+     * Only searches listed in `closingSearches` (run in full, with no posted-date
+     * window that ages jobs out) can close a job.
+     */
+    closeMissing(closingSearches: string[], now = new Date().toISOString()): number {
+        const complete = new Set(
+            closingSearches.filter(name => !this.incompleteSearches.has(name))
+        );
+        let closed = 0;
+
+        for (const [id, entry] of Object.entries(this.entries)) {
+            if (entry.status !== 'active' || this.seenThisRun.has(id)) continue;
+            if (!entry.searchNames.some(name => complete.has(name))) continue;
+
+            this.close(id, entry, 'missing', now);
+            closed++;
+        }
+
+        return closed;
+    }
+
+    /**
+     * Lifecycle dates of a tracked job, for its saved record
+     */
+    getDates(job: JobListingBasic): { firstSeenAt?: string; lastSeenAt?: string } {
+        const entry = this.entries[getJobKey(job)];
+        return entry ? { firstSeenAt: entry.firstSeenAt, lastSeenAt: entry.lastSeenAt } : {};
+    }
+
+    /**
+     * Time-to-fill report: how long closed jobs stayed open, counted from the
+     * posted date when known, otherwise from the first run that saw them
+     */
+    buildReport(): TimeToFillReport {
+        const entries = Object.values(this.entries);
+        const daysOpen = entries
+            .filter(entry => entry.status === 'closed')
+            .map(entry => openDays(entry))
+            .sort((a, b) => a - b);
+
+        const closedJobs: ClosedJob[] = Array.from(this.closedThisRun, id => {
+            const entry = this.entries[id];
+            return {
+                id,
+                title: entry.title,
+                company: entry.company,
+                postedAt: entry.postedAt,
+                firstSeenAt: entry.firstSeenAt,
+                closedAt: entry.closedAt!,
+                closedReason: entry.closedReason!,
+                daysOpen: openDays(entry),
+            };
+        });
+
+        const stats: LifecycleStats = {
+            tracked: entries.length,
+            active: entries.length - daysOpen.length,
+            closed: daysOpen.length,
+            closedThisRun: closedJobs.length,
+            reopened: this.reopened,
+            medianDaysOpen: daysOpen.length > 0 ? median(daysOpen) : undefined,
+            averageDaysOpen:
+                daysOpen.length > 0
+                    ? round(daysOpen.reduce((sum, days) => sum + days, 0) / daysOpen.length)
+                    : undefined,
+        };
+
+        return { stats, closedJobs };
+    }
+
+    /**
+     * Jobs seen and closed in this run with their lifecycles, for the run state
+     */
+    getState(): LifecycleState {
+        const touched = new Set([...this.seenThisRun, ...this.closedThisRun]);
+
+        return {
+            entries: Object.fromEntries(Array.from(touched, key => [key, this.entries[key]])),
+            seen: Array.from(this.seenThisRun),
+            closed: Array.from(this.closedThisRun),
+            incompleteSearches: Array.from(this.incompleteSearches),
+            reopened: this.reopened,
+        };
+    }
+
+    /**
+     * Continue from the state saved before a restart. The tracker was reopened
+     * from its store, which holds the lifecycles of the previous run, so the
+     * lifecycles updated in this run are put back as well.
+     */
+    restore(state: LifecycleState): void {
+        Object.assign(this.entries, state.entries);
+        state.seen.forEach(key => this.seenThisRun.add(key));
+        state.closed.forEach(key => this.closedThisRun.add(key));
+        state.incompleteSearches.forEach(searchName => this.incompleteSearches.add(searchName));
+        this.reopened = state.reopened;
+    }
+
+    /**
+     * Write the lifecycles back to their key-value store
+     */
+    async persist(): Promise<void> {
+        if (!this.store) return;
+
+        await this.store.setValue(LIFECYCLE_KEY, this.entries);
+        log.info(`Saved ${Object.keys(this.entries).length} job lifecycles`);
+    }
+
+    /**
+     * Mark an entry closed
+     */
+    private close(id: string, entry: JobLifecycleEntry, reason: ClosedReason, now: string): void {
+        this.entries[id] = { ...entry, status: 'closed', closedAt: now, closedReason: reason };
+        this.closedThisRun.add(id);
+    }
+}
+
+/**
+ * Days between a closed job's posting (or first sighting) and its closing
+ */
+function openDays(entry: JobLifecycleEntry): number {
+    const openedAt = Date.parse(entry.postedAt ?? entry.firstSeenAt);
+    const start = Number.isNaN(openedAt) ? Date.parse(entry.firstSeenAt) : openedAt;
+    return round(Math.max(0, (Date.parse(entry.closedAt!) - start) / DAY_MS));
+}
+
+/**
+ * Median of sorted numbers
+ */
+function median(sorted: number[]): number {
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1
+        ? sorted[middle]
+        : round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Round to one decimal
+ */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
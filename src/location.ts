@@ -0,0 +1,194 @@
+import type { JobListingFull, LocationPlace, ParsedLocation } from './types.js';
+import {
+    CITIES,
+    CITY_ALIASES,
+    COUNTRIES,
+    REGIONS,
+    type CityEntry,
+    type CountryEntry,
+    type RegionEntry,
+} from './gazetteer.js';
+
+// Remote and hybrid markers in location strings
+const REMOTE_MARKER = /\b(?:remote|work from home|wfh|telecommute|anywhere)\b/i;
+const HYBRID_MARKER = /\bhybrid\b/i;
+
+// Marker words removed before the places are parsed ("Remote or New York, NY")
+const MARKER_WORDS =
+    /\(?\b(?:100\s*%\s*)?(?:remote|hybrid|work from home|wfh|telecommute|anywhere|on[\s-]?site|in[\s-]office)\b\)?/gi;
+
+// Separators between the places of a multi-location string
+const PLACE_SEPARATOR = /\s*(?:;|\||\s\/\s|\bor\b|\n)\s*/i;
+
+// Location strings that name no place
+const PLACEHOLDER =
+    /^(?:(?:multiple|various|several|many|unknown)\s+locations?|n\/?a|tbd|unknown)$/i;
+
+// US ZIP codes and Canadian postal codes
+const POSTAL_CODE = /\b\d{5}(?:-\d{4})?\b|\b[A-Z]\d[A-Z]\s?\d[A-Z]\d\b/i;
+
+// Gazetteer lookups by normalized name or code
+const COUNTRY_BY_NAME = new Map<string, CountryEntry>();
+const COUNTRY_BY_CODE = new Map<string, CountryEntry>();
+const REGION_BY_NAME = new Map<string, RegionEntry>();
+const REGION_BY_CODE = new Map<string, RegionEntry>();
+const CITY_BY_NAME = new Map<string, CityEntry[]>();
+
+for (const country of COUNTRIES) {
+    COUNTRY_BY_CODE.set(country[0].toLowerCase(), country);
+    for (const name of [country[1], ...country[2]]) {
+        COUNTRY_BY_NAME.set(normalizePlaceName(name), country);
+    }
+}
+for (const region of REGIONS) {
+    REGION_BY_CODE.set(region[0].toLowerCase(), region);
+    REGION_BY_NAME.set(normalizePlaceName(region[1]), region);
+}
+for (const city of CITIES) {
+    const key = normalizePlaceName(city[0]);
+    CITY_BY_NAME.set(key, [...(CITY_BY_NAME.get(key) ?? []), city]);
+}
+
+// Part of a comma-separated place, as written and normalized
+interface PlacePart {
+    raw: string;
+    key: string;
+}
+
+/**
+ * Lowercase place name without accents, punctuation and extra spaces
+ */
+export function normalizePlaceName(name: string): string {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Parse one place ("Austin, Texas 78701, USA") into city, state or province,
+ * country and postal code, with coordinates from the gazetteer: the city's when
+ * it is known, otherwise the state's or country's center.
+ */
+export function parsePlace(text: string): LocationPlace | null {
+    const postalCode = text.match(POSTAL_CODE)?.[0].toUpperCase();
+    const parts: PlacePart[] = (postalCode ? text.replace(POSTAL_CODE, ' ') : text)
+        .split(',')
+        .map(raw => ({ raw: raw.trim(), key: normalizePlaceName(raw) }))
+        .filter(part => part.key);
+
+    // Country last; bare two-letter codes only after a city and a state ("Toronto, ON, CA")
+    const last = parts[parts.length - 1]?.key;
+    let country =
+        last !== undefined
+            ? (COUNTRY_BY_NAME.get(last) ??
+              (parts.length >= 3 ? COUNTRY_BY_CODE.get(last) : undefined))
+            : undefined;
+    if (country) parts.pop();
+
+    const regionPart = parts[parts.length - 1]?.key;
+    let region = regionPart !== undefined ? findRegion(regionPart, country?.[0]) : undefined;
+    if (region) parts.pop();
+
+    const cityPart = parts.find(part => findCity(part.key, region?.[0], country?.[0])) ?? parts[0];
+    let city = cityPart ? findCity(cityPart.key, region?.[0], country?.[0]) : undefined;
+
+    // "Berlin, DE": a two-letter code taken for a US state can be the city's country
+    if (cityPart && !city && region && !country && regionPart?.length === 2) {
+        const abroad = COUNTRY_BY_CODE.get(regionPart);
+        city = abroad ? findCity(cityPart.key, undefined, abroad[0]) : undefined;
+        if (city) {
+            country = abroad;
+            region = undefined;
+        }
+    }
+
+    if (!cityPart && !region && !country && !postalCode) return null;
+
+    const center = city ?? region ?? country;
+    const place: LocationPlace = {
+        city: city?.[0] ?? cityPart?.raw,
+        state: city?.[1] || region?.[0],
+        countryCode: city?.[2] ?? region?.[2] ?? country?.[0],
+        postalCode,
+        latitude: center?.[3],
+        longitude: center?.[4],
+    };
+
+    return Object.fromEntries(
+        Object.entries(place).filter(([, value]) => value !== undefined && value !== '')
+    ) as LocationPlace;
+}
+
+/**
+ * Parse a location string into its places and remote/hybrid markers.
+ * Multi-location strings are split on ";", "|", " / " and "or".
+ */
+export function parseLocation(text: string): ParsedLocation {
+    const places: LocationPlace[] = [];
+    const seen = new Set<string>();
+
+    for (const segment of text.replace(MARKER_WORDS, ' ').split(PLACE_SEPARATOR)) {
+        const cleaned = segment
+            .replace(/^[\s,.:()–-]+|[\s,.:()–-]+$/g, '')
+            .replace(/^(?:in|based in|near)\s+/i, '');
+        if (!cleaned || PLACEHOLDER.test(cleaned)) continue;
+
+        const place = parsePlace(cleaned);
+        const key = JSON.stringify(place);
+        if (place && !seen.has(key)) {
+            seen.add(key);
+            places.push(place);
+        }
+    }
+
+    return {
+        places,
+        isRemote: REMOTE_MARKER.test(text),
+        isHybrid: HYBRID_MARKER.test(text),
+    };
+}
+
+/**
+ * Coordinates and country of a search location, for the search requests
+ */
+export function geocodeLocation(text: string): LocationPlace | undefined {
+    return parseLocation(text).places[0];
+}
+
+/**
+ * Normalized location fields of a job: the first place as flat fields, every
+ * place when there are several, and remote/hybrid flags from the location
+ * string or the workplace type
+ */
+export function normalizeJobLocation(job: JobListingFull): Partial<JobListingFull> {
+    const { places, isRemote, isHybrid } = parseLocation(job.location || '');
+    const workplaceType = job.workplaceType || '';
+
+    return {
+        ...places[0],
+        isRemote: isRemote || /remote/i.test(workplaceType),
+        isHybrid: isHybrid || /hybrid/i.test(workplaceType),
+        locations: places.length > 1 ? places : undefined,
+    };
+}
+
+/**
+ * State or province by code or name, within the country when one is known
+ */
+function findRegion(key: string, countryCode?: string): RegionEntry | undefined {
+    const region = key.length === 2 ? REGION_BY_CODE.get(key) : REGION_BY_NAME.get(key);
+    return region && (!countryCode || region[2] === countryCode) ? region : undefined;
+}
+
+/**
+ * Most prominent city of that name, within the state and country when known
+ */
+function findCity(key: string, regionCode?: string, countryCode?: string): CityEntry | undefined {
+    const name = CITY_ALIASES.get(key) ?? key;
+    return CITY_BY_NAME.get(name)?.find(
+        city => (!regionCode || city[1] === regionCode) && (!countryCode || city[2] === countryCode)
+    );
+}
@@ -6,20 +6,49 @@
  */
 
 import { Actor, log } from 'apify';
+import type { ProxyConfiguration } from 'crawlee';
 import {
-    CheerioCrawler,
-    Request,
-    ProxyConfiguration,
-    createRequestDebugInfo,
-} from 'crawlee';
-import { router, initRouter } from './routes.js';
-import { InputSchema, type Input, type SearchParams, type RunStatistics } from './types.js';
-import { DICE_API_URL, REQUEST_CONFIG, DEFAULT_HEADERS } from './constants.js';
-import { buildSearchUrl } from './utils.js';
+    getJobBudget,
+    getLimitedSearches,
+    getRouterState,
+    initRouter,
+    restoreRouterState,
+    restoreSavedJobs,
+} from './routes.js';
+import { createCrawler, crawlJobs } from './crawler.js';
+import { createBrowserCrawler } from './browser.js';
+import {
+    InputSchema,
+    type ExportOptions,
+    type Input,
+    type JobListingFull,
+    type RunStatistics,
+} from './types.js';
+import { SeenJobsIndex } from './incremental.js';
+import { JobLifecycleTracker, getClosingSearches } from './lifecycle.js';
+import { ChangeTracker } from './history.js';
+import { SearchPartitioner, isFullyCovered } from './partition.js';
+import { RunStateStore } from './state.js';
+import { RequestThrottle } from './throttle.js';
+import { ExtractionMonitor } from './quality.js';
+import { FixtureServer } from './fixtures.js';
+import { CompanyCache } from './company.js';
+import { JobRulesEngine } from './rules.js';
+import { AgencyDetector } from './agency.js';
+import { applyRepresentatives, summarizeClusters } from './cluster.js';
+import { loadSkillTaxonomy } from './skills.js';
+import { exportJobs, readDatasetItems } from './export.js';
+import { notifyNewJobs } from './notifications.js';
 
 // Initialize the Apify Actor
 await Actor.init();
 
+// Status message shown when the run finishes (e.g. extraction warnings)
+let exitMessage: string | undefined;
+
+// Local stand-in for Dice in fixture replay/record mode
+let fixtureServer: FixtureServer | undefined;
+
 // Track run statistics
 const statistics: RunStatistics = {
     jobsFound: 0,
@@ -44,143 +73,226 @@ try {
     log.info('Starting Dice.com Job Scraper', {
         searchQuery: input.searchQuery,
         location: input.location,
+        savedSearches: input.searches.length,
         maxJobs: input.maxJobs,
         scrapeDetails: input.scrapeJobDetails,
+        incrementalMode: input.incrementalMode,
+    });
+
+    // Options for the CSV/JSONL export stage
+    const exportOptions: ExportOptions = {
+        formats: input.exportFormats,
+        columns: input.exportColumns,
+        arrayDelimiter: input.exportArrayDelimiter,
+        csvDelimiter: input.csvDelimiter,
+        dropDescriptionHtml: input.exportDropDescriptionHtml,
+    };
+
+    // Standalone re-export of an existing dataset: no scraping
+    if (input.exportDatasetId) {
+        if (exportOptions.formats.length === 0) {
+            throw new Error('exportDatasetId requires at least one format in exportFormats');
+        }
+
+        log.info(`Re-exporting dataset ${input.exportDatasetId}`);
+        const sourceDataset = await Actor.openDataset(input.exportDatasetId);
+        await exportJobs(await readDatasetItems(sourceDataset), exportOptions);
+
+        await Actor.exit(`Exported dataset ${input.exportDatasetId}`);
+    }
+
+    // Load the seen-jobs index for incremental runs
+    const seenJobs = input.incrementalMode
+        ? await SeenJobsIndex.open(input.incrementalStoreName)
+        : undefined;
+
+    // Load the first-seen/last-seen/closed dates of the jobs of earlier runs
+    const lifecycleTracker = input.trackLifecycle
+        ? await JobLifecycleTracker.open(input.lifecycleStoreName)
+        : undefined;
+
+    // Compare re-scraped jobs with the versions saved by earlier runs
+    const changeTracker = input.trackChanges
+        ? await ChangeTracker.open(input.changeStoreName, input.changeIgnoreFields)
+        : undefined;
+
+    // Track selector and field fill rates for the extraction report
+    const extractionMonitor = new ExtractionMonitor({
+        criticalFields: input.criticalFields,
+        minFieldFillRate: input.minFieldFillRate,
+        failOnLowFillRate: input.failOnLowFillRate,
     });
 
+    // Serve requests from recorded fixtures, or record new ones
+    if (input.fixtureMode !== 'off') {
+        fixtureServer = new FixtureServer(input.fixturesDir, input.fixtureMode);
+        await fixtureServer.start();
+    }
+
+    // Company profiles scraped this run, used to enrich jobs
+    const companyCache = input.scrapeCompanies ? new CompanyCache() : undefined;
+
+    // Built-in skill taxonomy, extended or replaced by the configured one
+    const skillTaxonomy = await loadSkillTaxonomy(input);
+
+    // Filtering and scoring rules applied before jobs are saved
+    const rulesEngine =
+        input.rules.length > 0 || input.minMatchScore !== undefined
+            ? new JobRulesEngine(input.rules, input.minMatchScore)
+            : undefined;
+
+    // Staffing-agency and duplicate-posting classification
+    const agencyDetector = new AgencyDetector(input.agencyCompanies);
+
+    // Sub-searches of searches past the API's page cap, and the coverage they reach
+    const searchPartitioner = new SearchPartitioner();
+
+    // Per-host pacing and backoff shared by page requests and search API calls
+    const throttle = new RequestThrottle(input.maxConcurrency);
+
+    // Continue the counts and collected jobs of an earlier attempt of this run
+    // (after a migration or crash), and keep saving them while the run goes on
+    const runState = await RunStateStore.open();
+
     // Initialize the router with input configuration
-    initRouter(input);
+    initRouter(input, {
+        seenJobs,
+        extractionMonitor,
+        fixtureServer,
+        companyCache,
+        skillTaxonomy,
+        rulesEngine,
+        agencyDetector,
+        lifecycleTracker,
+        changeTracker,
+        searchPartitioner,
+        throttle,
+        runState,
+    });
+
+    const restored = runState.restored;
+    if (restored) {
+        restoreRouterState(restored);
+        searchPartitioner.restore(restored.partitions);
+        restored.companies.forEach(profile => companyCache?.add(profile));
+        throttle.restore(restored.throttle);
+        extractionMonitor.restore(restored.extraction);
+        agencyDetector.restore(restored.agencies);
+        if (restored.seenJobs) seenJobs?.restore(restored.seenJobs);
+        if (restored.lifecycle) lifecycleTracker?.restore(restored.lifecycle);
+        if (restored.changes) changeTracker?.restore(restored.changes);
+        if (restored.rules) rulesEngine?.restore(restored.rules);
+        statistics.errors = restored.statistics.errors;
+        statistics.startTime = new Date(restored.statistics.startTime);
+    }
+    await restoreSavedJobs(runState.restoredSaves);
+
+    runState.track(() => ({
+        ...getRouterState(),
+        companies: companyCache?.values() ?? [],
+        partitions: searchPartitioner.getState(),
+        throttle: throttle.getState(),
+        extraction: extractionMonitor.getState(),
+        agencies: agencyDetector.getStats(),
+        seenJobs: seenJobs?.getState(),
+        lifecycle: lifecycleTracker?.getState(),
+        changes: changeTracker?.getStats(),
+        rules: rulesEngine?.getStats(),
+        statistics: {
+            errors: statistics.errors,
+            startTime: statistics.startTime.toISOString(),
+        },
+    }));
 
-    // Configure proxy if provided
+    // Configure proxy if provided (not used with the fixture server)
     let proxyConfiguration: ProxyConfiguration | undefined;
-    if (input.proxyConfiguration) {
+    if (input.proxyConfiguration && !fixtureServer) {
         proxyConfiguration = await Actor.createProxyConfiguration(input.proxyConfiguration);
         log.info('Proxy configuration enabled');
     }
 
     // Create the crawler
-    const crawler = new CheerioCrawler({
+    const crawler = createCrawler({
+        input,
+        statistics,
         proxyConfiguration,
-        requestHandler: router,
-
-        // Request configuration
-        maxRequestRetries: REQUEST_CONFIG.RETRY_COUNT,
-        requestHandlerTimeoutSecs: REQUEST_CONFIG.REQUEST_TIMEOUT_SECS,
-        navigationTimeoutSecs: REQUEST_CONFIG.NAVIGATION_TIMEOUT_SECS,
-
-        // Concurrency settings
-        maxConcurrency: input.maxConcurrency,
-        minConcurrency: 1,
-
-        // Additional request options
-        additionalMimeTypes: ['application/json'],
-
-        // Pre-navigation hook for setting headers
-        preNavigationHooks: [
-            async ({ request }, gotOptions) => {
-                // Set custom headers for API requests
-                if (request.url.includes('job-search-api')) {
-                    gotOptions.headers = {
-                        ...gotOptions.headers,
-                        ...DEFAULT_HEADERS,
-                    };
-                }
-
-                // Set browser-like headers for web requests
-                gotOptions.headers = {
-                    ...gotOptions.headers,
-                    'Accept-Language': 'en-US,en;q=0.9',
-                    'Cache-Control': 'no-cache',
-                    'Pragma': 'no-cache',
-                };
-            },
-        ],
-
-        // Failed request handler
-        failedRequestHandler: async ({ request }, error) => {
-            statistics.errors++;
-            log.error(`Request failed: ${request.url}`, {
-                error: error.message,
-                ...createRequestDebugInfo(request),
-            });
-        },
+        fixtureServer,
+        lifecycleTracker,
+        throttle,
     });
 
-    // Build start requests
-    const startRequests: Request[] = [];
-
-    // Check for custom start URLs first
-    if (input.startUrls && input.startUrls.length > 0) {
-        log.info(`Using ${input.startUrls.length} custom start URLs`);
-
-        for (const startUrl of input.startUrls) {
-            const url = startUrl.url;
-
-            // Determine the type of URL
-            if (url.includes('/job-detail/')) {
-                startRequests.push(new Request({
-                    url,
-                    label: 'JOB_DETAIL',
-                    userData: {
-                        label: 'JOB_DETAIL' as const,
-                    },
-                }));
-            } else {
-                startRequests.push(new Request({
-                    url,
-                    label: 'SEARCH',
-                    userData: {
-                        label: 'SEARCH' as const,
-                        page: 1,
-                    },
-                }));
-            }
+    // Render pages that come back without their client-side content in a browser
+    const browserCrawler = input.browserFallback
+        ? createBrowserCrawler({
+              input,
+              statistics,
+              proxyConfiguration,
+              fixtureServer,
+              lifecycleTracker,
+              throttle,
+          })
+        : undefined;
+
+    // Search, then scrape details once for every job collected by the searches
+    statistics.jobsFound = await crawlJobs(crawler, input, runState, browserCrawler);
+
+    // Jobs saved and dropped against maxJobs, and the pages fetched to replace dropped ones
+    statistics.budget = getJobBudget().getStats();
+    log.info('Job budget summary', { ...statistics.budget });
+
+    // Blocked responses and the backoff they caused
+    statistics.blocking = throttle.getStats();
+    if (statistics.blocking.blocks > 0) {
+        log.warning(`Dice blocked ${statistics.blocking.blocks} responses`, {
+            ...statistics.blocking.byReason,
+        });
+    }
+
+    // Remember the jobs seen in this run for the next incremental run
+    if (seenJobs) {
+        await seenJobs.persist();
+        statistics.incremental = seenJobs.stats;
+        log.info('Incremental run summary', { ...seenJobs.stats });
+    }
+
+    // How many of the jobs Dice reported each search reached
+    statistics.coverage = searchPartitioner.getReport();
+    await Actor.setValue('SEARCH_COVERAGE', statistics.coverage);
+    for (const { searchName, jobsReached, totalJobs } of statistics.coverage) {
+        if (jobsReached < totalJobs) {
+            log.warning(`Search "${searchName}" reached ${jobsReached} of ${totalJobs} jobs`);
         }
-    } else {
-        // Build search request using API
-        const searchParams: SearchParams = {
-            query: input.searchQuery || '',
-            location: input.location || '',
-            radius: input.radius || 30,
-            employmentTypes: input.employmentTypes || [],
-            postedDate: input.postedDate || 'ANY',
-            workplaceTypes: input.workplaceTypes || [],
-            easyApply: input.easyApply || false,
-            page: 1,
-            pageSize: REQUEST_CONFIG.PAGE_SIZE,
-        };
-
-        log.info('Building search request', { searchParams });
-
-        // Use API-based search (more reliable)
-        startRequests.push(new Request({
-            url: `${DICE_API_URL}?page=1`,
-            label: 'SEARCH_API',
-            userData: {
-                label: 'SEARCH_API' as const,
-                page: 1,
-                searchParams,
-            },
-            uniqueKey: 'search-page-1',
-        }));
-
-        // Also add HTML fallback search URL
-        const htmlSearchUrl = buildSearchUrl(input, 1);
-        startRequests.push(new Request({
-            url: htmlSearchUrl,
-            label: 'SEARCH',
-            userData: {
-                label: 'SEARCH' as const,
-                page: 1,
-            },
-            uniqueKey: 'html-search-page-1',
-        }));
     }
 
-    log.info(`Starting crawler with ${startRequests.length} initial requests`);
+    // Close the jobs complete searches no longer return and report how long roles stayed open
+    if (lifecycleTracker) {
+        getLimitedSearches().forEach(searchName => lifecycleTracker.markIncomplete(searchName));
+
+        // Jobs a search could not reach past the API's page cap are not closed either
+        statistics.coverage
+            .filter(coverage => !isFullyCovered(coverage))
+            .forEach(coverage => lifecycleTracker.markIncomplete(coverage.searchName));
+        lifecycleTracker.closeMissing(getClosingSearches(input));
+        await lifecycleTracker.persist();
+
+        const timeToFill = lifecycleTracker.buildReport();
+        statistics.lifecycle = timeToFill.stats;
+        await Actor.setValue('TIME_TO_FILL', timeToFill);
+        log.info('Job lifecycle summary', { ...timeToFill.stats });
+    }
+
+    if (changeTracker) {
+        statistics.changes = changeTracker.getStats();
+        log.info('Change history summary', { ...statistics.changes });
+    }
+
+    if (rulesEngine) {
+        statistics.rules = rulesEngine.getStats();
+        log.info('Rules summary', { ...statistics.rules });
+    }
 
-    // Run the crawler
-    await crawler.run(startRequests);
+    statistics.agencies = agencyDetector.getStats();
+    log.info('Staffing-agency summary', { ...statistics.agencies });
 
     // Update final statistics
     statistics.endTime = new Date();
@@ -190,6 +302,24 @@ try {
     const dataset = await Actor.openDataset();
     const { itemCount } = await dataset.getInfo() || { itemCount: 0 };
 
+    // Jobs saved in this run, read back for the clustering, export and notification stages
+    const datasetJobs = await readDatasetItems<JobListingFull>(dataset);
+
+    // Count unique openings: near-duplicate clusters and their representatives
+    const clusterReport = summarizeClusters(datasetJobs);
+    const savedJobs = applyRepresentatives(datasetJobs, clusterReport);
+    statistics.clusters = clusterReport.stats;
+    await Actor.setValue('JOB_CLUSTERS', clusterReport);
+    log.info('Cluster summary', { ...clusterReport.stats });
+
+    // Notify webhooks about the new and changed jobs saved in this (incremental) run
+    if (input.webhooks.length > 0) {
+        statistics.notifications = await notifyNewJobs(savedJobs, input.webhooks, {
+            runId: Actor.getEnv().actorRunId ?? undefined,
+        });
+        log.info('Webhook notifications sent', { ...statistics.notifications });
+    }
+
     log.info('Scraping completed', {
         jobsScraped: itemCount,
         errors: statistics.errors,
@@ -203,10 +333,36 @@ try {
         durationSeconds: duration,
     });
 
+    // Export the scraped jobs as flat files
+    await exportJobs(savedJobs, exportOptions);
+
+    // Save the extraction-quality report and flag runs where critical fields went missing
+    const extractionReport = extractionMonitor.buildReport();
+    await Actor.setValue('EXTRACTION_REPORT', extractionReport);
+
+    if (extractionReport.status === 'warning' || extractionReport.status === 'failed') {
+        const lowFields = extractionReport.lowFillRateFields
+            .map(({ field, fillRate }) => `${field} (${Math.round(fillRate * 100)}%)`)
+            .join(', ');
+        const message =
+            `Low fill rate for critical fields: ${lowFields}. ` +
+            'Dice may have changed its markup, see the EXTRACTION_REPORT record.';
+
+        if (extractionReport.status === 'failed') {
+            await Actor.fail(message);
+        }
+
+        log.warning(message);
+        exitMessage = `Finished with warnings. ${message}`;
+    } else {
+        log.info(`Extraction quality check: ${extractionReport.status}`);
+    }
+
 } catch (error) {
     log.error('Actor failed with error', { error });
     throw error;
 } finally {
     // Clean up
-    await Actor.exit();
+    await fixtureServer?.stop();
+    await Actor.exit(exitMessage);
 }
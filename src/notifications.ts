@@ -0,0 +1,230 @@
+import { createHmac } from 'node:crypto';
+import { log } from 'apify';
+import type { JobListingFull, NotificationRule, NotificationStats, Webhook } from './types.js';
+import { DEFAULT_SLACK_TEMPLATE, NOTIFICATION_JOB_FIELDS, WEBHOOK_CONFIG } from './constants.js';
+import { retryWithBackoff } from './utils.js';
+
+// Context added to every webhook payload
+export interface NotificationContext {
+    runId?: string;
+    retryDelayMs?: number;
+}
+
+/**
+ * Check a job against one notification rule
+ */
+export function matchesRule(job: JobListingFull, rule: NotificationRule): boolean {
+    if (rule.search && !job.searchNames?.includes(rule.search)) return false;
+
+    const text = [job.title, job.description, ...(job.skills || [])].join(' ').toLowerCase();
+
+    if (rule.keywords && !rule.keywords.some(keyword => text.includes(keyword.toLowerCase()))) {
+        return false;
+    }
+
+    if (rule.excludeKeywords?.some(keyword => text.includes(keyword.toLowerCase()))) {
+        return false;
+    }
+
+    if (rule.minSalaryAnnual !== undefined) {
+        const salary = job.salaryMaxAnnual ?? job.salaryMinAnnual;
+        if (salary === undefined || salary < rule.minSalaryAnnual) return false;
+    }
+
+    if (rule.workplaceTypes) {
+        const workplaceType = (job.workplaceType || '').toLowerCase();
+        if (!rule.workplaceTypes.some(type => workplaceType.includes(type.toLowerCase()))) {
+            return false;
+        }
+    }
+
+    if (rule.easyApplyOnly && !job.easyApply) return false;
+
+    return true;
+}
+
+/**
+ * Jobs to send to a webhook: those matching any of its rules (all jobs when it has none)
+ */
+export function filterJobsForWebhook(jobs: JobListingFull[], webhook: Webhook): JobListingFull[] {
+    if (webhook.rules.length === 0) return jobs;
+    return jobs.filter(job => webhook.rules.some(rule => matchesRule(job, rule)));
+}
+
+/**
+ * Fill `{{field}}` placeholders with job values (lists joined with commas)
+ */
+export function renderTemplate(
+    template: string,
+    job: JobListingFull,
+    escape: (value: string) => string = value => value
+): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, field: string) => {
+        const value = job[field as keyof JobListingFull];
+        if (value === undefined || value === null) return '';
+        const text = Array.isArray(value) ? value.join(', ') : String(value);
+        return escape(text);
+    });
+}
+
+/**
+ * Build the payload for one batch of jobs in the webhook's format
+ */
+export function buildPayload(
+    webhook: Webhook,
+    jobs: JobListingFull[],
+    batch: { index: number; total: number },
+    context: NotificationContext = {}
+): Record<string, unknown> {
+    const batchLabel = batch.total > 1 ? ` (${batch.index}/${batch.total})` : '';
+
+    if (webhook.format === 'slack') {
+        const template = webhook.template || DEFAULT_SLACK_TEMPLATE;
+        const lines = jobs.map(job => `• ${renderTemplate(template, job, escapeSlack)}`);
+        const heading = `*${jobs.length} new Dice ${jobs.length === 1 ? 'job' : 'jobs'}*${batchLabel}`;
+
+        return { text: [heading, ...lines].join('\n') };
+    }
+
+    return {
+        event: 'jobs.found',
+        runId: context.runId,
+        sentAt: new Date().toISOString(),
+        batch,
+        jobCount: jobs.length,
+        jobs: jobs.map(job => ({
+            ...pickFields(job),
+            ...(webhook.template ? { message: renderTemplate(webhook.template, job) } : {}),
+        })),
+    };
+}
+
+/**
+ * HMAC-SHA256 signature of a request body, in the `sha256=<hex>` form
+ */
+export function signPayload(body: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * POST the jobs found in this run to every webhook, in batches.
+ * Delivery failures are logged and counted; they do not fail the run.
+ */
+export async function notifyNewJobs(
+    jobs: JobListingFull[],
+    webhooks: Webhook[],
+    context: NotificationContext = {}
+): Promise<NotificationStats> {
+    const stats: NotificationStats = {
+        webhooks: webhooks.length,
+        batchesSent: 0,
+        batchesFailed: 0,
+        jobsNotified: 0,
+    };
+
+    for (const webhook of webhooks) {
+        const matching = filterJobsForWebhook(jobs, webhook);
+        const target = describeWebhook(webhook);
+
+        if (matching.length === 0) {
+            log.info(`No jobs match the rules for webhook ${target}`);
+            continue;
+        }
+
+        const batches = chunk(matching, webhook.batchSize);
+
+        for (const [index, batch] of batches.entries()) {
+            const payload = buildPayload(
+                webhook,
+                batch,
+                { index: index + 1, total: batches.length },
+                context
+            );
+
+            try {
+                await retryWithBackoff(
+                    () => postWebhook(webhook, JSON.stringify(payload)),
+                    WEBHOOK_CONFIG.MAX_ATTEMPTS,
+                    context.retryDelayMs ?? WEBHOOK_CONFIG.RETRY_DELAY_MS
+                );
+                stats.batchesSent++;
+                stats.jobsNotified += batch.length;
+            } catch (error) {
+                stats.batchesFailed++;
+                log.error(`Failed to notify webhook ${target}`, {
+                    error: (error as Error).message,
+                    batch: index + 1,
+                });
+            }
+        }
+
+        log.info(`Notified webhook ${target}`, {
+            jobs: matching.length,
+            batches: batches.length,
+        });
+    }
+
+    return stats;
+}
+
+/**
+ * Send one request to a webhook, throwing on network errors and non-2xx responses
+ */
+async function postWebhook(webhook: Webhook, body: string): Promise<void> {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...webhook.headers,
+    };
+
+    if (webhook.secret) {
+        headers[WEBHOOK_CONFIG.SIGNATURE_HEADER] = signPayload(body, webhook.secret);
+    }
+
+    const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_CONFIG.TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+    }
+}
+
+/**
+ * Job fields included in JSON payloads
+ */
+function pickFields(job: JobListingFull): Partial<JobListingFull> {
+    return Object.fromEntries(
+        NOTIFICATION_JOB_FIELDS.filter(field => job[field] !== undefined).map(field => [
+            field,
+            job[field],
+        ])
+    );
+}
+
+/**
+ * Escape text for Slack mrkdwn
+ */
+function escapeSlack(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Webhook host for logs (full URLs often embed tokens)
+ */
+function describeWebhook(webhook: Webhook): string {
+    return new URL(webhook.url).host;
+}
+
+/**
+ * Split a list into chunks of the given size
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
@@ -0,0 +1,312 @@
+import type { SearchCoverage, SearchParams } from './types.js';
+import { REQUEST_CONFIG } from './constants.js';
+import { CITIES } from './gazetteer.js';
+import { geocodeLocation } from './location.js';
+
+// Filter values a search is split into, one sub-search each
+const EMPLOYMENT_TYPES = ['FULLTIME', 'PARTTIME', 'CONTRACT', 'THIRD_PARTY'];
+const WORKPLACE_TYPES = ['Remote', 'On-Site', 'Hybrid'];
+
+// Next narrower posted-date window ("last 30 days" within "any time", ...). The
+// API only filters on "posted within the last N days", so the windows nest: a
+// posted-date sub-search reaches the newest jobs, not the older ones past its
+// parent's last page. Such splits are lossy and counted in the coverage report.
+const NARROWER_POSTED_DATE: Record<string, string | undefined> = {
+    ANY: 'THIRTY',
+    THIRTY: 'SEVEN',
+    SEVEN: 'THREE',
+    THREE: 'ONE',
+};
+
+// Radius of the metro sub-searches of a nationwide search, and the smallest
+// radius a located search is split down to (miles)
+const METRO_RADIUS = 50;
+const MIN_SPLIT_RADIUS = 25;
+
+// Upper bound on the sub-searches planned for one saved search
+const MAX_SUB_SEARCHES = 500;
+
+const EARTH_RADIUS_MILES = 3959;
+
+// Dimension a capped search is split on
+export type SplitDimension = 'employmentType' | 'workplaceType' | 'location' | 'postedDate';
+
+// Sub-searches of a capped search. Exhaustive splits partition the search, so
+// the parent needs no further pages; the others only cover part of it.
+export interface SearchSplit {
+    dimension: SplitDimension;
+    exhaustive: boolean;
+    children: SearchParams[];
+}
+
+// Progress of one saved search and its sub-searches
+interface CoverageEntry {
+    totalJobs?: number;
+    jobIds: Set<string>;
+    planned: Set<string>;
+    cappedSubSearches: number;
+    partialSplits: number;
+}
+
+// Serializable coverage entries, saved with the run state
+export type PartitionState = Record<
+    string,
+    {
+        totalJobs?: number;
+        jobIds: string[];
+        planned: string[];
+        cappedSubSearches: number;
+        partialSplits: number;
+    }
+>;
+
+/**
+ * Result pages the API serves for a search, and the jobs on them
+ */
+export function reachableJobs(totalJobs: number, totalPages: number, pageSize: number): number {
+    return Math.min(totalJobs, Math.min(totalPages, REQUEST_CONFIG.MAX_RESULT_PAGES) * pageSize);
+}
+
+/**
+ * Whether a search reached every job Dice reported for it: no result pages past
+ * the cap were left unread and no lossy split stood in for them
+ */
+export function isFullyCovered(coverage: SearchCoverage): boolean {
+    return (
+        coverage.jobsReached >= coverage.totalJobs &&
+        coverage.cappedSubSearches === 0 &&
+        coverage.partialSplits === 0
+    );
+}
+
+/**
+ * Split a search on the first dimension it can still be split on: employment
+ * type, then workplace type (both partition the results), then nearby
+ * locations, then a narrower posted-date window (both only cover part of the
+ * results). Returns null when the search cannot be split further.
+ */
+export function splitSearch(params: SearchParams): SearchSplit | null {
+    const base = { ...params, page: 1 };
+
+    if (params.employmentTypes.length !== 1) {
+        const types = params.employmentTypes.length > 0 ? params.employmentTypes : EMPLOYMENT_TYPES;
+        return {
+            dimension: 'employmentType',
+            exhaustive: true,
+            children: types.map(type => ({ ...base, employmentTypes: [type] })),
+        };
+    }
+
+    if (params.workplaceTypes.length !== 1) {
+        const types = params.workplaceTypes.length > 0 ? params.workplaceTypes : WORKPLACE_TYPES;
+        return {
+            dimension: 'workplaceType',
+            exhaustive: true,
+            children: types.map(type => ({ ...base, workplaceTypes: [type] })),
+        };
+    }
+
+    const locations = splitLocation(params);
+    if (locations.length > 0) {
+        return {
+            dimension: 'location',
+            exhaustive: false,
+            children: locations.map(({ location, radius }) => ({ ...base, location, radius })),
+        };
+    }
+
+    const postedDate = NARROWER_POSTED_DATE[params.postedDate || 'ANY'];
+    if (postedDate) {
+        return { dimension: 'postedDate', exhaustive: false, children: [{ ...base, postedDate }] };
+    }
+
+    return null;
+}
+
+/**
+ * Short label of the filters a sub-search adds to its saved search
+ */
+export function describePartition(root: SearchParams, params: SearchParams): string {
+    const parts: string[] = [];
+    if (params.employmentTypes.join() !== root.employmentTypes.join()) {
+        parts.push(`employmentType=${params.employmentTypes.join('+')}`);
+    }
+    if (params.workplaceTypes.join() !== root.workplaceTypes.join()) {
+        parts.push(`workplaceType=${params.workplaceTypes.join('+')}`);
+    }
+    if (params.location !== root.location || params.radius !== root.radius) {
+        parts.push(`location=${params.location}~${params.radius}mi`);
+    }
+    if (params.postedDate !== root.postedDate) {
+        parts.push(`postedDate=${params.postedDate}`);
+    }
+    return parts.join(',');
+}
+
+/**
+ * Plans the sub-searches of saved searches whose results go past the pages the
+ * API serves, and tracks how many of the reported jobs the searches reached
+ */
+export class SearchPartitioner {
+    private readonly entries = new Map<string, CoverageEntry>();
+
+    constructor(private readonly maxSubSearches = MAX_SUB_SEARCHES) {}
+
+    /**
+     * Record a fetched result page. The first page of the saved search itself
+     * (no partition) sets the total Dice reported.
+     */
+    recordPage(
+        searchName: string,
+        partition: string | undefined,
+        totalJobs: number,
+        jobIds: string[]
+    ): void {
+        const entry = this.entry(searchName);
+        if (!partition && entry.totalJobs === undefined) entry.totalJobs = totalJobs;
+        jobIds.forEach(id => entry.jobIds.add(id));
+    }
+
+    /**
+     * Sub-searches for a search whose total is larger than its reachable pages,
+     * leaving out ones already planned. Returns null when the search fits under
+     * the cap or cannot be split further.
+     */
+    plan(
+        searchName: string,
+        root: SearchParams,
+        params: SearchParams,
+        totalJobs: number,
+        totalPages: number
+    ): (SearchSplit & { partitions: string[] }) | null {
+        if (totalJobs <= reachableJobs(totalJobs, totalPages, params.pageSize)) return null;
+
+        const entry = this.entry(searchName);
+        const split = splitSearch(params);
+        if (!split || entry.planned.size >= this.maxSubSearches) {
+            entry.cappedSubSearches++;
+            return null;
+        }
+
+        const children: SearchParams[] = [];
+        const partitions: string[] = [];
+        for (const child of split.children) {
+            const partition = describePartition(root, child);
+            if (entry.planned.has(partition) || entry.planned.size >= this.maxSubSearches) continue;
+
+            entry.planned.add(partition);
+            children.push(child);
+            partitions.push(partition);
+        }
+        if (!split.exhaustive && children.length > 0) entry.partialSplits++;
+
+        return { ...split, children, partitions };
+    }
+
+    /**
+     * Coverage of every saved search: jobs reached compared with the total Dice reported
+     */
+    getReport(): SearchCoverage[] {
+        return Array.from(this.entries, ([searchName, entry]) => {
+            const totalJobs = entry.totalJobs ?? entry.jobIds.size;
+            return {
+                searchName,
+                totalJobs,
+                jobsReached: entry.jobIds.size,
+                coverage:
+                    totalJobs > 0
+                        ? Math.round(Math.min(1, entry.jobIds.size / totalJobs) * 1000) / 1000
+                        : 1,
+                subSearches: entry.planned.size,
+                cappedSubSearches: entry.cappedSubSearches,
+                partialSplits: entry.partialSplits,
+            };
+        });
+    }
+
+    /**
+     * Planned sub-searches and reached jobs, for the run state
+     */
+    getState(): PartitionState {
+        return Object.fromEntries(
+            Array.from(this.entries, ([searchName, entry]) => [
+                searchName,
+                {
+                    totalJobs: entry.totalJobs,
+                    jobIds: Array.from(entry.jobIds),
+                    planned: Array.from(entry.planned),
+                    cappedSubSearches: entry.cappedSubSearches,
+                    partialSplits: entry.partialSplits,
+                },
+            ])
+        );
+    }
+
+    /**
+     * Continue from the state saved before a restart
+     */
+    restore(state: PartitionState): void {
+        for (const [searchName, entry] of Object.entries(state)) {
+            this.entries.set(searchName, {
+                totalJobs: entry.totalJobs,
+                jobIds: new Set(entry.jobIds),
+                planned: new Set(entry.planned),
+                cappedSubSearches: entry.cappedSubSearches,
+                partialSplits: entry.partialSplits,
+            });
+        }
+    }
+
+    /**
+     * Coverage entry of a saved search
+     */
+    private entry(searchName: string): CoverageEntry {
+        let entry = this.entries.get(searchName);
+        if (!entry) {
+            entry = {
+                jobIds: new Set(),
+                planned: new Set(),
+                cappedSubSearches: 0,
+                partialSplits: 0,
+            };
+            this.entries.set(searchName, entry);
+        }
+        return entry;
+    }
+}
+
+/**
+ * Locations a search can be split into: the US metros of a nationwide search,
+ * or the gazetteer cities within a wide radius, each with half the radius
+ */
+function splitLocation(params: SearchParams): { location: string; radius: number }[] {
+    if (!params.location) {
+        return CITIES.filter(city => city[2] === 'US').map(city => ({
+            location: `${city[0]}, ${city[1]}`,
+            radius: METRO_RADIUS,
+        }));
+    }
+
+    const center = geocodeLocation(params.location);
+    if (params.radius <= MIN_SPLIT_RADIUS || center?.latitude === undefined) return [];
+
+    const radius = Math.max(MIN_SPLIT_RADIUS, Math.round(params.radius / 2));
+    return CITIES.filter(
+        city =>
+            city[2] === center.countryCode &&
+            distanceMiles(center.latitude!, center.longitude!, city[3], city[4]) <= params.radius
+    ).map(city => ({ location: city[1] ? `${city[0]}, ${city[1]}` : city[0], radius }));
+}
+
+/**
+ * Great-circle distance between two coordinates
+ */
+function distanceMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
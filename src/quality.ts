@@ -0,0 +1,222 @@
+import type {
+    ExtractionReport,
+    ExtractionStatus,
+    FieldHealth,
+    FieldSource,
+    JobListingFull,
+    SelectorHealth,
+    SelectorPageType,
+} from './types.js';
+import {
+    JOB_LISTING_FIELDS,
+    PLACEHOLDER_VALUES,
+    QUALITY_MIN_SAMPLE_SIZE,
+    SEARCH_PAGE_SELECTOR_KEYS,
+    SELECTORS,
+} from './constants.js';
+
+// Extractors that read a value from the detail page itself
+const PAGE_SOURCES: FieldSource[] = ['jsonLd', 'nextData', 'selector', 'description'];
+
+// Bookkeeping and error fields that are not part of the quality check
+const IGNORED_FIELDS = ['fieldSources', 'error'];
+
+// Fill counts of one field
+export interface FieldCounter {
+    filled: number;
+    pageFilled: number;
+    sources: Partial<Record<FieldSource, number>>;
+}
+
+// Options for the extraction quality check
+export interface ExtractionMonitorOptions {
+    criticalFields: string[];
+    minFieldFillRate: number;
+    failOnLowFillRate: boolean;
+}
+
+// Selector and field counts of the run so far, saved with the run state
+export interface ExtractionState {
+    selectorCounts: Record<string, { checked: number; matched: number }>;
+    fieldCounts: Record<string, FieldCounter>;
+    pagesChecked: Record<SelectorPageType, number>;
+    jobsChecked: number;
+    detailJobsChecked: number;
+}
+
+/**
+ * Tracks selector hits and field fill rates across the run to detect
+ * markup changes on Dice before they silently degrade the dataset
+ */
+export class ExtractionMonitor {
+    private readonly selectorCounts = new Map<string, { checked: number; matched: number }>();
+    private readonly fieldCounts = new Map<string, FieldCounter>();
+    private readonly pagesChecked: Record<SelectorPageType, number> = { search: 0, detail: 0 };
+    private jobsChecked = 0;
+    private detailJobsChecked = 0;
+
+    constructor(private readonly options: ExtractionMonitorOptions) {}
+
+    /**
+     * SELECTORS entries that apply to a page type
+     */
+    static selectorsFor(pageType: SelectorPageType): [string, string][] {
+        return Object.entries(SELECTORS).filter(
+            ([key]) => SEARCH_PAGE_SELECTOR_KEYS.includes(key) === (pageType === 'search')
+        );
+    }
+
+    /**
+     * Record which selectors matched on a page
+     */
+    recordSelectorHits(pageType: SelectorPageType, hits: Record<string, boolean>): void {
+        this.pagesChecked[pageType]++;
+
+        for (const [key, matched] of Object.entries(hits)) {
+            const counts = this.selectorCounts.get(key) || { checked: 0, matched: 0 };
+            counts.checked++;
+            if (matched) counts.matched++;
+            this.selectorCounts.set(key, counts);
+        }
+    }
+
+    /**
+     * Record which fields of a saved job are filled, and by which extractor
+     */
+    recordJob(job: JobListingFull): void {
+        this.jobsChecked++;
+        const fromDetailPage = job.fieldSources !== undefined;
+        if (fromDetailPage) this.detailJobsChecked++;
+
+        const fields = new Set<string>([...JOB_LISTING_FIELDS, ...Object.keys(job)]);
+
+        for (const field of fields) {
+            if (IGNORED_FIELDS.includes(field)) continue;
+
+            const counter = this.fieldCounts.get(field) || {
+                filled: 0,
+                pageFilled: 0,
+                sources: {},
+            };
+            const value = job[field as keyof JobListingFull];
+
+            if (isFilled(value)) {
+                counter.filled++;
+
+                const source = job.fieldSources?.[field as keyof JobListingFull];
+                if (source) {
+                    counter.sources[source] = (counter.sources[source] || 0) + 1;
+                    if (PAGE_SOURCES.includes(source)) counter.pageFilled++;
+                }
+            }
+
+            this.fieldCounts.set(field, counter);
+        }
+    }
+
+    /**
+     * Selector and field counts, for the run state
+     */
+    getState(): ExtractionState {
+        return {
+            selectorCounts: Object.fromEntries(this.selectorCounts),
+            fieldCounts: Object.fromEntries(this.fieldCounts),
+            pagesChecked: { ...this.pagesChecked },
+            jobsChecked: this.jobsChecked,
+            detailJobsChecked: this.detailJobsChecked,
+        };
+    }
+
+    /**
+     * Continue from the counts saved before a restart
+     */
+    restore(state: ExtractionState): void {
+        for (const [key, counts] of Object.entries(state.selectorCounts)) {
+            this.selectorCounts.set(key, { ...counts });
+        }
+        for (const [field, counter] of Object.entries(state.fieldCounts)) {
+            this.fieldCounts.set(field, { ...counter, sources: { ...counter.sources } });
+        }
+        Object.assign(this.pagesChecked, state.pagesChecked);
+        this.jobsChecked = state.jobsChecked;
+        this.detailJobsChecked = state.detailJobsChecked;
+    }
+
+    /**
+     * Build the report and evaluate the critical fields against the threshold.
+     * The check uses detail-page records, counting only values found on the page
+     * (so selector breakage is not hidden by search-result fallbacks).
+     */
+    buildReport(): ExtractionReport {
+        const selectors: Record<string, SelectorHealth> = {};
+
+        for (const pageType of ['search', 'detail'] as const) {
+            for (const [key, selector] of ExtractionMonitor.selectorsFor(pageType)) {
+                const counts = this.selectorCounts.get(key) || { checked: 0, matched: 0 };
+                selectors[key] = {
+                    selector,
+                    pageType,
+                    pagesChecked: counts.checked,
+                    pagesMatched: counts.matched,
+                    fillRate: rate(counts.matched, counts.checked),
+                };
+            }
+        }
+
+        const fields: Record<string, FieldHealth> = {};
+        for (const [field, counter] of this.fieldCounts) {
+            fields[field] = {
+                filled: counter.filled,
+                fillRate: rate(counter.filled, this.jobsChecked),
+                pageFillRate:
+                    this.detailJobsChecked > 0
+                        ? rate(counter.pageFilled, this.detailJobsChecked)
+                        : undefined,
+                sources: counter.sources,
+            };
+        }
+
+        const { criticalFields, minFieldFillRate, failOnLowFillRate } = this.options;
+        const lowFillRateFields = criticalFields
+            .map(field => ({ field, fillRate: fields[field]?.pageFillRate ?? 0 }))
+            .filter(({ fillRate }) => fillRate < minFieldFillRate);
+
+        let status: ExtractionStatus;
+        if (this.detailJobsChecked < QUALITY_MIN_SAMPLE_SIZE) {
+            status = 'skipped';
+        } else if (lowFillRateFields.length === 0) {
+            status = 'ok';
+        } else {
+            status = failOnLowFillRate ? 'failed' : 'warning';
+        }
+
+        return {
+            status,
+            jobsChecked: this.jobsChecked,
+            detailPagesChecked: this.pagesChecked.detail,
+            searchPagesChecked: this.pagesChecked.search,
+            minFieldFillRate,
+            criticalFields,
+            lowFillRateFields: status === 'skipped' ? [] : lowFillRateFields,
+            selectors,
+            fields,
+        };
+    }
+}
+
+/**
+ * Whether a field value counts as extracted
+ */
+function isFilled(value: unknown): boolean {
+    if (value === undefined || value === null || value === '') return false;
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return !PLACEHOLDER_VALUES.includes(value);
+    return true;
+}
+
+/**
+ * Ratio rounded to three decimals (0 when nothing was checked)
+ */
+function rate(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+}
@@ -0,0 +1,90 @@
+import type { JobListingBasic } from './types.js';
+
+/**
+ * Dedup key for a job: the Dice job guid (shared by the API and the
+ * job-detail URL) when known, otherwise the job ID
+ */
+export function getJobKey(job: JobListingBasic): string {
+    return job.guid || job.id;
+}
+
+/**
+ * Merge a job found by another source into an existing one.
+ * Values already present win; missing or empty fields are filled from the incoming job.
+ */
+export function mergeJobListings(
+    existing: JobListingBasic,
+    incoming: JobListingBasic
+): JobListingBasic {
+    const merged: Record<string, unknown> = { ...existing };
+
+    for (const [key, value] of Object.entries(incoming)) {
+        const current = merged[key];
+        if (current === undefined || current === null || current === '') {
+            merged[key] = value;
+        }
+    }
+
+    const searchNames = [...(existing.searchNames || [])];
+    for (const name of incoming.searchNames || []) {
+        if (!searchNames.includes(name)) searchNames.push(name);
+    }
+
+    return {
+        ...(merged as unknown as JobListingBasic),
+        searchNames: searchNames.length > 0 ? searchNames : undefined,
+    };
+}
+
+/**
+ * Collects the jobs found during the search phase, deduplicated by job key.
+ * A job found by several searches or sources is kept once, with merged fields
+ * and every search name that found it.
+ */
+export class JobRegistry {
+    private readonly jobs = new Map<string, JobListingBasic>();
+
+    /**
+     * Register a job found by a search. Returns true if the job is new to that search
+     * (or new to the registry when no search name is given).
+     */
+    add(job: JobListingBasic, searchName?: string): boolean {
+        const key = getJobKey(job);
+        const incoming: JobListingBasic = {
+            ...job,
+            searchNames: searchName ? [searchName] : job.searchNames,
+        };
+        const existing = this.jobs.get(key);
+
+        if (!existing) {
+            this.jobs.set(key, incoming);
+            return true;
+        }
+
+        const isNewForSearch = searchName ? !existing.searchNames?.includes(searchName) : false;
+        this.jobs.set(key, mergeJobListings(existing, incoming));
+
+        return isNewForSearch;
+    }
+
+    /**
+     * Check whether a job is registered
+     */
+    has(job: JobListingBasic): boolean {
+        return this.jobs.has(getJobKey(job));
+    }
+
+    /**
+     * All registered jobs, in the order they were found
+     */
+    values(): JobListingBasic[] {
+        return Array.from(this.jobs.values());
+    }
+
+    /**
+     * Number of registered jobs
+     */
+    get size(): number {
+        return this.jobs.size;
+    }
+}
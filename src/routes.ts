@@ -1,4 +1,11 @@
-import { createCheerioRouter, log, Dataset, Request } from 'crawlee';
+import {
+    createCheerioRouter,
+    log,
+    Dataset,
+    Request,
+    type CheerioRoot,
+    type RequestOptions,
+} from 'crawlee';
 import type { CheerioAPI } from 'cheerio';
 import type {
     Input,
@@ -7,44 +14,459 @@ import type {
     JobListingFull,
     DiceSearchResponse,
     SearchParams,
+    FieldSource,
+    NormalizedSalary,
+    SelectorPageType,
+    CompanyProfile,
+    Seniority,
 } from './types.js';
 import {
     DICE_API_URL,
     DEFAULT_HEADERS,
     SELECTORS,
     REQUEST_CONFIG,
+    DEFAULT_SEARCH_NAME,
+    COMPANY_SELECTORS,
 } from './constants.js';
 import {
     buildSearchApiUrl,
     parseJobFromApi,
     cleanText,
-    extractSkills,
-    parseSalaryFromText,
     extractJobIdFromUrl,
+    resolveSearches,
+    buildSearchUrl,
+    formatSalary,
 } from './utils.js';
+import { JobRegistry, getJobKey } from './registry.js';
+import { bestSalary, normalizeSalary } from './salary.js';
+import {
+    extractStructuredCompanyData,
+    extractStructuredJobData,
+    type EmbeddedScript,
+} from './structured.js';
+import type { SeenJobsIndex } from './incremental.js';
+import { ExtractionMonitor } from './quality.js';
+import type { FixtureServer } from './fixtures.js';
+import { parseCompanyReference, type CompanyCache } from './company.js';
+import { SkillTaxonomy } from './skills.js';
+import { analyzeDescription } from './sections.js';
+import { classifySeniority, matchesSeniority } from './seniority.js';
+import type { JobRulesEngine } from './rules.js';
+import { AgencyDetector } from './agency.js';
+import { JobClusterer } from './cluster.js';
+import { normalizeJobLocation } from './location.js';
+import { normalizeJobDates, parsePostedDate } from './dates.js';
+import { isRemovedPosting, type JobLifecycleTracker } from './lifecycle.js';
+import type { ChangeTracker } from './history.js';
+import { SearchPartitioner, reachableJobs } from './partition.js';
+import { JobBudget, type BudgetState } from './budget.js';
+import { RequestThrottle, detectBlock } from './throttle.js';
+import type { RunStateStore, SaveBatch } from './state.js';
+import { readDatasetItems } from './export.js';
+
+// Extractor/value pair considered when resolving a job field
+type FieldCandidate<T> = [FieldSource, T | null | undefined];
+
+// Which extractor produced each job field
+type FieldSources = NonNullable<JobListingFull['fieldSources']>;
 
 // Create the router instance
 export const router = createCheerioRouter();
 
 // State management
-let jobsScraped = 0;
-let maxJobs = 100;
-let scrapeJobDetails = true;
+let jobBudget = new JobBudget();
+let searchRoots = new Map<string, SearchParams>();
+let registry = new JobRegistry();
+let seenJobs: SeenJobsIndex | undefined;
+let extractionMonitor: ExtractionMonitor | undefined;
+let fixtureServer: FixtureServer | undefined;
+let companyCache: CompanyCache | undefined;
+let companyDatasetName = 'dice-companies';
+let skillTaxonomy = new SkillTaxonomy();
+let seniorityFilter: Seniority[] = [];
+let includeUnknownSeniority = true;
+let rulesEngine: JobRulesEngine | undefined;
+let agencyDetector = new AgencyDetector();
+let jobClusterer = new JobClusterer();
+let agencyPostings: Input['agencyPostings'] = 'include';
+let agencyDatasetName = 'dice-agency-jobs';
+let lifecycleTracker: JobLifecycleTracker | undefined;
+let changeTracker: ChangeTracker | undefined;
+let changeDatasetName = 'dice-job-changes';
+let searchPartitioner = new SearchPartitioner();
+let splitLargeSearches = true;
+let requestThrottle = new RequestThrottle(10);
+let browserFallback = false;
+let browserPages: RequestOptions<RequestUserData>[] = [];
+let runState: RunStateStore | undefined;
+
+// Services shared with the request handlers
+export interface RouterOptions {
+    seenJobs?: SeenJobsIndex;
+    extractionMonitor?: ExtractionMonitor;
+    fixtureServer?: FixtureServer;
+    companyCache?: CompanyCache;
+    skillTaxonomy?: SkillTaxonomy;
+    rulesEngine?: JobRulesEngine;
+    agencyDetector?: AgencyDetector;
+    lifecycleTracker?: JobLifecycleTracker;
+    changeTracker?: ChangeTracker;
+    searchPartitioner?: SearchPartitioner;
+    throttle?: RequestThrottle;
+    runState?: RunStateStore;
+}
 
 /**
  * Initialize router configuration
  */
-export function initRouter(input: Input): void {
-    maxJobs = input.maxJobs || 100;
-    scrapeJobDetails = input.scrapeJobDetails ?? true;
-    jobsScraped = 0;
+export function initRouter(input: Input, options: RouterOptions = {}): void {
+    const searches = resolveSearches(input);
+    jobBudget = new JobBudget(
+        new Map(searches.map(search => [search.name, search.maxJobs])),
+        input.maxJobs ?? 100,
+        input.maxDetailRequests
+    );
+    searchRoots = new Map(searches.map(search => [search.name, search.params]));
+    registry = new JobRegistry();
+    seenJobs = options.seenJobs;
+    extractionMonitor = options.extractionMonitor;
+    fixtureServer = options.fixtureServer;
+    companyCache = options.companyCache;
+    companyDatasetName = input.companyDatasetName;
+    skillTaxonomy = options.skillTaxonomy ?? new SkillTaxonomy();
+    seniorityFilter = input.seniorityFilter;
+    includeUnknownSeniority = input.includeUnknownSeniority;
+    rulesEngine = options.rulesEngine;
+    agencyDetector = options.agencyDetector ?? new AgencyDetector(input.agencyCompanies);
+    agencyPostings = input.agencyPostings;
+    jobClusterer = new JobClusterer(input.clusterSimilarity);
+    agencyDatasetName = input.agencyDatasetName;
+    lifecycleTracker = options.lifecycleTracker;
+    changeTracker = options.changeTracker;
+    changeDatasetName = input.changeDatasetName;
+    searchPartitioner = options.searchPartitioner ?? new SearchPartitioner();
+    splitLargeSearches = input.splitLargeSearches;
+    requestThrottle = options.throttle ?? new RequestThrottle(input.maxConcurrency);
+    browserFallback = input.browserFallback;
+    browserPages = [];
+    runState = options.runState;
+}
+
+// Job budget, collected jobs and pages waiting for the browser, saved with the run state
+export interface RouterState {
+    budget: BudgetState;
+    jobs: JobListingBasic[];
+    browserPages: RequestOptions<RequestUserData>[];
+}
+
+// Search or job detail page, loaded by the HTTP crawler or rendered in the browser
+export interface PageContext {
+    request: Request<RequestUserData>;
+    $: CheerioRoot;
+    statusCode?: number;
+    addRequests: (requests: Request[]) => Promise<unknown>;
+    rendered?: boolean;
+}
+
+/**
+ * Current job budget, collected jobs and pages waiting for the browser
+ */
+export function getRouterState(): RouterState {
+    return { budget: jobBudget.getState(), jobs: registry.values(), browserPages };
+}
+
+/**
+ * Continue from the job budget, collected jobs and browser pages saved before a restart
+ */
+export function restoreRouterState(state: RouterState): void {
+    jobBudget.restore(state.budget);
+    browserPages = [...state.browserPages];
+    for (const job of state.jobs) {
+        registry.add(job);
+    }
+}
+
+/**
+ * Continue from the jobs saved before a restart: settle the budget slots of the
+ * logged save batches and rebuild the near-duplicate clusters from the saved
+ * records. Jobs of a batch cut off while it was pushed count as saved when they
+ * are in the dataset, and stay pending otherwise.
+ */
+export async function restoreSavedJobs(batches: SaveBatch[]): Promise<void> {
+    if (batches.length === 0) return;
+
+    // The agency dataset is named and keeps the jobs of earlier runs too
+    const batchKeys = new Set(batches.flatMap(batch => batch.keys));
+    const saved = await readDatasetItems<JobListingFull>(await Dataset.open());
+    if (agencyPostings === 'group') {
+        const agencyJobs = await readDatasetItems<JobListingFull>(
+            await Dataset.open(agencyDatasetName)
+        );
+        saved.push(...agencyJobs.filter(job => batchKeys.has(getJobKey(job))));
+    }
+    jobClusterer.restore(saved);
+
+    const savedKeys = new Set(saved.map(job => getJobKey(job)));
+    for (const batch of batches) {
+        const committed = new Set(batch.committed ?? batch.keys.filter(key => savedKeys.has(key)));
+        for (const key of batch.keys) {
+            if (committed.has(key)) {
+                jobBudget.commit(key);
+                seenJobs?.record(key);
+            } else if (batch.committed) {
+                jobBudget.release(key);
+            }
+        }
+    }
+}
+
+/**
+ * Give back the slot of a job that will not be saved, logging it for a restarted run
+ */
+export async function releaseJob(key: string): Promise<void> {
+    if (!jobBudget.isPending(key)) return;
+
+    jobBudget.release(key);
+    await runState?.logSaves({ keys: [key], committed: [] });
+}
+
+/**
+ * Save job records to the dataset, skipping jobs outside the seniority filter,
+ * normalizing locations, filling company fields from scraped company profiles, flagging staffing-agency
+ * postings, applying the filtering and scoring rules and clustering the near-duplicate postings that are
+ * kept. Agency postings are dropped or saved to their own dataset when configured. Field changes since
+ * earlier runs go to the change dataset.
+ * Saved jobs are committed to the job budget and recorded as seen for incremental runs; skipped
+ * ones release their slot.
+ */
+export async function saveJobs(jobs: JobListingFull[]): Promise<void> {
+    const keys = jobs.map(job => getJobKey(job));
+    const batchKey = await runState?.logSaves({ keys });
+
+    const kept = jobs.filter(job =>
+        matchesSeniority(job, seniorityFilter, includeUnknownSeniority)
+    );
+    if (kept.length < jobs.length) {
+        log.debug(`Skipped ${jobs.length - kept.length} jobs outside the seniority filter`);
+    }
+
+    const cache = companyCache;
+    const located = kept.map(job => ({
+        ...job,
+        ...normalizeJobLocation(job),
+        ...normalizeJobDates(job),
+        ...lifecycleTracker?.getDates(job),
+    }));
+    const withCompanies = cache ? located.map(job => cache.enrich(job)) : located;
+    const classified = withCompanies
+        .map(job => ({ ...job, ...agencyDetector.classify(job) }))
+        .filter(job => {
+            if (agencyPostings !== 'exclude' || !job.isStaffingAgency) return true;
+            agencyDetector.recordOutcome('excluded');
+            return false;
+        });
+
+    const engine = rulesEngine;
+    const accepted = engine ? classified.flatMap(job => engine.apply(job) ?? []) : classified;
+    if (accepted.length < classified.length) {
+        log.debug(`Skipped ${classified.length - accepted.length} jobs rejected by the rules`);
+    }
+
+    // Only saved postings join near-duplicate clusters, so cluster IDs point to saved jobs.
+    // The representative is the best posting saved so far: a later one can still beat it.
+    const enriched = accepted.map(job => {
+        const clusterId = jobClusterer.assign(job);
+        return {
+            ...job,
+            clusterId,
+            clusterRepresentativeId: jobClusterer.representativeOf(clusterId),
+            likelyDuplicateOf: agencyDetector.duplicateOf(job, clusterId),
+        };
+    });
+
+    for (const job of enriched) {
+        extractionMonitor?.recordJob(job);
+    }
+
+    // Log field changes since the versions saved by earlier runs
+    const tracker = changeTracker;
+    if (tracker) {
+        const changes = (await Promise.all(enriched.map(job => tracker.compare(job)))).flat();
+        if (changes.length > 0) {
+            const dataset = await Dataset.open(changeDatasetName);
+            await dataset.pushData(changes);
+        }
+    }
+
+    if (agencyPostings !== 'group') {
+        await Dataset.pushData(enriched);
+    } else {
+        const agencyJobs = enriched.filter(job => job.isStaffingAgency);
+        await Dataset.pushData(enriched.filter(job => !job.isStaffingAgency));
+
+        if (agencyJobs.length > 0) {
+            const dataset = await Dataset.open(agencyDatasetName);
+            await dataset.pushData(agencyJobs);
+            agencyDetector.recordOutcome('grouped', agencyJobs.length);
+        }
+    }
+
+    const savedKeys = new Set(enriched.map(job => getJobKey(job)));
+    for (const key of keys) {
+        if (savedKeys.has(key)) {
+            jobBudget.commit(key);
+            seenJobs?.record(key);
+        } else {
+            jobBudget.release(key);
+        }
+    }
+    await runState?.logSaves({ keys, committed: Array.from(savedKeys) }, batchKey);
+}
+
+/**
+ * Record which SELECTORS entries for the page type match on the page
+ */
+function recordSelectorHits(
+    pageType: SelectorPageType,
+    matches: (selector: string) => boolean
+): void {
+    if (!extractionMonitor) return;
+
+    const hits = Object.fromEntries(
+        ExtractionMonitor.selectorsFor(pageType).map(([key, selector]) => [key, matches(selector)])
+    );
+    extractionMonitor.recordSelectorHits(pageType, hits);
 }
 
 /**
- * Check if we should continue scraping
+ * Jobs collected during the search phase, each listing the searches that found it
  */
-function shouldContinue(): boolean {
-    return maxJobs === 0 || jobsScraped < maxJobs;
+export function getCollectedJobs(): JobListingBasic[] {
+    return registry.values();
+}
+
+/**
+ * Job budget of the run: reserved, saved and dropped jobs of every search
+ */
+export function getJobBudget(): JobBudget {
+    return jobBudget;
+}
+
+/**
+ * Check if we should continue scraping for a search
+ */
+function shouldContinue(searchName: string = DEFAULT_SEARCH_NAME): boolean {
+    return jobBudget.hasRoom(searchName);
+}
+
+/**
+ * Searches that stopped at their job limit, leaving later result pages unread
+ */
+export function getLimitedSearches(): string[] {
+    return jobBudget.stoppedSearches();
+}
+
+/**
+ * Register a job found by a search, reserving a slot of the search's limit.
+ * Jobs found again (by the other source, a later page or another search) are
+ * merged even when the search is full; only new jobs need a free slot.
+ */
+function collectJob(job: JobListingBasic, searchName: string): void {
+    const reserved = jobBudget.reserve(getJobKey(job), searchName);
+    if (reserved || registry.has(job)) {
+        registry.add(job, searchName);
+    }
+}
+
+/**
+ * Remember the result page a search chain stopped at because its limit was
+ * reached, to continue from there if dropped jobs free up slots
+ */
+function recordStop(chain: string, searchName: string, request: Request): void {
+    jobBudget.recordStop(chain, {
+        url: request.url,
+        uniqueKey: request.uniqueKey,
+        userData: { ...(request.userData as RequestUserData), searchName },
+        skipNavigation: request.skipNavigation,
+    });
+}
+
+/**
+ * Hand a page whose content Dice renders client-side to the browser crawler
+ */
+function queueForBrowser(request: Request<RequestUserData>): void {
+    browserPages.push({
+        url: request.url,
+        uniqueKey: `browser-${request.uniqueKey}`,
+        userData: request.userData,
+    });
+}
+
+/**
+ * Pages queued for the browser crawler since the last call
+ */
+export function takeBrowserRequests(): Request[] {
+    const requests = browserPages.map(page => new Request(page));
+    browserPages = [];
+    return requests;
+}
+
+/**
+ * Whether a job detail page came without the job: no embedded job data, and
+ * neither the title nor the description is in the HTML
+ */
+function isUnrenderedDetailPage($: CheerioRoot): boolean {
+    return (
+        $('script[type="application/ld+json"], script#__NEXT_DATA__').length === 0 &&
+        $(SELECTORS.JOB_TITLE).length === 0 &&
+        $(SELECTORS.DESCRIPTION).length === 0
+    );
+}
+
+/**
+ * Build the HTML search request used when the API fails or returns nothing
+ */
+export function createHtmlFallbackRequest(userData: RequestUserData): Request {
+    const searchParams = userData.searchParams!;
+    const searchName = userData.searchName || DEFAULT_SEARCH_NAME;
+    const partition = userData.partition ? `${userData.partition}-` : '';
+
+    return new Request({
+        url: buildSearchUrl(searchParams, searchParams.page),
+        label: 'SEARCH',
+        userData: {
+            label: 'SEARCH' as const,
+            page: searchParams.page,
+            searchName,
+        },
+        uniqueKey: `html-search-${searchName}-${partition}page-${searchParams.page}`,
+    });
+}
+
+/**
+ * Build an API search request for a page of a saved search or one of its sub-searches.
+ * The handler calls the API itself, so the request is not navigated to.
+ */
+function createSearchApiRequest(
+    searchName: string,
+    searchParams: SearchParams,
+    partition?: string
+): Request {
+    const prefix = partition ? `${partition}-` : '';
+
+    return new Request({
+        url: `${DICE_API_URL}?page=${searchParams.page}`,
+        label: 'SEARCH_API',
+        skipNavigation: true,
+        userData: {
+            label: 'SEARCH_API' as const,
+            page: searchParams.page,
+            searchName,
+            searchParams,
+            partition,
+        },
+        uniqueKey: `search-${searchName}-${prefix}page-${searchParams.page}`,
+    });
 }
 
 /**
@@ -53,11 +475,17 @@ function shouldContinue(): boolean {
 router.addHandler<RequestUserData>('SEARCH_API', async ({ request, sendRequest, crawler }) => {
     const userData = request.userData;
     const searchParams = userData.searchParams!;
+    const searchName = userData.searchName || DEFAULT_SEARCH_NAME;
 
-    log.info(`Processing API search page ${searchParams.page}`, { url: request.url });
+    const chain = `api-${searchName}-${userData.partition ?? ''}`;
 
-    if (!shouldContinue()) {
+    log.info(`Processing API search page ${searchParams.page} for "${searchName}"`, {
+        url: request.url,
+    });
+
+    if (!shouldContinue(searchName)) {
         log.info('Max jobs limit reached, stopping');
+        recordStop(chain, searchName, request);
         return;
     }
 
@@ -65,17 +493,24 @@ router.addHandler<RequestUserData>('SEARCH_API', async ({ request, sendRequest,
         const queryString = buildSearchApiUrl(searchParams);
         const apiUrl = `${DICE_API_URL}?${queryString}`;
 
+        await requestThrottle.acquire(apiUrl);
         const response = await sendRequest({
-            url: apiUrl,
+            url: fixtureServer ? fixtureServer.localUrl(apiUrl) : apiUrl,
             method: 'GET',
             headers: DEFAULT_HEADERS,
-            responseType: 'json',
         });
 
-        const data = response.body as DiceSearchResponse;
+        // Blocked API responses are retried with a new session once the API host has backed off
+        const body = String(response.body ?? '');
+        const blockReason = detectBlock(response.statusCode, body, true);
+        if (blockReason) throw requestThrottle.recordBlock(apiUrl, blockReason);
+        requestThrottle.recordSuccess(apiUrl);
+
+        const data = JSON.parse(body) as DiceSearchResponse;
 
-        if (!data || !data.data) {
-            log.warning('No data received from API', { url: apiUrl });
+        if (!data || !data.data || (data.data.length === 0 && searchParams.page === 1)) {
+            log.warning('No data received from API, falling back to HTML search', { url: apiUrl });
+            await crawler.addRequests([createHtmlFallbackRequest(userData)]);
             return;
         }
 
@@ -85,63 +520,97 @@ router.addHandler<RequestUserData>('SEARCH_API', async ({ request, sendRequest,
 
         log.info(`Found ${totalJobs} total jobs, processing page ${searchParams.page}/${totalPages}`, {
             jobsOnPage: jobs.length,
+            partition: userData.partition,
         });
 
-        // Process each job
-        const jobsToProcess: JobListingBasic[] = [];
+        searchPartitioner.recordPage(
+            searchName,
+            userData.partition,
+            totalJobs,
+            jobs.map(job => job.guid || job.id)
+        );
+
+        // Split searches whose results go past the deepest page the API serves;
+        // an exhaustive split replaces the remaining pages of this search
+        let splitExhaustively = false;
+        const limit = jobBudget.limit(searchName);
+        const reachable = reachableJobs(totalJobs, totalPages, searchParams.pageSize);
+        const needsSplit = totalJobs > reachable && (limit === 0 || limit > reachable);
+
+        if (searchParams.page === 1 && needsSplit) {
+            const root = searchRoots.get(searchName) ?? searchParams;
+            const split = splitLargeSearches
+                ? searchPartitioner.plan(searchName, root, searchParams, totalJobs, totalPages)
+                : null;
+
+            // A page fetched again keeps its split; the sub-searches are already queued
+            if (split) splitExhaustively = split.exhaustive;
+
+            if (split && split.children.length > 0) {
+                await crawler.addRequests(
+                    split.children.map((params, i) =>
+                        createSearchApiRequest(searchName, params, split.partitions[i])
+                    )
+                );
+                log.info(
+                    `Split "${searchName}" by ${split.dimension} into ${split.children.length} sub-searches`,
+                    { totalJobs, reachable, partition: userData.partition }
+                );
+            } else if (!split) {
+                log.warning(
+                    `Only ${reachable} of ${totalJobs} jobs are reachable for "${searchName}"`,
+                    { partition: userData.partition }
+                );
+            }
+        }
 
-        for (const job of jobs) {
-            if (!shouldContinue()) break;
+        // Collect each job; details are scraped once the search phase is done
+        let jobsCollected = 0;
+        let stopped = false;
 
+        for (const job of jobs) {
             const parsedJob = parseJobFromApi(job);
-            jobsToProcess.push(parsedJob);
-            jobsScraped++;
-        }
 
-        // If we need to scrape details, add requests for each job
-        if (scrapeJobDetails && jobsToProcess.length > 0) {
-            const detailRequests = jobsToProcess.map(job => new Request({
-                url: job.url,
-                label: 'JOB_DETAIL',
-                userData: {
-                    label: 'JOB_DETAIL' as const,
-                    jobBasic: job,
-                },
-            }));
-
-            await crawler.addRequests(detailRequests);
-            log.info(`Added ${detailRequests.length} job detail requests`);
-        } else {
-            // Save basic job data directly
-            for (const job of jobsToProcess) {
-                await Dataset.pushData({
-                    ...job,
-                    scrapedAt: new Date().toISOString(),
-                });
+            // A full search still merges jobs other searches collected, but collects no new ones
+            if (!shouldContinue(searchName) && !registry.has(parsedJob)) {
+                if (!stopped) recordStop(chain, searchName, request);
+                stopped = true;
+                continue;
+            }
+
+            lifecycleTracker?.markSeen(parsedJob, searchName);
+
+            // In incremental mode, skip jobs unchanged since the last run
+            if (seenJobs && !seenJobs.shouldEmit(getJobKey(parsedJob), job.modifiedDate)) {
+                continue;
             }
-            log.info(`Saved ${jobsToProcess.length} jobs without details`);
+
+            collectJob(parsedJob, searchName);
+            jobsCollected++;
         }
 
+        log.info(`Collected ${jobsCollected} jobs for "${searchName}"`);
+
         // Add next page request if there are more jobs
-        if (shouldContinue() && searchParams.page < totalPages) {
+        const lastPage = Math.min(totalPages, REQUEST_CONFIG.MAX_RESULT_PAGES);
+        if (!splitExhaustively && searchParams.page < lastPage) {
             const nextPage = searchParams.page + 1;
             const nextPageParams: SearchParams = {
                 ...searchParams,
                 page: nextPage,
             };
-
-            await crawler.addRequests([new Request({
-                url: `${DICE_API_URL}?page=${nextPage}`,
-                label: 'SEARCH_API',
-                userData: {
-                    label: 'SEARCH_API' as const,
-                    page: nextPage,
-                    searchParams: nextPageParams,
-                },
-                uniqueKey: `search-page-${nextPage}`,
-            })]);
-
-            log.info(`Added request for page ${nextPage}`);
+            const nextRequest = createSearchApiRequest(
+                searchName,
+                nextPageParams,
+                userData.partition
+            );
+
+            if (shouldContinue(searchName)) {
+                await crawler.addRequests([nextRequest]);
+                log.info(`Added request for page ${nextPage}`);
+            } else if (!stopped) {
+                recordStop(chain, searchName, nextRequest);
+            }
         }
     } catch (error) {
         log.error('Error fetching search results from API', { error });
@@ -152,127 +621,246 @@ router.addHandler<RequestUserData>('SEARCH_API', async ({ request, sendRequest,
 /**
  * Handle HTML search page (fallback)
  */
-router.addHandler<RequestUserData>('SEARCH', async ({ request, $, crawler }) => {
+router.addHandler<RequestUserData>('SEARCH', async ({ request, $, crawler }) =>
+    handleSearchPage({ request, $, addRequests: requests => crawler.addRequests(requests) })
+);
+
+/**
+ * Collect the job cards of an HTML search page and queue its next page. Pages
+ * without cards go to the browser crawler when the browser fallback is on.
+ */
+export async function handleSearchPage(context: PageContext): Promise<void> {
+    const { request, $, rendered } = context;
     const userData = request.userData;
     const page = userData.page || 1;
+    const searchName = userData.searchName || DEFAULT_SEARCH_NAME;
+
+    const chainUrl = new URL(request.url);
+    chainUrl.searchParams.delete('page');
+    const chain = `html-${searchName}-${chainUrl.toString()}`;
 
-    log.info(`Processing HTML search page ${page}`, { url: request.url });
+    log.info(`Processing HTML search page ${page} for "${searchName}"`, { url: request.url });
 
-    if (!shouldContinue()) {
+    if (!shouldContinue(searchName)) {
         log.info('Max jobs limit reached, stopping');
+        recordStop(chain, searchName, request);
         return;
     }
 
+    recordSelectorHits('search', selector => $(selector).length > 0);
+
     // Extract job cards from search results
     const jobCards = $('div[data-cy="card"], div.card-job');
 
     if (jobCards.length === 0) {
+        if (browserFallback && !rendered) {
+            log.info('No job cards in the HTML, rendering the page in the browser', {
+                url: request.url,
+            });
+            queueForBrowser(request);
+            return;
+        }
+
         log.warning('No job cards found on page', { url: request.url });
         return;
     }
 
     log.info(`Found ${jobCards.length} job cards on page ${page}`);
 
-    const jobsToProcess: JobListingBasic[] = [];
-
+    let stopped = false;
     jobCards.each((_index, element) => {
-        if (!shouldContinue()) return false;
-
         const $card = $(element);
 
         const title = cleanText($card.find('a[data-cy="card-title-link"]').text());
-        const company = cleanText($card.find('a[data-cy="card-company-link"]').text());
+        const $companyLink = $card.find('a[data-cy="card-company-link"]');
+        const company = cleanText($companyLink.text());
+        const companyPageUrl = $companyLink.attr('href') || undefined;
+        const companyId = companyPageUrl ? parseCompanyReference(companyPageUrl) : null;
         const location = cleanText($card.find('span[data-cy="card-location"]').text());
         const salary = cleanText($card.find('span[data-cy="card-salary"]').text());
         const postedDate = cleanText($card.find('span[data-cy="card-posted-date"]').text());
+        const postedDateTimestamp = parsePostedDate(postedDate);
         const jobUrl = $card.find('a[data-cy="card-title-link"]').attr('href') || '';
 
         const fullUrl = jobUrl.startsWith('http') ? jobUrl : `https://www.dice.com${jobUrl}`;
-        const jobId = extractJobIdFromUrl(fullUrl) || `job-${Date.now()}-${_index}`;
+        const guid = extractJobIdFromUrl(fullUrl) || undefined;
+        const jobId = guid || `job-${Date.now()}-${_index}`;
 
         const job: JobListingBasic = {
             id: jobId,
+            guid,
             title,
             company,
             location,
             salary: salary || undefined,
-            postedDate,
+            ...normalizeSalary(salary),
+            postedDate: postedDate || undefined,
+            postedDateTimestamp,
             url: fullUrl,
+            companyId: companyId || undefined,
+            companyPageUrl,
             easyApply: $card.find('[data-cy="easyApplyBadge"]').length > 0,
         };
 
-        jobsToProcess.push(job);
-        jobsScraped++;
-    });
+        // A full search still merges jobs other searches collected, but collects no new ones
+        if (!shouldContinue(searchName) && !registry.has(job)) {
+            if (!stopped) recordStop(chain, searchName, request);
+            stopped = true;
+            return;
+        }
 
-    // Process jobs
-    if (scrapeJobDetails && jobsToProcess.length > 0) {
-        const detailRequests = jobsToProcess.map(job => new Request({
-            url: job.url,
-            label: 'JOB_DETAIL',
-            userData: {
-                label: 'JOB_DETAIL' as const,
-                jobBasic: job,
-            },
-        }));
+        // Cards without a Dice job ID get a throwaway ID that cannot be tracked across runs
+        if (guid) lifecycleTracker?.markSeen(job, searchName);
 
-        await crawler.addRequests(detailRequests);
-    } else {
-        for (const job of jobsToProcess) {
-            await Dataset.pushData({
-                ...job,
-                scrapedAt: new Date().toISOString(),
-            });
-        }
-    }
+        // In incremental mode, skip jobs already seen in a previous run
+        if (seenJobs && !seenJobs.shouldEmit(jobId)) return;
+
+        collectJob(job, searchName);
+    });
 
     // Check for next page
     const nextButton = $('button[data-cy="pagination-next"]:not([disabled])');
-    if (shouldContinue() && nextButton.length > 0) {
+    if (nextButton.length > 0) {
         const nextPage = page + 1;
         const nextUrl = new URL(request.url);
         nextUrl.searchParams.set('page', nextPage.toString());
 
-        await crawler.addRequests([new Request({
+        // Pages found in the browser are rendered there too
+        const nextRequest = new Request({
             url: nextUrl.toString(),
             label: 'SEARCH',
             userData: {
                 label: 'SEARCH' as const,
                 page: nextPage,
+                searchName,
             },
-        })]);
+            uniqueKey: rendered ? `browser-${nextUrl.toString()}` : undefined,
+        });
+
+        if (shouldContinue(searchName)) {
+            await context.addRequests([nextRequest]);
+        } else if (!stopped) {
+            recordStop(chain, searchName, nextRequest);
+        }
     }
-});
+}
 
 /**
  * Handle job detail page requests
  */
-router.addHandler<RequestUserData>('JOB_DETAIL', async ({ request, $, response }) => {
+router.addHandler<RequestUserData>('JOB_DETAIL', async ({ request, $, response, crawler }) =>
+    handleJobDetailPage({
+        request,
+        $,
+        statusCode: response.statusCode,
+        addRequests: requests => crawler.addRequests(requests),
+    })
+);
+
+/**
+ * Extract and save a job detail page. Pages without the job in the HTML, or
+ * whose extraction failed, go to the browser crawler when the browser fallback is on.
+ */
+export async function handleJobDetailPage(context: PageContext): Promise<void> {
+    const { request, $, rendered } = context;
     const userData = request.userData;
     const jobBasic = userData.jobBasic;
 
     log.info(`Processing job detail: ${jobBasic?.title || 'Unknown'}`, { url: request.url });
 
+    // Postings taken down since the search phase are closed, not saved
+    if (isRemovedPosting(context.statusCode, $('body').text())) {
+        const jobKey = jobBasic ? getJobKey(jobBasic) : extractJobIdFromUrl(request.url);
+        log.info(`Job is no longer available: ${request.url}`);
+        if (jobKey) {
+            lifecycleTracker?.markRemoved(jobKey);
+            await releaseJob(jobKey);
+        }
+        return;
+    }
+
+    if (browserFallback && !rendered && isUnrenderedDetailPage($)) {
+        log.info('Job is not in the HTML, rendering the page in the browser', {
+            url: request.url,
+        });
+        queueForBrowser(request);
+        return;
+    }
+
+    recordSelectorHits('detail', selector => $(selector).length > 0);
+
     try {
         // Try to extract job details from the page
         const jobDetail = extractJobDetails($, jobBasic, request.url);
 
         // Save the job data
-        await Dataset.pushData(jobDetail);
+        await saveJobs([jobDetail]);
 
         log.debug(`Saved job: ${jobDetail.title}`, { id: jobDetail.id });
     } catch (error) {
         log.error(`Error processing job detail: ${request.url}`, { error });
 
-        // Save basic data if detail extraction fails
-        if (jobBasic) {
-            await Dataset.pushData({
-                ...jobBasic,
-                scrapedAt: new Date().toISOString(),
-                error: 'Failed to extract full details',
-            });
+        // Try the rendered page before giving up on the details
+        if (browserFallback && !rendered) {
+            queueForBrowser(request);
+            return;
         }
+
+        // Save basic data if detail extraction fails
+        if (jobBasic) await saveJobWithoutDetails(jobBasic);
     }
+}
+
+/**
+ * Save a job with its search data only, when its detail page could not be extracted
+ */
+export async function saveJobWithoutDetails(jobBasic: JobListingBasic): Promise<void> {
+    await saveJobs([
+        {
+            ...jobBasic,
+            ...classifySeniority({ title: jobBasic.title, description: jobBasic.summary }),
+            scrapedAt: new Date().toISOString(),
+            error: 'Failed to extract full details',
+        },
+    ]);
+}
+
+/**
+ * Handle company profile pages: cache the profile for job enrichment and save it
+ * to the company dataset
+ */
+router.addHandler<RequestUserData>('COMPANY', async ({ request, $ }) => {
+    const companyId = request.userData.companyId || parseCompanyReference(request.url) || '';
+
+    log.info(`Processing company page: ${companyId}`, { url: request.url });
+
+    // JSON-LD Organization data takes priority over CSS selectors
+    const scripts: EmbeddedScript[] = $('script[type="application/ld+json"]')
+        .map((_i, el) => ({ type: $(el).attr('type'), content: $(el).html() || '' }))
+        .get();
+    const structured = extractStructuredCompanyData(scripts) || {};
+
+    const text = (selector: string) => cleanText($(selector).first().text()) || undefined;
+    const openJobs = text(COMPANY_SELECTORS.OPEN_JOBS)?.replace(/[^\d]/g, '');
+
+    const profile: CompanyProfile = {
+        companyId,
+        name: structured.name || text(COMPANY_SELECTORS.NAME) || companyId,
+        url: request.url,
+        description: structured.description || text(COMPANY_SELECTORS.DESCRIPTION),
+        website: structured.website || $(COMPANY_SELECTORS.WEBSITE).attr('href'),
+        size: structured.size || text(COMPANY_SELECTORS.SIZE),
+        industry: structured.industry || text(COMPANY_SELECTORS.INDUSTRY),
+        headquarters: structured.headquarters || text(COMPANY_SELECTORS.HEADQUARTERS),
+        logo: structured.logo || $(COMPANY_SELECTORS.LOGO).attr('src'),
+        openJobs: openJobs ? parseInt(openJobs, 10) : undefined,
+        scrapedAt: new Date().toISOString(),
+    };
+
+    companyCache?.add(profile);
+
+    const dataset = await Dataset.open(companyDatasetName);
+    await dataset.pushData(profile);
 });
 
 /**
@@ -290,125 +878,297 @@ function extractJobDetails(
     jobBasic: JobListingBasic | undefined,
     url: string
 ): JobListingFull {
+    const fieldSources: FieldSources = {};
+
+    // Embedded JSON-LD and Next.js/hydration data take priority over CSS selectors
+    const scripts: EmbeddedScript[] = $(
+        'script[type="application/ld+json"], script#__NEXT_DATA__, script[type="application/json"]'
+    )
+        .map((_i, el) => ({
+            id: $(el).attr('id'),
+            type: $(el).attr('type'),
+            content: $(el).html() || '',
+        }))
+        .get();
+    const structured = extractStructuredJobData(scripts);
+
+    /**
+     * Resolve a field from embedded data first, then the given fallbacks
+     */
+    const resolve = <K extends keyof JobListingFull>(
+        field: K,
+        ...fallbacks: FieldCandidate<JobListingFull[K]>[]
+    ): JobListingFull[K] | undefined =>
+        resolveField(fieldSources, field, [
+            ...structured.map(
+                data => [data.source, data.fields[field]] as FieldCandidate<JobListingFull[K]>
+            ),
+            ...fallbacks,
+        ]);
+
     // Extract title
-    const title = cleanText($(SELECTORS.JOB_TITLE).text()) ||
-        cleanText($('h1').first().text()) ||
-        jobBasic?.title ||
-        'Unknown Title';
+    const title =
+        resolve(
+            'title',
+            [
+                'selector',
+                cleanText($(SELECTORS.JOB_TITLE).text()) || cleanText($('h1').first().text()),
+            ],
+            ['search', jobBasic?.title]
+        ) || 'Unknown Title';
 
     // Extract company
-    const company = cleanText($(SELECTORS.COMPANY_NAME).text()) ||
-        jobBasic?.company ||
-        'Unknown Company';
+    const company =
+        resolve(
+            'company',
+            ['selector', cleanText($(SELECTORS.COMPANY_NAME).text())],
+            ['search', jobBasic?.company]
+        ) || 'Unknown Company';
 
     // Extract location
-    const location = cleanText($(SELECTORS.LOCATION).text()) ||
-        cleanText($('li:contains("Location")').text().replace('Location', '')) ||
-        jobBasic?.location ||
-        'Unknown Location';
+    const location =
+        resolve(
+            'location',
+            [
+                'selector',
+                cleanText($(SELECTORS.LOCATION).text()) ||
+                    cleanText($('li:contains("Location")').text().replace('Location', '')),
+            ],
+            ['search', jobBasic?.location]
+        ) || 'Unknown Location';
+
+    // Extract salary: structured salary first, else the more confident of page text and search data
+    const salaryText = cleanText($(SELECTORS.SALARY).text());
+    const structuredSalary = structured.find(data => data.salary);
+    let salaryData: NormalizedSalary | null;
+
+    if (structuredSalary?.salary) {
+        salaryData = structuredSalary.salary;
+        fieldSources.salary = structuredSalary.source;
+    } else {
+        const pageSalary = normalizeSalary(salaryText);
+        salaryData = bestSalary(pageSalary, jobBasic);
+        if (salaryData) {
+            fieldSources.salary =
+                salaryData.salaryText === pageSalary?.salaryText ? 'selector' : 'search';
+        }
+    }
 
-    // Extract salary
-    let salary = cleanText($(SELECTORS.SALARY).text()) || jobBasic?.salary;
-    const salaryData = parseSalaryFromText(salary || '');
+    const salary =
+        salaryText ||
+        jobBasic?.salary ||
+        formatSalary(
+            salaryData
+                ? {
+                      minValue: salaryData.salaryMin,
+                      maxValue: salaryData.salaryMax,
+                      currency: salaryData.salaryCurrency,
+                      unitText: salaryData.salaryPeriod,
+                  }
+                : undefined
+        );
 
     // Extract job type and employment type
-    const jobType = cleanText($(SELECTORS.JOB_TYPE).text()) ||
-        jobBasic?.jobType;
-
-    const workplaceType = cleanText($(SELECTORS.WORKPLACE_TYPE).text()) ||
-        jobBasic?.workplaceType;
-
-    // Extract posted date
-    const postedDate = cleanText($(SELECTORS.POSTED_DATE).text().replace('Posted', '').trim()) ||
-        jobBasic?.postedDate ||
-        'Unknown';
+    const jobType = resolve(
+        'jobType',
+        ['selector', cleanText($(SELECTORS.JOB_TYPE).text())],
+        ['search', jobBasic?.jobType]
+    );
+
+    const employmentType = resolve('employmentType', ['search', jobBasic?.employmentType]);
+
+    const workplaceType = resolve(
+        'workplaceType',
+        ['selector', cleanText($(SELECTORS.WORKPLACE_TYPE).text())],
+        ['search', jobBasic?.workplaceType]
+    );
+
+    // Extract posted, updated and expiry dates; relative page dates resolve against now
+    const postedText = cleanText($(SELECTORS.POSTED_DATE).text());
+    const postedDate = resolve(
+        'postedDate',
+        ['selector', cleanText(postedText.replace(/^posted\s*/i, ''))],
+        ['search', jobBasic?.postedDate]
+    );
+
+    // An exact search timestamp beats one resolved from "Posted 2 days ago"
+    const postedDateTimestamp = resolve(
+        'postedDateTimestamp',
+        ['search', jobBasic?.postedDateTimestamp],
+        ['selector', parsePostedDate(postedText)]
+    );
+
+    const updatedAt = resolve('updatedAt', ['search', jobBasic?.updatedAt]);
+
+    const expiresAt = resolve('expiresAt');
 
     // Extract description
     const descriptionElement = $(SELECTORS.DESCRIPTION);
-    const descriptionHtml = descriptionElement.html() || '';
-    const description = cleanText(descriptionElement.text());
+    const descriptionHtml =
+        resolve('descriptionHtml', ['selector', descriptionElement.html()]) || '';
+    const description =
+        resolve('description', ['selector', cleanText(descriptionElement.text())]) || '';
+
+    // Split the description into responsibilities, qualifications, benefits, ...
+    // Plain text is passed with its line breaks, which mark its headings and items
+    const sections = analyzeDescription(
+        descriptionHtml || descriptionElement.text() || description
+    );
+    const responsibilities = resolve('responsibilities', [
+        'description',
+        sections.responsibilities,
+    ]);
+    const requirements = resolve('requirements', ['description', sections.requirements]);
+    const preferredQualifications = resolve('preferredQualifications', [
+        'description',
+        sections.preferredQualifications,
+    ]);
 
     // Extract skills
     const skillElements = $(SELECTORS.SKILLS);
-    const skills: string[] = [];
+    const pageSkills: string[] = [];
     skillElements.each((_i, el) => {
         const skill = cleanText($(el).text());
-        if (skill && !skills.includes(skill)) {
-            skills.push(skill);
+        if (skill && !pageSkills.includes(skill)) {
+            pageSkills.push(skill);
         }
     });
 
-    // Also extract skills from description
-    const extractedSkills = extractSkills(description);
-    extractedSkills.forEach(skill => {
-        if (!skills.includes(skill)) {
-            skills.push(skill);
-        }
-    });
+    // Canonicalize listed skills, then add the ones mentioned in the description
+    const listedSkills = skillTaxonomy.normalize(resolve('skills', ['selector', pageSkills]) || []);
+    const { skills, skillsByCategory } = skillTaxonomy.merge(
+        listedSkills,
+        skillTaxonomy.extract(description)
+    );
+    if (!fieldSources.skills && skills.length > 0) fieldSources.skills = 'description';
 
     // Extract experience level
-    const experienceLevel = cleanText($(SELECTORS.EXPERIENCE_LEVEL).text()) ||
-        extractExperienceLevel(description);
+    const experienceLevel = resolve(
+        'experienceLevel',
+        ['selector', cleanText($(SELECTORS.EXPERIENCE_LEVEL).text())],
+        ['description', extractExperienceLevel(description)]
+    );
+
+    // Years of experience and seniority. The experience level only counts when the page
+    // states it (the description heuristic picks up any "manager" or "senior"), and
+    // years are read from the requirements when the description has them.
+    const experience = classifySeniority({
+        title,
+        experienceLevel:
+            fieldSources.experienceLevel === 'description'
+                ? undefined
+                : experienceLevel || undefined,
+        description:
+            sections.requirements.length > 0 ? sections.requirements.join('\n') : description,
+    });
 
     // Extract education level
-    const educationLevel = cleanText($(SELECTORS.EDUCATION_LEVEL).text()) ||
-        extractEducationLevel(description);
+    const educationLevel = resolve(
+        'educationLevel',
+        ['selector', cleanText($(SELECTORS.EDUCATION_LEVEL).text())],
+        ['description', extractEducationLevel(description)]
+    );
 
     // Extract benefits
-    const benefits: string[] = [];
+    const pageBenefits: string[] = [];
     $(SELECTORS.BENEFITS).each((_i, el) => {
         const benefit = cleanText($(el).text());
-        if (benefit) benefits.push(benefit);
+        if (benefit) pageBenefits.push(benefit);
     });
+    const benefits = resolve(
+        'benefits',
+        ['selector', pageBenefits],
+        ['description', sections.benefits]
+    );
+
+    // Extract company details
+    const companyDescription = resolve(
+        'companyDescription',
+        ['selector', cleanText($(SELECTORS.COMPANY_DESCRIPTION).text())],
+        ['description', sections.about.join(' ')]
+    );
+
+    const companyWebsite = resolve('companyWebsite');
 
-    // Extract company description
-    const companyDescription = cleanText($(SELECTORS.COMPANY_DESCRIPTION).text());
+    const companyLogo = resolve('companyLogo', ['selector', $(SELECTORS.COMPANY_LOGO).attr('src')]);
 
-    // Extract company logo
-    const companyLogo = $(SELECTORS.COMPANY_LOGO).attr('src') || undefined;
+    const industry = resolve('industry');
 
     // Check for easy apply
-    const easyApply = $(SELECTORS.EASY_APPLY_BADGE).length > 0 || jobBasic?.easyApply;
+    const easyApply = resolve(
+        'easyApply',
+        ['selector', $(SELECTORS.EASY_APPLY_BADGE).length > 0 || undefined],
+        ['search', jobBasic?.easyApply]
+    );
 
     // Extract application URL
     const applyButton = $(SELECTORS.APPLY_BUTTON);
-    const applicationUrl = applyButton.attr('href') || undefined;
+    const applicationUrl = resolve('applicationUrl', ['selector', applyButton.attr('href')]);
 
     // Build the full job listing
     const jobDetail: JobListingFull = {
         id: jobBasic?.id || extractJobIdFromUrl(url) || `job-${Date.now()}`,
+        guid: jobBasic?.guid || extractJobIdFromUrl(url) || undefined,
         title,
         company,
         companyId: jobBasic?.companyId,
         location,
         salary,
-        salaryMin: salaryData?.min || jobBasic?.salaryMin,
-        salaryMax: salaryData?.max || jobBasic?.salaryMax,
-        salaryCurrency: salaryData?.currency || jobBasic?.salaryCurrency || 'USD',
-        salaryPeriod: salaryData?.period || jobBasic?.salaryPeriod,
+        ...salaryData,
+        salaryCurrency: salaryData?.salaryCurrency || jobBasic?.salaryCurrency || 'USD',
         jobType,
-        employmentType: jobBasic?.employmentType,
+        employmentType,
         workplaceType,
         postedDate,
-        postedDateTimestamp: jobBasic?.postedDateTimestamp,
+        postedDateTimestamp,
+        updatedAt,
+        expiresAt,
         url,
         easyApply,
         summary: jobBasic?.summary,
+        searchNames: jobBasic?.searchNames,
         description,
         descriptionHtml: descriptionHtml.length < 50000 ? descriptionHtml : undefined,
+        responsibilities,
+        requirements,
+        preferredQualifications,
         skills: skills.length > 0 ? skills : undefined,
+        skillsByCategory: Object.keys(skillsByCategory).length > 0 ? skillsByCategory : undefined,
         experienceLevel: experienceLevel || undefined,
+        ...experience,
         educationLevel: educationLevel || undefined,
-        benefits: benefits.length > 0 ? benefits : undefined,
-        companyDescription: companyDescription || undefined,
+        benefits,
+        industry,
+        companyDescription,
+        companyWebsite,
         companyLogo,
         applicationUrl,
+        fieldSources,
         scrapedAt: new Date().toISOString(),
     };
 
     return jobDetail;
 }
 
+/**
+ * Take the first non-empty candidate for a field and record which extractor produced it
+ */
+function resolveField<K extends keyof JobListingFull>(
+    fieldSources: FieldSources,
+    field: K,
+    candidates: FieldCandidate<JobListingFull[K]>[]
+): JobListingFull[K] | undefined {
+    for (const [source, value] of candidates) {
+        if (value === undefined || value === null || value === '') continue;
+        if (Array.isArray(value) && value.length === 0) continue;
+
+        fieldSources[field] = source;
+        return value;
+    }
+
+    return undefined;
+}
+
 /**
  * Extract experience level from text
  */
@@ -0,0 +1,144 @@
+import type { JobListingFull, JobRule, RuleStats } from './types.js';
+
+/**
+ * Check a job against one rule: every condition the rule sets must match
+ */
+export function matchesJobRule(job: JobListingFull, rule: JobRule): boolean {
+    if (rule.keywords) {
+        const text = keywordText(job, rule.keywordsIn);
+        if (!rule.keywords.some(keyword => keywordPattern(keyword).test(text))) return false;
+    }
+
+    if (rule.companies) {
+        const company = (job.company || '').toLowerCase();
+        if (!rule.companies.some(name => company.includes(name.toLowerCase()))) return false;
+    }
+
+    if (rule.minSalaryAnnual !== undefined) {
+        const salary = job.salaryMaxAnnual ?? job.salaryMinAnnual;
+        if (salary === undefined || salary < rule.minSalaryAnnual) return false;
+    }
+
+    if (rule.skills) {
+        const skills = new Set((job.skills || []).map(skill => skill.toLowerCase()));
+        if (!rule.skills.every(skill => skills.has(skill.toLowerCase()))) return false;
+    }
+
+    if (rule.employmentTypes) {
+        const types = [job.employmentType, job.jobType].filter(Boolean).map(normalizeType);
+        const wanted = rule.employmentTypes.map(normalizeType);
+        if (!types.some(type => wanted.some(code => type.includes(code)))) return false;
+    }
+
+    if (rule.workplaceTypes) {
+        const workplaceType = (job.workplaceType || '').toLowerCase();
+        if (!rule.workplaceTypes.some(type => workplaceType.includes(type.toLowerCase()))) {
+            return false;
+        }
+    }
+
+    if (rule.seniority && (!job.seniority || !rule.seniority.includes(job.seniority))) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Post-scrape filtering and scoring. 'require' and 'exclude' rules drop jobs,
+ * 'score' rules add their weight to the job's matchScore, and jobs scoring
+ * below the threshold are dropped.
+ */
+export class JobRulesEngine {
+    private readonly rules: (JobRule & { name: string })[];
+    private readonly stats: RuleStats = {
+        evaluated: 0,
+        saved: 0,
+        belowThreshold: 0,
+        droppedByRule: {},
+    };
+
+    constructor(
+        rules: JobRule[],
+        private readonly minMatchScore?: number
+    ) {
+        this.rules = rules.map((rule, index) => ({
+            ...rule,
+            name: rule.name ?? `rule-${index + 1}`,
+        }));
+    }
+
+    /**
+     * The job with its matchScore and matched rules, or null when it is dropped
+     */
+    apply(job: JobListingFull): JobListingFull | null {
+        this.stats.evaluated++;
+
+        let matchScore = 0;
+        const matchedRules: string[] = [];
+
+        for (const rule of this.rules) {
+            const matches = matchesJobRule(job, rule);
+            const { action } = rule;
+
+            if ((action === 'require' && !matches) || (action === 'exclude' && matches)) {
+                this.stats.droppedByRule[rule.name] =
+                    (this.stats.droppedByRule[rule.name] ?? 0) + 1;
+                return null;
+            }
+
+            if (matches) {
+                matchedRules.push(rule.name);
+                if (action === 'score') matchScore += rule.weight;
+            }
+        }
+
+        if (this.minMatchScore !== undefined && matchScore < this.minMatchScore) {
+            this.stats.belowThreshold++;
+            return null;
+        }
+
+        this.stats.saved++;
+        return { ...job, matchScore, matchedRules };
+    }
+
+    /**
+     * Counts of evaluated, saved and dropped jobs
+     */
+    getStats(): RuleStats {
+        return { ...this.stats, droppedByRule: { ...this.stats.droppedByRule } };
+    }
+
+    /**
+     * Continue from the counts saved before a restart
+     */
+    restore(stats: RuleStats): void {
+        Object.assign(this.stats, stats, { droppedByRule: { ...stats.droppedByRule } });
+    }
+}
+
+/**
+ * Text searched for a rule's keywords
+ */
+function keywordText(job: JobListingFull, field: JobRule['keywordsIn']): string {
+    const description = job.description ?? job.summary ?? '';
+    if (field === 'title') return job.title;
+    if (field === 'description') return description;
+    return `${job.title}\n${description}`;
+}
+
+/**
+ * Case-insensitive whole-word pattern for a keyword ("Go" does not match "Google")
+ */
+function keywordPattern(keyword: string): RegExp {
+    const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\w+#])${escaped}(?![\\w+#])`, 'i');
+}
+
+/**
+ * Employment type as bare uppercase letters ("Full-time" and FULLTIME,
+ * "Third Party" and THIRD_PARTY compare equal)
+ */
+function normalizeType(type?: string): string {
+    return (type || '').toUpperCase().replace(/[^A-Z]/g, '');
+}
@@ -0,0 +1,381 @@
+import type { DiceSearchJob, NormalizedSalary, SalaryPeriod, SalaryTaxTerm } from './types.js';
+import { ANNUAL_PERIOD_FACTORS, HOURS_PER_YEAR } from './constants.js';
+
+// Currency markers, checked in order (multi-character markers first)
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+    [/\b(?:CA|C)\$|\bCAD\b/i, 'CAD'],
+    [/\b(?:AU|A)\$|\bAUD\b/i, 'AUD'],
+    [/\bSGD\b|\bS\$/i, 'SGD'],
+    [/\bMXN\b/i, 'MXN'],
+    [/£|\bGBP\b/i, 'GBP'],
+    [/€|\bEUR\b/i, 'EUR'],
+    [/₹|\bINR\b|\bRs\.?(?=\s*\d)|\blakhs?\b|\blacs?\b|\bLPA\b/i, 'INR'],
+    [/¥|\bJPY\b/i, 'JPY'],
+    [/\bCHF\b/i, 'CHF'],
+    [/\$|\bUSD\b/i, 'USD'],
+];
+
+// Pay period markers
+const PERIOD_PATTERNS: [RegExp, SalaryPeriod][] = [
+    [/\bhourly\b|\b(?:per|an|a)\s+hour\b|\bhours?\b|\bhrs?\b|\/\s*h\b/gi, 'hour'],
+    [/\bdaily\b|\b(?:per|a)\s+day\b|\bday\b|\/\s*d\b/gi, 'day'],
+    [/\bweekly\b|\b(?:per|a)\s+week\b|\bweek\b|\bwk\b/gi, 'week'],
+    [/\bmonthly\b|\b(?:per|a)\s+month\b|\bmonth\b|\bmth\b|\bmo\b/gi, 'month'],
+    [
+        /\bannual(?:ly)?\b|\bper\s+annum\b|\byearly\b|\b(?:per|a)\s+year\b|\byear\b|\byrs?\b|\bp\.?a\.?(?=\s|$)|\bLPA\b|\/\s*y\b/gi,
+        'year',
+    ],
+];
+
+// Text that says the salary is not fixed
+const NEGOTIABLE_PATTERN =
+    /\bDOE\b|\bdepend(?:s|ing)?\s+on\s+(?:experience|qualifications)\b|\bcommensurate\s+with\b|\bnegotiable\b|\bcompetitive\b|\bTBD\b/i;
+
+const TAX_TERM_PATTERNS: [RegExp, SalaryTaxTerm][] = [
+    [/\bC2C\b|\bcorp[\s-]+to[\s-]+corp\b|\bC2H\b/i, 'C2C'],
+    [/\b1099\b/i, '1099'],
+    [/\bW-?2\b/i, 'W2'],
+];
+
+// Number-like tokens that are not amounts and must be removed before parsing
+const NON_AMOUNT_PATTERNS = [
+    /\b401\s*\(?k\)?/gi,
+    /\bW-?2\b/gi,
+    /\b1099\b/gi,
+    /\bC2[CH]\b/gi,
+    /\b\d+\+?\s*(?:years?|yrs?)\b/gi,
+    /\b\d+\s*(?:hours?|hrs?)\s*(?:\/|per|a)\s*(?:week|wk)\b/gi,
+    /\b\d+(?:\.\d+)?\s*%/g,
+    // Contract lengths ("12 month contract", "6+ months"), but not amounts like "$5000 month"
+    /(?<![$\d.,])\b\d+\+?[\s-]*(?:months?|mos?|weeks?|wks?)\b/gi,
+];
+
+// Range bounds further apart than this are not one range: the smaller number is
+// something else ("Team of 8, $120K")
+const MAX_RANGE_RATIO = 10;
+
+const AMOUNT_PATTERN =
+    /(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s*(k|m|lakhs?|lacs?|LPA)?(?![\w])/gi;
+const UP_TO_PATTERN = /\bup\s+to\b|\bmax(?:imum)?\b|\bas\s+high\s+as\b|\bunder\b/i;
+const FROM_PATTERN =
+    /\bfrom\b|\bstarting(?:\s+at)?\b|\bmin(?:imum)?\b|\bat\s+least\b|\d\s*[kK]?\s*\+/i;
+
+// Dice API unit texts
+const UNIT_TEXT_PERIODS: Record<string, SalaryPeriod> = {
+    HOUR: 'hour',
+    DAY: 'day',
+    WEEK: 'week',
+    MONTH: 'month',
+    YEAR: 'year',
+};
+
+// Confidence given to Dice's own salary estimates
+const ESTIMATE_CONFIDENCE = 0.8;
+
+interface ParsedAmount {
+    value: number;
+    suffix?: string;
+    index: number;
+}
+
+/**
+ * Normalize free-form salary text (e.g. "$60-70/hr on W2", "Up to 150K", "DOE")
+ * into annual and hourly equivalents with a confidence score between 0 and 1.
+ * Returns null when the text carries no salary information.
+ */
+export function normalizeSalary(text: string): NormalizedSalary | null {
+    const rawText = text?.trim();
+    if (!rawText) return null;
+
+    const negotiable = NEGOTIABLE_PATTERN.test(rawText);
+    const taxTerm = detectTaxTerm(rawText);
+
+    let cleaned = rawText;
+    for (const pattern of NON_AMOUNT_PATTERNS) {
+        cleaned = cleaned.replace(pattern, ' ');
+    }
+
+    const amounts = parseAmounts(cleaned);
+    let confidence = 1;
+
+    // Keep only the larger of two bounds that are implausibly far apart
+    if (amounts.length >= 2) {
+        const [smaller, larger] = amounts.slice(0, 2).sort((a, b) => a.value - b.value);
+        if (larger.value > smaller.value * MAX_RANGE_RATIO) {
+            amounts.splice(amounts.indexOf(smaller), 1);
+            confidence -= 0.2;
+        }
+    }
+
+    if (amounts.length === 0) {
+        if (!negotiable) return null;
+        return {
+            salaryConfidence: 0,
+            salaryText: rawText,
+            salaryNegotiable: true,
+            salaryTaxTerm: taxTerm,
+        };
+    }
+
+    // Range, single upper/lower bound, or exact value
+    let min: number | undefined;
+    let max: number | undefined;
+
+    if (amounts.length >= 2) {
+        [min, max] = [amounts[0].value, amounts[1].value].sort((a, b) => a - b);
+    } else if (UP_TO_PATTERN.test(cleaned)) {
+        max = amounts[0].value;
+        confidence -= 0.1;
+    } else if (FROM_PATTERN.test(cleaned)) {
+        min = amounts[0].value;
+        confidence -= 0.1;
+    } else {
+        min = amounts[0].value;
+        max = amounts[0].value;
+    }
+
+    // Currency
+    const currency = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(rawText))?.[1];
+    if (!currency) confidence -= 0.2;
+
+    // Pay period: explicit marker closest after the first amount, else inferred from magnitude
+    let period = detectPeriod(cleaned, amounts[0].index);
+    if (!period) {
+        period = inferPeriod(max ?? min ?? 0);
+        // Five-figure-plus amounts are almost always annual; small ones are ambiguous
+        confidence -= period === 'year' ? 0.15 : 0.3;
+    }
+
+    const salary = buildNormalizedSalary({
+        min,
+        max,
+        currency: currency || 'USD',
+        period,
+        confidence,
+        rawText,
+    });
+
+    if (
+        !isPlausibleAnnual(salary.salaryMaxAnnual ?? salary.salaryMinAnnual, salary.salaryCurrency)
+    ) {
+        salary.salaryConfidence = roundTo(Math.max(0, salary.salaryConfidence - 0.3), 2);
+    }
+
+    if (negotiable) salary.salaryNegotiable = true;
+    if (taxTerm) salary.salaryTaxTerm = taxTerm;
+
+    return salary;
+}
+
+/**
+ * Normalize a salary estimate object from the Dice search API (or the
+ * equivalent schema.org MonetaryAmount values of a JobPosting)
+ */
+export function normalizeSalaryEstimate(
+    estimate: DiceSearchJob['salaryEstimate'],
+    confidence: number = ESTIMATE_CONFIDENCE
+): NormalizedSalary | null {
+    if (!estimate || (!estimate.minValue && !estimate.maxValue)) return null;
+
+    const unit = estimate.unitText?.toUpperCase() || '';
+    const period =
+        UNIT_TEXT_PERIODS[unit] || inferPeriod(estimate.maxValue ?? estimate.minValue ?? 0);
+
+    return buildNormalizedSalary({
+        min: estimate.minValue || undefined,
+        max: estimate.maxValue || undefined,
+        currency: estimate.currency || 'USD',
+        period,
+        confidence: UNIT_TEXT_PERIODS[unit] ? confidence : confidence - 0.3,
+    });
+}
+
+/**
+ * Pick the most confident salary that carries at least one amount,
+ * falling back to a negotiable-only result when none do
+ */
+export function bestSalary(
+    ...candidates: (Partial<NormalizedSalary> | null | undefined)[]
+): NormalizedSalary | null {
+    let best: NormalizedSalary | null = null;
+    let fallback: NormalizedSalary | null = null;
+
+    for (const candidate of candidates) {
+        if (!candidate || candidate.salaryConfidence === undefined) continue;
+
+        const salary = pickSalaryFields(candidate as NormalizedSalary);
+        const hasAmount = salary.salaryMin !== undefined || salary.salaryMax !== undefined;
+
+        if (!hasAmount) {
+            fallback = fallback || salary;
+        } else if (!best || salary.salaryConfidence > best.salaryConfidence) {
+            best = salary;
+        }
+    }
+
+    if (best && !best.salaryText && fallback?.salaryText) {
+        best.salaryText = fallback.salaryText;
+    }
+
+    return best || fallback;
+}
+
+/**
+ * Copy only the normalized salary fields from a job or salary object
+ */
+export function pickSalaryFields(source: NormalizedSalary): NormalizedSalary {
+    return {
+        salaryMin: source.salaryMin,
+        salaryMax: source.salaryMax,
+        salaryCurrency: source.salaryCurrency,
+        salaryPeriod: source.salaryPeriod,
+        salaryMinAnnual: source.salaryMinAnnual,
+        salaryMaxAnnual: source.salaryMaxAnnual,
+        salaryMinHourly: source.salaryMinHourly,
+        salaryMaxHourly: source.salaryMaxHourly,
+        salaryConfidence: source.salaryConfidence,
+        salaryText: source.salaryText,
+        salaryNegotiable: source.salaryNegotiable,
+        salaryTaxTerm: source.salaryTaxTerm,
+    };
+}
+
+/**
+ * Find every amount in the text, applying k/m/lakh multipliers
+ */
+function parseAmounts(text: string): ParsedAmount[] {
+    const amounts: ParsedAmount[] = [];
+
+    for (const match of text.matchAll(AMOUNT_PATTERN)) {
+        const value = parseFloat(match[1].replace(/,/g, ''));
+        if (!value) continue;
+
+        amounts.push({
+            value: value * suffixMultiplier(match[2]),
+            suffix: match[2]?.toLowerCase(),
+            index: match.index ?? 0,
+        });
+    }
+
+    // "$100-120K": the suffix on the upper bound applies to the lower one too
+    if (amounts.length >= 2 && !amounts[0].suffix && amounts[1].suffix) {
+        const multiplier = suffixMultiplier(amounts[1].suffix);
+        if (amounts[0].value * multiplier <= amounts[1].value) {
+            amounts[0].value *= multiplier;
+            amounts[0].suffix = amounts[1].suffix;
+        }
+    }
+
+    return amounts;
+}
+
+/**
+ * Multiplier for an amount suffix
+ */
+function suffixMultiplier(suffix?: string): number {
+    if (!suffix) return 1;
+
+    const normalized = suffix.toLowerCase();
+    if (normalized === 'k') return 1000;
+    if (normalized === 'm') return 1000000;
+    return 100000; // lakh
+}
+
+/**
+ * Find the tax term mentioned first in the text (e.g. "W2" in "$60/hr W2, $70/hr C2C")
+ */
+function detectTaxTerm(text: string): SalaryTaxTerm | undefined {
+    let first: { term: SalaryTaxTerm; index: number } | undefined;
+
+    for (const [pattern, term] of TAX_TERM_PATTERNS) {
+        const index = text.search(pattern);
+        if (index >= 0 && (!first || index < first.index)) {
+            first = { term, index };
+        }
+    }
+
+    return first?.term;
+}
+
+/**
+ * Find the explicit pay period mentioned closest after the first amount
+ */
+function detectPeriod(text: string, fromIndex: number): SalaryPeriod | undefined {
+    let closest: { period: SalaryPeriod; distance: number } | undefined;
+
+    for (const [pattern, period] of PERIOD_PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+            const index = match.index ?? 0;
+            // Markers after the amount are preferred over markers before it
+            const distance =
+                index >= fromIndex ? index - fromIndex : text.length + fromIndex - index;
+            if (!closest || distance < closest.distance) {
+                closest = { period, distance };
+            }
+        }
+    }
+
+    return closest?.period;
+}
+
+/**
+ * Guess the pay period of an amount without an explicit marker
+ */
+function inferPeriod(value: number): SalaryPeriod {
+    if (value < 300) return 'hour';
+    if (value < 2000) return 'day';
+    if (value < 20000) return 'month';
+    return 'year';
+}
+
+/**
+ * Whether an annual amount looks like a realistic salary
+ */
+function isPlausibleAnnual(annual: number | undefined, currency?: string): boolean {
+    if (annual === undefined) return true;
+
+    // Currencies with small units (INR, JPY) get a wider upper bound
+    const upperBound = currency === 'INR' || currency === 'JPY' ? 1e9 : 2000000;
+    return annual >= 5000 && annual <= upperBound;
+}
+
+/**
+ * Build the normalized salary with annual and hourly equivalents
+ */
+function buildNormalizedSalary(options: {
+    min?: number;
+    max?: number;
+    currency: string;
+    period: SalaryPeriod;
+    confidence: number;
+    rawText?: string;
+}): NormalizedSalary {
+    const { min, max, currency, period, confidence, rawText } = options;
+    const factor = ANNUAL_PERIOD_FACTORS[period];
+
+    const toAnnual = (value?: number) =>
+        value === undefined ? undefined : Math.round(value * factor);
+    const toHourly = (value?: number) =>
+        value === undefined ? undefined : roundTo((value * factor) / HOURS_PER_YEAR, 2);
+
+    return {
+        salaryMin: min,
+        salaryMax: max,
+        salaryCurrency: currency,
+        salaryPeriod: period,
+        salaryMinAnnual: toAnnual(min),
+        salaryMaxAnnual: toAnnual(max),
+        salaryMinHourly: toHourly(min),
+        salaryMaxHourly: toHourly(max),
+        salaryConfidence: roundTo(Math.min(1, Math.max(0, confidence)), 2),
+        salaryText: rawText,
+    };
+}
+
+/**
+ * Round a number to a fixed number of decimals
+ */
+function roundTo(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,133 @@
+import type { DescriptionSectionName, DescriptionSections } from './types.js';
+import { cleanText } from './utils.js';
+
+// Heading cues for each section, checked in order ("Preferred Qualifications"
+// must not be taken for required ones, "Who we are" not for "Who you are")
+const SECTION_CUES: [DescriptionSectionName, RegExp][] = [
+    [
+        'preferredQualifications',
+        /\b(?:preferred|nice[\s-]to[\s-]haves?|bonus|desired|good[\s-]to[\s-]have|pluses|ideally)\b/i,
+    ],
+    ['benefits', /\b(?:benefits|perks|what we offer|we offer|compensation|why (?:join|work))\b/i],
+    ['about', /\b(?:about (?:us|the company|the team)|who we are|our company|company overview)\b/i],
+    [
+        'responsibilities',
+        /\b(?:responsibilit(?:y|ies)|duties|what you(?:'ll| will) (?:do|be doing)|day[\s-]to[\s-]day|the role|your role)\b/i,
+    ],
+    [
+        'requirements',
+        /\b(?:requirements?|qualifications?|required|must[\s-]haves?|what you(?:'ll| will)? (?:need|bring)|who you are|skills (?:and|&) experience|experience required)\b/i,
+    ],
+];
+
+// Items of a required-qualifications list that are actually preferred
+const PREFERRED_ITEM_CUE = /\b(?:preferred|a plus|nice[\s-]to[\s-]have|is a bonus|desired)\b/i;
+
+// Longest line still treated as a heading when it matches a section cue
+const MAX_HEADING_LENGTH = 60;
+
+// Inline heading followed by content on the same line ("Requirements: 5+ years of ...")
+const INLINE_HEADING = /^([^:]{3,40}):\s*(\S.*)$/;
+
+// Bullet characters starting list items in plain-text descriptions
+const TEXT_BULLET = /^(?:[•·▪◦*-]|\d{1,2}[.)])\s+/;
+
+// Private-use character marking heading and list-item lines while splitting
+const BLOCK_MARKER = '\uE000';
+
+// Line of the description: a heading, a list item or a paragraph
+interface DescriptionBlock {
+    type: 'heading' | 'item' | 'text';
+    text: string;
+}
+
+/**
+ * Split a job description into responsibilities, required and preferred
+ * qualifications, benefits and about-the-company text, using headings,
+ * lists and keyword cues. Accepts HTML or plain text.
+ */
+export function analyzeDescription(description: string): DescriptionSections {
+    const sections: DescriptionSections = {
+        responsibilities: [],
+        requirements: [],
+        preferredQualifications: [],
+        benefits: [],
+        about: [],
+    };
+
+    let current: DescriptionSectionName | null = null;
+
+    for (const block of splitBlocks(description)) {
+        let text = block.text;
+
+        if (block.type !== 'item') {
+            const inline = text.match(INLINE_HEADING);
+            const inlineSection = inline ? matchSection(inline[1]) : null;
+
+            if (inline && inlineSection) {
+                current = inlineSection;
+                text = inline[2];
+            } else if (block.type === 'heading' || isHeadingLike(text)) {
+                // Headings without a known cue end the current section
+                current = matchSection(text);
+                continue;
+            } else if (text.endsWith(':')) {
+                // Lead-in to a list ("Experience with:")
+                continue;
+            }
+        }
+
+        if (!current) continue;
+
+        // Keyword cues move items out of the required list
+        const section =
+            current === 'requirements' && PREFERRED_ITEM_CUE.test(text)
+                ? 'preferredQualifications'
+                : current;
+
+        if (!sections[section].includes(text)) sections[section].push(text);
+    }
+
+    return sections;
+}
+
+/**
+ * Section a heading introduces, if it matches one of the cues
+ */
+export function matchSection(heading: string): DescriptionSectionName | null {
+    const match = SECTION_CUES.find(([, cue]) => cue.test(heading));
+    return match ? match[0] : null;
+}
+
+/**
+ * Split HTML or plain text into headings, list items and paragraphs
+ */
+function splitBlocks(description: string): DescriptionBlock[] {
+    const marked = description
+        .replace(/<h[1-6]\b[^>]*>/gi, `\n${BLOCK_MARKER}H`)
+        .replace(/<li\b[^>]*>\s*(?:<(?:p|div|span)\b[^>]*>\s*)*/gi, `\n${BLOCK_MARKER}L`)
+        .replace(/<\/(?:h[1-6]|li|p|div|ul|ol|tr)>|<(?:p|div|ul|ol|tr|br)\b[^>]*>/gi, '\n');
+
+    return marked
+        .split('\n')
+        .map((line): DescriptionBlock => {
+            const marker = line.startsWith(BLOCK_MARKER) ? line.slice(0, 2) : '';
+            const text = cleanText(line.slice(marker.length));
+
+            if (marker === `${BLOCK_MARKER}H`) return { type: 'heading', text };
+            if (marker === `${BLOCK_MARKER}L`) return { type: 'item', text };
+
+            return TEXT_BULLET.test(text)
+                ? { type: 'item', text: text.replace(TEXT_BULLET, '') }
+                : { type: 'text', text };
+        })
+        .filter(block => block.text.length > 0);
+}
+
+/**
+ * Check whether a paragraph reads like a heading: short, matching a section cue
+ * and not a sentence ("<p><strong>Benefits:</strong></p>")
+ */
+function isHeadingLike(text: string): boolean {
+    return text.length <= MAX_HEADING_LENGTH && matchSection(text) !== null && !/[.!?]$/.test(text);
+}
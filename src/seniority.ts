@@ -0,0 +1,203 @@
+import {
+    SenioritySchema,
+    type ExperienceProfile,
+    type JobListingFull,
+    type Seniority,
+} from './types.js';
+
+// Seniority levels from most junior to most senior
+const SENIORITY_ORDER = SenioritySchema.options;
+
+// Individual-contributor levels that stated years of experience can override
+const IC_LEVELS: Seniority[] = ['entry', 'mid', 'senior'];
+
+// Title and experience-level keywords, checked in order (case-sensitive
+// patterns are roman-numeral grades such as "Engineer II")
+const SENIORITY_PATTERNS: [Seniority, RegExp][] = [
+    ['intern', /\b(?:intern|internship|co-?op|student)\b/i],
+    [
+        'director',
+        /\b(?:director|vp|svp|vice president|head of|chief|cto|cio|ciso|(?<!account )executive)\b/i,
+    ],
+    ['manager', /(?<!non-)\b(?:manager|management|supervisor)\b/i],
+    ['staff', /\b(?:staff|principal|distinguished|fellow)\b/i],
+    ['senior', /\b(?:senior|sr|lead|mid[\s-]senior)\b/i],
+    ['senior', /\b(?:III|IV)\b/],
+    ['mid', /\b(?:mid[\s-]?level|intermediate|experienced)\b/i],
+    ['mid', /\bII\b/],
+    ['entry', /\b(?:junior|jr|entry[\s-]?level|graduate|new grad|trainee|apprentice)\b/i],
+    ['entry', /\bI$/],
+];
+
+// Spelled-out numbers used in experience requirements
+const NUMBER_WORDS = new Map([
+    ['one', '1'],
+    ['two', '2'],
+    ['three', '3'],
+    ['four', '4'],
+    ['five', '5'],
+    ['six', '6'],
+    ['seven', '7'],
+    ['eight', '8'],
+    ['nine', '9'],
+    ['ten', '10'],
+    ['twelve', '12'],
+    ['fifteen', '15'],
+    ['twenty', '20'],
+]);
+
+// Year counts, with how to read them (each pattern captures the numbers)
+const YEARS = '(?:years?|yrs?)';
+const RANGE_PATTERN = new RegExp(`(\\d{1,2})\\s*(?:-|–|—|to)\\s*(\\d{1,2})\\+?\\s*${YEARS}`, 'g');
+const MIN_PATTERN = new RegExp(
+    `(?:at least|minimum(?: of)?|min\\.?|over|more than)\\s*(\\d{1,2})\\+?\\s*${YEARS}|(\\d{1,2})\\s*(?:\\+\\s*${YEARS}|${YEARS}\\s*(?:\\+|or more|minimum))|(\\d{1,2})\\s*${YEARS}`,
+    'g'
+);
+const MAX_PATTERN = new RegExp(
+    `(?:up to|less than|under|no more than)\\s*(\\d{1,2})\\s*${YEARS}`,
+    'g'
+);
+
+// Sentences mentioning a number of years that are not about experience
+const NOT_EXPERIENCE =
+    /\b(?:ago|old|contract|duration|founded|history|in business|warranty|vest(?:s|ing)?|anniversary)\b/i;
+
+// Words showing that a bare number of years ("3 years") is about experience
+const EXPERIENCE_CUE =
+    /\b(?:experience|exp|experienced|background|professional|hands-on|working|developing|building|designing|programming|industry|relevant)\b/i;
+
+// Largest year count accepted as an experience requirement
+const MAX_EXPERIENCE_YEARS = 30;
+
+/**
+ * Seniority level named by a job title or experience-level text
+ */
+export function seniorityFromText(text?: string): Seniority | undefined {
+    if (!text) return undefined;
+    return SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Seniority level implied by years of experience (never above senior). With only
+ * an upper bound ("up to 3 years"), low bounds mean entry level.
+ */
+export function seniorityFromYears(years: { min?: number; max?: number }): Seniority | undefined {
+    if (years.min === undefined) {
+        if (years.max === undefined) return undefined;
+        return years.max <= 3 ? 'entry' : 'mid';
+    }
+    if (years.min < 2) return 'entry';
+    if (years.min < 5) return 'mid';
+    return 'senior';
+}
+
+/**
+ * Years of experience required by a text: the strictest stated minimum and the
+ * upper end of a stated range. Sentences about contracts, company age and the
+ * like are ignored, and bare year counts need an experience cue.
+ */
+export function parseExperienceYears(text?: string): { min?: number; max?: number } | undefined {
+    if (!text) return undefined;
+
+    let min: number | undefined;
+    let max: number | undefined;
+
+    for (const sentence of splitSentences(normalizeNumbers(text))) {
+        if (NOT_EXPERIENCE.test(sentence)) continue;
+        const hasCue = EXPERIENCE_CUE.test(sentence);
+
+        // Ranges first, then blank them out so their numbers are not read again
+        let rest = sentence;
+        for (const match of sentence.matchAll(RANGE_PATTERN)) {
+            const [low, high] = [Number(match[1]), Number(match[2])];
+            if (low > high || high > MAX_EXPERIENCE_YEARS) continue;
+            min = Math.max(min ?? 0, low);
+            max = Math.max(max ?? 0, high);
+            rest = rest.replace(match[0], ' ');
+        }
+
+        for (const match of rest.matchAll(MAX_PATTERN)) {
+            max = Math.max(max ?? 0, Number(match[1]));
+            rest = rest.replace(match[0], ' ');
+        }
+
+        for (const match of rest.matchAll(MIN_PATTERN)) {
+            if (match[3] !== undefined && !hasCue) continue;
+            const years = Number(match[1] ?? match[2] ?? match[3]);
+            if (years > MAX_EXPERIENCE_YEARS) continue;
+            min = Math.max(min ?? 0, years);
+        }
+    }
+
+    if (min === undefined && max === undefined) return undefined;
+    return { min, max: max !== undefined && max >= (min ?? 0) ? max : undefined };
+}
+
+/**
+ * Derive years of experience and a seniority level from the title, the
+ * experience-level field and the description.
+ *
+ * The title wins over the experience-level field; stated years only decide when
+ * neither names a level, or when they put an individual-contributor level from
+ * the title two or more levels off (grades such as "Engineer II" vary between
+ * companies, years do not).
+ */
+export function classifySeniority(job: {
+    title?: string;
+    experienceLevel?: string;
+    description?: string;
+}): ExperienceProfile {
+    const years =
+        parseExperienceYears(job.experienceLevel) ?? parseExperienceYears(job.description);
+    const named = seniorityFromText(job.title) ?? seniorityFromText(job.experienceLevel);
+    const fromYears = years ? seniorityFromYears(years) : undefined;
+
+    let seniority = named ?? fromYears;
+    if (named && fromYears && IC_LEVELS.includes(named) && levelDistance(named, fromYears) >= 2) {
+        seniority = fromYears;
+    }
+
+    return {
+        experienceYearsMin: years?.min,
+        experienceYearsMax: years?.max,
+        seniority,
+    };
+}
+
+/**
+ * Check a job against the seniority filter (an empty filter keeps every job)
+ */
+export function matchesSeniority(
+    job: JobListingFull,
+    levels: Seniority[],
+    includeUnknown: boolean
+): boolean {
+    if (levels.length === 0) return true;
+    if (!job.seniority) return includeUnknown;
+    return levels.includes(job.seniority);
+}
+
+/**
+ * Number of levels between two seniority levels
+ */
+function levelDistance(a: Seniority, b: Seniority): number {
+    return Math.abs(SENIORITY_ORDER.indexOf(a) - SENIORITY_ORDER.indexOf(b));
+}
+
+/**
+ * Lowercase text with spelled-out numbers as digits and "five (5)" repeats removed
+ */
+function normalizeNumbers(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/\b[a-z]+\b/g, word => NUMBER_WORDS.get(word) ?? word)
+        .replace(/(\d{1,2})\s*\(\s*\d{1,2}\s*\)/g, '$1')
+        .replace(/\(\s*(\d{1,2}\+?)\s*\)/g, '$1');
+}
+
+/**
+ * Split text into sentences and list lines
+ */
+function splitSentences(text: string): string[] {
+    return text.split(/(?<=[.!?;])\s+|\n+|•/);
+}
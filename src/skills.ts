@@ -0,0 +1,429 @@
+import { z } from 'zod';
+import { SkillDefinitionSchema, type Input, type SkillDefinition } from './types.js';
+
+// Characters around an ambiguous term searched for context words
+const CONTEXT_WINDOW = 60;
+
+// Text allowed between two skills of a list ("Python, R", "Java/Go", "SQL and R")
+const LIST_SEPARATOR = /^\s*(?:[,/&|;]|,?\s*(?:and|or))\s*$/i;
+
+// Timeout for downloading a taxonomy file
+const TAXONOMY_FETCH_TIMEOUT_MS = 15000;
+
+// Built-in taxonomy. Short or common-word names are `ambiguous` and need context.
+export const DEFAULT_SKILL_TAXONOMY: SkillDefinition[] = [
+    // Languages
+    { name: 'JavaScript', category: 'language', aliases: ['JS', 'ECMAScript', 'ES6'] },
+    { name: 'TypeScript', category: 'language' },
+    { name: 'Python', category: 'language', aliases: ['Python3'] },
+    { name: 'Java', category: 'language' },
+    { name: 'C++', category: 'language', aliases: ['CPP'] },
+    { name: 'C#', category: 'language', aliases: ['C Sharp', 'CSharp'] },
+    { name: 'Ruby', category: 'language' },
+    {
+        name: 'Go',
+        category: 'language',
+        aliases: ['Golang'],
+        ambiguous: ['Go'],
+        context: ['programming', 'language', 'goroutines', 'gRPC', 'microservices'],
+    },
+    {
+        name: 'Rust',
+        category: 'language',
+        ambiguous: ['Rust'],
+        context: ['programming', 'language', 'systems', 'cargo'],
+    },
+    {
+        name: 'Swift',
+        category: 'language',
+        aliases: ['SwiftUI'],
+        ambiguous: ['Swift'],
+        context: ['iOS', 'macOS', 'Xcode', 'Objective-C', 'Apple'],
+    },
+    { name: 'Kotlin', category: 'language' },
+    { name: 'PHP', category: 'language' },
+    { name: 'Scala', category: 'language' },
+    {
+        name: 'R',
+        category: 'language',
+        aliases: ['RStudio', 'R programming'],
+        ambiguous: ['R'],
+        context: [
+            'statistics',
+            'statistical',
+            'SAS',
+            'SPSS',
+            'MATLAB',
+            'tidyverse',
+            'ggplot2',
+            'Shiny',
+        ],
+    },
+    { name: 'SQL', category: 'language', aliases: ['T-SQL', 'PL/SQL'] },
+    { name: 'Bash', category: 'language', aliases: ['Shell scripting'] },
+
+    // Frameworks and libraries
+    { name: 'React', category: 'framework', aliases: ['React.js', 'ReactJS'] },
+    { name: 'Angular', category: 'framework', aliases: ['AngularJS'] },
+    { name: 'Vue', category: 'framework', aliases: ['Vue.js', 'VueJS'] },
+    {
+        name: 'Node.js',
+        category: 'framework',
+        aliases: ['NodeJS'],
+        ambiguous: ['Node'],
+        context: ['JavaScript', 'TypeScript', 'npm', 'backend'],
+    },
+    {
+        name: 'Express',
+        category: 'framework',
+        aliases: ['Express.js', 'ExpressJS'],
+        ambiguous: ['Express'],
+        context: ['Node', 'Node.js', 'middleware'],
+    },
+    { name: 'Django', category: 'framework' },
+    { name: 'Flask', category: 'framework' },
+    {
+        name: 'Spring',
+        category: 'framework',
+        aliases: ['Spring Boot', 'Spring Framework', 'Spring MVC'],
+        ambiguous: ['Spring'],
+        context: ['Hibernate', 'JPA', 'microservices'],
+    },
+    {
+        name: 'Ruby on Rails',
+        category: 'framework',
+        aliases: ['RoR'],
+        ambiguous: ['Rails'],
+        context: ['ActiveRecord', 'RSpec'],
+    },
+    { name: 'Laravel', category: 'framework' },
+    { name: '.NET', category: 'framework', aliases: ['.NET Core', 'ASP.NET', 'dotnet'] },
+    { name: 'GraphQL', category: 'framework' },
+    {
+        name: 'REST',
+        category: 'framework',
+        aliases: ['RESTful', 'REST API', 'REST APIs'],
+        ambiguous: ['REST'],
+        context: ['API', 'APIs', 'services', 'endpoints', 'JSON'],
+    },
+    { name: 'TensorFlow', category: 'framework' },
+    { name: 'PyTorch', category: 'framework' },
+
+    // Cloud platforms
+    { name: 'AWS', category: 'cloud', aliases: ['Amazon Web Services'] },
+    { name: 'Azure', category: 'cloud', aliases: ['Microsoft Azure'] },
+    { name: 'GCP', category: 'cloud', aliases: ['Google Cloud', 'Google Cloud Platform'] },
+
+    // DevOps and infrastructure
+    { name: 'Docker', category: 'devops' },
+    { name: 'Kubernetes', category: 'devops', aliases: ['k8s'] },
+    { name: 'Terraform', category: 'devops' },
+    { name: 'Ansible', category: 'devops' },
+    { name: 'Jenkins', category: 'devops' },
+    { name: 'Git', category: 'devops', aliases: ['GitHub', 'GitLab'] },
+    { name: 'CI/CD', category: 'devops', aliases: ['CICD', 'continuous integration'] },
+    { name: 'DevOps', category: 'devops' },
+    { name: 'Linux', category: 'devops' },
+
+    // Databases
+    { name: 'MySQL', category: 'database' },
+    { name: 'PostgreSQL', category: 'database', aliases: ['Postgres'] },
+    { name: 'MongoDB', category: 'database', aliases: ['Mongo'] },
+    { name: 'Redis', category: 'database' },
+    { name: 'Elasticsearch', category: 'database', aliases: ['Elastic Search', 'OpenSearch'] },
+    { name: 'Oracle Database', category: 'database', aliases: ['Oracle DB'] },
+    { name: 'SQL Server', category: 'database', aliases: ['MSSQL', 'MS SQL'] },
+    { name: 'DynamoDB', category: 'database' },
+    { name: 'Snowflake', category: 'database' },
+
+    // Data and machine learning
+    { name: 'Machine Learning', category: 'data', aliases: ['ML'] },
+    { name: 'Deep Learning', category: 'data' },
+    { name: 'Data Science', category: 'data' },
+    { name: 'NLP', category: 'data', aliases: ['Natural Language Processing'] },
+    {
+        name: 'Artificial Intelligence',
+        category: 'data',
+        aliases: ['GenAI', 'Generative AI'],
+        ambiguous: ['AI'],
+        context: ['Machine Learning', 'ML', 'LLM', 'LLMs', 'models', 'NLP', 'Deep Learning'],
+    },
+    {
+        name: 'Spark',
+        category: 'data',
+        aliases: ['Apache Spark', 'PySpark'],
+        ambiguous: ['Spark'],
+        context: ['Hadoop', 'Databricks', 'big data', 'ETL', 'Scala'],
+    },
+    { name: 'Kafka', category: 'data', aliases: ['Apache Kafka'] },
+
+    // Methodologies
+    { name: 'Agile', category: 'methodology' },
+    { name: 'Scrum', category: 'methodology' },
+    { name: 'Kanban', category: 'methodology' },
+    { name: 'TDD', category: 'methodology', aliases: ['Test-Driven Development'] },
+
+    // Collaboration tools
+    { name: 'Jira', category: 'tool' },
+    { name: 'Confluence', category: 'tool' },
+    {
+        name: 'Slack',
+        category: 'tool',
+        ambiguous: ['Slack'],
+        context: ['Jira', 'Confluence', 'Zoom', 'Microsoft Teams', 'integrations'],
+    },
+    { name: 'Microsoft Teams', category: 'tool', aliases: ['MS Teams'] },
+].map(definition => SkillDefinitionSchema.parse(definition));
+
+// Skills found in a text: canonical names in order of appearance, and grouped by category
+export interface SkillExtraction {
+    skills: string[];
+    skillsByCategory: Record<string, string[]>;
+}
+
+// Pattern for one name or alias of a skill
+interface SkillTerm {
+    skill: SkillDefinition;
+    pattern: RegExp;
+    ambiguous: boolean;
+}
+
+// Occurrence of a skill term in a text
+interface SkillMatch {
+    skill: SkillDefinition;
+    start: number;
+    end: number;
+    ambiguous: boolean;
+}
+
+/**
+ * Canonical skill names, aliases and categories, with context rules for terms
+ * that are also common words ("Go", "R", "Slack")
+ */
+export class SkillTaxonomy {
+    private readonly terms: SkillTerm[];
+    private readonly contextPatterns: Map<string, RegExp[]>;
+    private readonly byTerm = new Map<string, SkillDefinition>();
+
+    constructor(private readonly definitions: SkillDefinition[] = DEFAULT_SKILL_TAXONOMY) {
+        this.terms = [];
+        this.contextPatterns = new Map();
+
+        for (const skill of definitions) {
+            const ambiguous = new Set(skill.ambiguous);
+            const names = [skill.name, ...skill.aliases].filter(term => !ambiguous.has(term));
+
+            for (const name of names) {
+                this.terms.push({ skill, pattern: termPattern(name, 'gi'), ambiguous: false });
+            }
+            for (const term of ambiguous) {
+                this.terms.push({ skill, pattern: termPattern(term, 'g'), ambiguous: true });
+            }
+            for (const term of [skill.name, ...skill.aliases, ...skill.ambiguous]) {
+                this.byTerm.set(term.toLowerCase(), skill);
+            }
+
+            this.contextPatterns.set(
+                skill.name,
+                skill.context.map(term => termPattern(term, 'i'))
+            );
+        }
+    }
+
+    /**
+     * Skill definitions of the taxonomy
+     */
+    get skills(): SkillDefinition[] {
+        return this.definitions;
+    }
+
+    /**
+     * Canonical name for a skill name or alias (e.g. "k8s" → "Kubernetes")
+     */
+    canonicalize(term: string): string | undefined {
+        return this.byTerm.get(term.trim().toLowerCase())?.name;
+    }
+
+    /**
+     * Category of a canonical skill name or alias
+     */
+    categoryOf(term: string): string | undefined {
+        return this.byTerm.get(term.trim().toLowerCase())?.category;
+    }
+
+    /**
+     * Find the skills mentioned in a text. Ambiguous terms only count when a
+     * context word is nearby or they are listed next to another skill.
+     */
+    extract(text: string): SkillExtraction {
+        const matches: SkillMatch[] = [];
+
+        for (const term of this.terms) {
+            for (const match of text.matchAll(term.pattern)) {
+                const start = match.index ?? 0;
+                matches.push({
+                    skill: term.skill,
+                    start,
+                    end: start + match[0].length,
+                    ambiguous: term.ambiguous,
+                });
+            }
+        }
+
+        matches.sort((a, b) => a.start - b.start);
+
+        // Terms inside a longer term are part of it ("SQL" in "SQL Server")
+        const outermost = matches.filter(match => !isNestedMatch(match, matches));
+
+        // Ambiguous terms listed next to a confirmed skill are confirmed too,
+        // which also accepts lists of several ambiguous terms ("Python, R, Go")
+        const confirmed = new Set(
+            outermost.filter(match => !match.ambiguous || this.hasContext(text, match))
+        );
+        let added = true;
+        while (added) {
+            added = false;
+            for (const match of outermost) {
+                if (!confirmed.has(match) && isListedWithSkill(text, match, confirmed)) {
+                    confirmed.add(match);
+                    added = true;
+                }
+            }
+        }
+
+        return this.group(
+            outermost.filter(match => confirmed.has(match)).map(match => match.skill.name)
+        );
+    }
+
+    /**
+     * Canonicalize and categorize skill names collected elsewhere (e.g. page skill
+     * badges). Unknown names are kept as given but not categorized.
+     */
+    normalize(names: string[]): SkillExtraction {
+        return this.group(names.map(name => this.canonicalize(name) ?? name));
+    }
+
+    /**
+     * Combine extraction results, keeping the first occurrence of each skill
+     */
+    merge(...extractions: SkillExtraction[]): SkillExtraction {
+        return this.group(extractions.flatMap(extraction => extraction.skills));
+    }
+
+    /**
+     * Check for a context word around an ambiguous match
+     */
+    private hasContext(text: string, match: SkillMatch): boolean {
+        const window = text.slice(
+            Math.max(0, match.start - CONTEXT_WINDOW),
+            match.end + CONTEXT_WINDOW
+        );
+        const patterns = this.contextPatterns.get(match.skill.name) || [];
+        return patterns.some(pattern => pattern.test(window));
+    }
+
+    /**
+     * Deduplicate skill names (case-insensitively) and group them by category
+     */
+    private group(names: string[]): SkillExtraction {
+        const skills: string[] = [];
+        const seen = new Set<string>();
+
+        for (const name of names) {
+            const key = name.toLowerCase();
+            if (!name || seen.has(key)) continue;
+            seen.add(key);
+            skills.push(name);
+        }
+
+        const skillsByCategory: Record<string, string[]> = {};
+        for (const skill of skills) {
+            const category = this.categoryOf(skill);
+            if (!category) continue;
+            (skillsByCategory[category] ||= []).push(skill);
+        }
+
+        return { skills, skillsByCategory };
+    }
+}
+
+/**
+ * Merge custom definitions into the built-in taxonomy ('extend', where a custom
+ * definition replaces a built-in one of the same name) or use them alone ('replace')
+ */
+export function buildSkillTaxonomy(
+    custom: SkillDefinition[],
+    mode: Input['skillTaxonomyMode'] = 'extend'
+): SkillTaxonomy {
+    if (mode === 'replace') return new SkillTaxonomy(custom);
+
+    const customNames = new Set(custom.map(skill => skill.name.toLowerCase()));
+    return new SkillTaxonomy([
+        ...DEFAULT_SKILL_TAXONOMY.filter(skill => !customNames.has(skill.name.toLowerCase())),
+        ...custom,
+    ]);
+}
+
+/**
+ * Build the taxonomy for a run from the inline `skillTaxonomy` entries and the
+ * JSON file at `skillTaxonomyUrl`
+ */
+export async function loadSkillTaxonomy(input: Input): Promise<SkillTaxonomy> {
+    const custom = [...input.skillTaxonomy];
+
+    if (input.skillTaxonomyUrl) {
+        const response = await fetch(input.skillTaxonomyUrl, {
+            signal: AbortSignal.timeout(TAXONOMY_FETCH_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            throw new Error(
+                `Failed to download skill taxonomy: ${response.status} ${response.statusText}`
+            );
+        }
+
+        const result = z.array(SkillDefinitionSchema).safeParse(await response.json());
+        if (!result.success) {
+            throw new Error(`Invalid skill taxonomy file: ${result.error.message}`);
+        }
+        custom.push(...result.data);
+    }
+
+    return buildSkillTaxonomy(custom, input.skillTaxonomyMode);
+}
+
+/**
+ * Check whether a match lies within the span of a longer match
+ */
+function isNestedMatch(match: SkillMatch, matches: SkillMatch[]): boolean {
+    return matches.some(
+        other =>
+            other.start <= match.start &&
+            other.end >= match.end &&
+            other.end - other.start > match.end - match.start
+    );
+}
+
+/**
+ * Check whether a match is separated from a confirmed skill only by a list separator
+ */
+function isListedWithSkill(text: string, match: SkillMatch, confirmed: Set<SkillMatch>): boolean {
+    for (const other of confirmed) {
+        if (other.end <= match.start && LIST_SEPARATOR.test(text.slice(other.end, match.start))) {
+            return true;
+        }
+        if (other.start >= match.end && LIST_SEPARATOR.test(text.slice(match.end, other.start))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Whole-term pattern for a skill name. `+`, `#` and `.` count as term characters,
+ * so "Java" does not match in "JavaScript", "C" in "C#" or "Node" in "Node.js".
+ */
+function termPattern(term: string, flags: string): RegExp {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return new RegExp(`(?<![\\w+#.])${escaped}(?![\\w+#]|\\.\\w)`, flags);
+}
@@ -0,0 +1,140 @@
+import { Actor, log } from 'apify';
+import type { RequestOptions } from 'crawlee';
+import type {
+    AgencyStats,
+    ChangeStats,
+    CompanyProfile,
+    JobListingBasic,
+    RequestUserData,
+    RuleStats,
+} from './types.js';
+import type { PartitionState } from './partition.js';
+import type { BudgetState } from './budget.js';
+import type { SeenJobsState } from './incremental.js';
+import type { ExtractionState } from './quality.js';
+import type { ThrottleState } from './throttle.js';
+import type { LifecycleState } from './lifecycle.js';
+
+// Key of the run state in the default key-value store
+const RUN_STATE_KEY = 'RUN_STATE';
+
+// Prefix of the records that log each batch of saved or dropped jobs
+const SAVE_BATCH_PREFIX = 'RUN_STATE_SAVES_';
+
+// Everything a migrated or restarted run needs to continue where it stopped,
+// including the counts of every run report. Pagination is not part of it:
+// handled requests stay in the request queue. Neither are saved jobs: they are
+// in the datasets, and their budget slots in the save batches. Optional parts
+// belong to features that are off.
+export interface RunState {
+    budget: BudgetState;
+    jobs: JobListingBasic[];
+    browserPages: RequestOptions<RequestUserData>[];
+    companies: CompanyProfile[];
+    partitions: PartitionState;
+    throttle: ThrottleState;
+    extraction: ExtractionState;
+    agencies: AgencyStats;
+    seenJobs?: SeenJobsState;
+    lifecycle?: LifecycleState;
+    changes?: ChangeStats;
+    rules?: RuleStats;
+    statistics: { errors: number; startTime: string };
+    savedAt: string;
+}
+
+// Budget keys of jobs being saved, logged before they are pushed to the dataset
+// and again with the saved ones once they are; the others were dropped. A batch
+// without `committed` was cut off while it was being pushed.
+export interface SaveBatch {
+    keys: string[];
+    committed?: string[];
+}
+
+/**
+ * Run state kept in the default key-value store. It is written on the platform's
+ * persistState and migrating events and between the stages of the run, and read
+ * back when the actor starts, so a restarted run keeps its counts and collected
+ * jobs. Saved and dropped jobs are logged batch by batch as they happen, so a
+ * restart between two state writes neither saves a job twice nor leaves it pending.
+ */
+export class RunStateStore {
+    private collect?: () => Omit<RunState, 'savedAt'>;
+
+    private constructor(
+        readonly restored: RunState | undefined,
+        readonly restoredSaves: SaveBatch[],
+        private batches: number
+    ) {}
+
+    /**
+     * Load the state and save batches logged by earlier attempts of this run, if any
+     */
+    static async open(): Promise<RunStateStore> {
+        const restored = (await Actor.getValue<RunState>(RUN_STATE_KEY)) ?? undefined;
+
+        const store = await Actor.openKeyValueStore();
+        const batchKeys: string[] = [];
+        await store.forEachKey(key => {
+            if (key.startsWith(SAVE_BATCH_PREFIX)) batchKeys.push(key);
+        });
+        const saves: SaveBatch[] = [];
+        for (const key of batchKeys) {
+            const batch = await store.getValue<SaveBatch>(key);
+            if (batch) saves.push(batch);
+        }
+
+        if (restored) {
+            log.info('Resuming run', {
+                jobs: restored.jobs.length,
+                saveBatches: saves.length,
+                savedAt: restored.savedAt,
+            });
+        }
+
+        return new RunStateStore(restored, saves, batchKeys.length);
+    }
+
+    /**
+     * Save the state returned by `collect` whenever the platform asks to persist
+     * it or the actor is about to migrate
+     */
+    track(collect: () => Omit<RunState, 'savedAt'>): void {
+        this.collect = collect;
+        Actor.on('persistState', () => this.persistInBackground());
+        Actor.on('migrating', () => this.persistInBackground());
+    }
+
+    /**
+     * Write the current state to the key-value store
+     */
+    async persist(): Promise<void> {
+        if (!this.collect) return;
+
+        const state: RunState = {
+            ...this.collect(),
+            savedAt: new Date().toISOString(),
+        };
+        await Actor.setValue(RUN_STATE_KEY, state);
+        log.debug('Saved run state');
+    }
+
+    /**
+     * Log a batch of jobs being saved or dropped. Returns the key of its record,
+     * to log the saved jobs of the batch under once they are pushed.
+     */
+    async logSaves(batch: SaveBatch, batchKey?: string): Promise<string> {
+        const key = batchKey ?? `${SAVE_BATCH_PREFIX}${++this.batches}`;
+        await Actor.setValue(key, batch);
+        return key;
+    }
+
+    /**
+     * Persist from an event listener, logging failures instead of leaving them unhandled
+     */
+    private persistInBackground(): void {
+        this.persist().catch((error: Error) => {
+            log.warning(`Could not save the run state: ${error.message}`);
+        });
+    }
+}
@@ -0,0 +1,388 @@
+import type { CompanyProfile, JobListingFull, NormalizedSalary } from './types.js';
+import { EMPLOYMENT_TYPE_MAP } from './constants.js';
+import { cleanText, formatPostedDate, htmlToText } from './utils.js';
+import { toIsoDate, toTimestamp } from './dates.js';
+import { normalizeSalaryEstimate } from './salary.js';
+
+// Confidence given to salaries published by the employer in structured data
+const STRUCTURED_SALARY_CONFIDENCE = 0.95;
+
+// Limits for walking large hydration payloads
+const MAX_WALK_DEPTH = 15;
+const MAX_WALK_NODES = 20000;
+
+// schema.org types describing a company
+const ORGANIZATION_TYPES = ['Organization', 'Corporation', 'LocalBusiness'];
+
+// schema.org employment types mapped to Dice's API values
+const SCHEMA_EMPLOYMENT_TYPES: Record<string, string> = {
+    FULL_TIME: 'FULLTIME',
+    PART_TIME: 'PARTTIME',
+    CONTRACTOR: 'CONTRACT',
+    TEMPORARY: 'CONTRACT',
+};
+
+// Script element embedded in a job detail page
+export interface EmbeddedScript {
+    id?: string;
+    type?: string;
+    content: string;
+}
+
+// Job fields found in one kind of embedded data
+export interface StructuredJobData {
+    source: 'jsonLd' | 'nextData';
+    fields: Partial<JobListingFull>;
+    salary?: NormalizedSalary;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Extract job fields from the page's embedded data, in priority order:
+ * the JSON-LD JobPosting block first, then Next.js/hydration JSON
+ */
+export function extractStructuredJobData(scripts: EmbeddedScript[]): StructuredJobData[] {
+    const results: StructuredJobData[] = [];
+
+    const jsonLd = scripts
+        .filter(script => script.type === 'application/ld+json')
+        .map(script => findJobPosting(parseJson(script.content)))
+        .find(Boolean);
+
+    if (jsonLd) {
+        results.push({ source: 'jsonLd', ...mapJobPosting(jsonLd) });
+    }
+
+    const hydrationScripts = scripts.filter(
+        script => script.id === '__NEXT_DATA__' || script.type === 'application/json'
+    );
+
+    for (const script of hydrationScripts) {
+        const job = findHydratedJob(parseJson(script.content));
+        if (job) {
+            results.push({ source: 'nextData', ...job });
+            break;
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Extract company profile fields from a JSON-LD Organization block
+ */
+export function extractStructuredCompanyData(
+    scripts: EmbeddedScript[]
+): Partial<CompanyProfile> | undefined {
+    const organization = scripts
+        .filter(script => script.type === 'application/ld+json')
+        .map(script => findNode(parseJson(script.content), ORGANIZATION_TYPES))
+        .find(Boolean);
+
+    if (!organization) return undefined;
+
+    const employees = asObject(organization.numberOfEmployees);
+    const minEmployees = asNumber(employees?.minValue);
+    const maxEmployees = asNumber(employees?.maxValue);
+    const size =
+        asString(organization.numberOfEmployees) ||
+        (minEmployees !== undefined && maxEmployees !== undefined
+            ? `${minEmployees}-${maxEmployees} employees`
+            : asNumber(employees?.value)?.toString());
+
+    const profile: Partial<CompanyProfile> = {
+        name: cleanText(asString(organization.name) || '') || undefined,
+        description: cleanText(asString(organization.description) || '') || undefined,
+        website: asString(organization.sameAs) || asString(organization.url),
+        logo: asString(organization.logo) || asString(asObject(organization.logo)?.url),
+        industry: asString(organization.industry) || asString(organization.knowsAbout),
+        headquarters:
+            formatJobLocation(organization.location) ||
+            formatJobLocation({ address: organization.address }),
+        size,
+    };
+
+    return removeEmpty(profile);
+}
+
+/**
+ * Map a schema.org JobPosting object to job fields
+ */
+export function mapJobPosting(posting: JsonObject): Omit<StructuredJobData, 'source'> {
+    const organization = asObject(posting.hiringOrganization);
+    const descriptionHtml = asString(posting.description);
+    const employmentTypes = asArray(posting.employmentType).map(String);
+    const datePosted = asString(posting.datePosted);
+    const isTelecommute = asString(posting.jobLocationType)?.toUpperCase() === 'TELECOMMUTE';
+
+    const fields: Partial<JobListingFull> = {
+        title: cleanText(asString(posting.title) || '') || undefined,
+        company: cleanText(asString(organization?.name) || '') || undefined,
+        companyWebsite: asString(organization?.sameAs) || asString(organization?.url),
+        companyLogo: asString(organization?.logo) || asString(asObject(organization?.logo)?.url),
+        companyDescription: cleanText(asString(organization?.description) || '') || undefined,
+        location: formatJobLocation(posting.jobLocation) || (isTelecommute ? 'Remote' : undefined),
+        workplaceType: isTelecommute ? 'Remote' : undefined,
+        employmentType:
+            employmentTypes.map(type => SCHEMA_EMPLOYMENT_TYPES[type.toUpperCase()] || type)[0] ||
+            undefined,
+        jobType:
+            employmentTypes.length > 0
+                ? employmentTypes.map(formatEmploymentType).join(', ')
+                : undefined,
+        postedDate: datePosted ? formatPostedDate(datePosted) : undefined,
+        postedDateTimestamp: toTimestamp(datePosted),
+        postedAt: toIsoDate(datePosted),
+        updatedAt: toIsoDate(asString(posting.dateModified)),
+        expiresAt: toIsoDate(asString(posting.validThrough)),
+        description: descriptionHtml ? htmlToText(descriptionHtml) : undefined,
+        descriptionHtml,
+        skills: toStringList(posting.skills),
+        educationLevel:
+            asString(posting.educationRequirements) ||
+            asString(asObject(posting.educationRequirements)?.credentialCategory),
+        experienceLevel: formatExperience(posting.experienceRequirements),
+        industry: asString(posting.industry),
+        benefits: toStringList(posting.jobBenefits),
+    };
+
+    const baseSalary = asObject(posting.baseSalary);
+    const salaryValue = asObject(baseSalary?.value);
+    const salary =
+        normalizeSalaryEstimate(
+            {
+                minValue: asNumber(salaryValue?.minValue) ?? asNumber(salaryValue?.value),
+                maxValue: asNumber(salaryValue?.maxValue) ?? asNumber(salaryValue?.value),
+                currency: asString(baseSalary?.currency),
+                unitText: asString(salaryValue?.unitText),
+            },
+            STRUCTURED_SALARY_CONFIDENCE
+        ) || undefined;
+
+    return { fields: removeEmpty(fields), salary };
+}
+
+/**
+ * Find a JobPosting object in parsed JSON-LD (single object, array or @graph)
+ */
+function findJobPosting(data: unknown): JsonObject | undefined {
+    return findNode(data, ['JobPosting']);
+}
+
+/**
+ * Find an object of one of the given schema.org types in parsed JSON-LD
+ */
+function findNode(data: unknown, typeNames: string[]): JsonObject | undefined {
+    for (const node of asArray(data)) {
+        const object = asObject(node);
+        if (!object) continue;
+
+        const types = asArray(object['@type']).map(String);
+        if (types.some(type => typeNames.includes(type))) return object;
+
+        const fromGraph = findNode(object['@graph'], typeNames);
+        if (fromGraph) return fromGraph;
+    }
+
+    return undefined;
+}
+
+/**
+ * Find the job object in a Next.js/hydration payload. Accepts an embedded
+ * JobPosting or a Dice-style job object (title plus description and company).
+ */
+function findHydratedJob(data: unknown): Omit<StructuredJobData, 'source'> | undefined {
+    const stack: [unknown, number][] = [[data, 0]];
+    let visited = 0;
+
+    while (stack.length > 0 && visited < MAX_WALK_NODES) {
+        const [node, depth] = stack.pop()!;
+        visited++;
+
+        const object = asObject(node);
+        if (!object && !Array.isArray(node)) continue;
+
+        if (object) {
+            if (asArray(object['@type']).includes('JobPosting')) {
+                return mapJobPosting(object);
+            }
+            if (isDiceJobObject(object)) {
+                return mapDiceJob(object);
+            }
+        }
+
+        if (depth < MAX_WALK_DEPTH) {
+            const children = Array.isArray(node) ? node : Object.values(object!);
+            for (const child of children) {
+                if (child && typeof child === 'object') stack.push([child, depth + 1]);
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Whether a hydration object looks like a Dice job
+ */
+function isDiceJobObject(object: JsonObject): boolean {
+    const hasTitle = typeof object.title === 'string' || typeof object.jobTitle === 'string';
+    const hasDescription =
+        typeof object.description === 'string' || typeof object.jobDescription === 'string';
+    const hasCompany =
+        typeof object.companyName === 'string' || typeof object.hiringOrganization === 'object';
+
+    return hasTitle && hasDescription && hasCompany;
+}
+
+/**
+ * Map a Dice-style hydrated job object to job fields
+ */
+function mapDiceJob(job: JsonObject): Omit<StructuredJobData, 'source'> {
+    const descriptionHtml = asString(job.description) || asString(job.jobDescription);
+    const location = asObject(job.jobLocation) || asObject(job.location);
+    const datePosted = asString(job.datePosted) || asString(job.postedDate);
+    const salaryEstimate = asObject(job.salaryEstimate);
+    const workplaceTypes = toStringList(job.workplaceTypes);
+
+    const fields: Partial<JobListingFull> = {
+        title: cleanText(asString(job.title) || asString(job.jobTitle) || '') || undefined,
+        company: cleanText(asString(job.companyName) || '') || undefined,
+        companyLogo: asString(job.companyLogoUrl),
+        location:
+            asString(location?.displayName) ||
+            asString(job.location) ||
+            formatJobLocation(job.jobLocation),
+        employmentType: asString(job.employmentType),
+        workplaceType: workplaceTypes?.join(', ') || asString(job.workFromHomeAvailability),
+        postedDate: datePosted ? formatPostedDate(datePosted) : undefined,
+        postedDateTimestamp: toTimestamp(datePosted),
+        postedAt: toIsoDate(datePosted),
+        updatedAt: toIsoDate(asString(job.modifiedDate) || asString(job.dateModified)),
+        expiresAt: toIsoDate(asString(job.expirationDate) || asString(job.validThrough)),
+        description: descriptionHtml ? htmlToText(descriptionHtml) : undefined,
+        descriptionHtml,
+        skills: toStringList(job.skills),
+        easyApply: typeof job.easyApply === 'boolean' ? job.easyApply : undefined,
+    };
+
+    const salary =
+        normalizeSalaryEstimate(
+            salaryEstimate && {
+                minValue: asNumber(salaryEstimate.minValue),
+                maxValue: asNumber(salaryEstimate.maxValue),
+                currency: asString(salaryEstimate.currency),
+                unitText: asString(salaryEstimate.unitText),
+            }
+        ) || undefined;
+
+    return { fields: removeEmpty(fields), salary };
+}
+
+/**
+ * Format a schema.org jobLocation (Place or list of Places) as display text
+ */
+function formatJobLocation(value: unknown): string | undefined {
+    const locations = asArray(value)
+        .map(place => {
+            const address = asObject(asObject(place)?.address);
+            if (!address) return asString(asObject(place)?.name);
+
+            const country =
+                asString(address.addressCountry) ||
+                asString(asObject(address.addressCountry)?.name);
+            return [asString(address.addressLocality), asString(address.addressRegion), country]
+                .filter(Boolean)
+                .join(', ');
+        })
+        .filter((location): location is string => Boolean(location));
+
+    return locations.length > 0 ? locations.join('; ') : undefined;
+}
+
+/**
+ * Format a schema.org employment type (e.g. FULL_TIME) for display
+ */
+function formatEmploymentType(type: string): string {
+    const diceType = SCHEMA_EMPLOYMENT_TYPES[type.toUpperCase()] || type.toUpperCase();
+    return EMPLOYMENT_TYPE_MAP[diceType] || type;
+}
+
+/**
+ * Format schema.org experienceRequirements as text
+ */
+function formatExperience(value: unknown): string | undefined {
+    if (typeof value === 'string') return cleanText(value) || undefined;
+
+    const months = asNumber(asObject(value)?.monthsOfExperience);
+    if (months === undefined) return undefined;
+
+    const years = Math.round(months / 12);
+    return `${years}+ years experience`;
+}
+
+/**
+ * Parse JSON, returning undefined on invalid input
+ */
+function parseJson(content: string): unknown {
+    try {
+        return JSON.parse(content.trim());
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Narrow a JSON value to an object
+ */
+function asObject(value: unknown): JsonObject | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value)
+        ? (value as JsonObject)
+        : undefined;
+}
+
+/**
+ * Wrap a JSON value in an array
+ */
+function asArray(value: unknown): unknown[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Narrow a JSON value to a non-empty string
+ */
+function asString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Narrow a JSON value (number or numeric string) to a number
+ */
+function asNumber(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Normalize a string, comma-separated string or list of strings/{name} objects
+ */
+function toStringList(value: unknown): string[] | undefined {
+    const items =
+        typeof value === 'string'
+            ? value.split(',')
+            : asArray(value).map(item => asString(item) || asString(asObject(item)?.name) || '');
+
+    const list = items.map(item => cleanText(item)).filter(Boolean);
+    return list.length > 0 ? Array.from(new Set(list)) : undefined;
+}
+
+/**
+ * Drop undefined and empty-string fields
+ */
+function removeEmpty<T extends object>(fields: T): T {
+    return Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined && value !== '')
+    ) as T;
+}
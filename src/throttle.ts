@@ -0,0 +1,212 @@
+import { SessionError, log } from 'crawlee';
+import type { BlockEvent, BlockReason, BlockingStats } from './types.js';
+import { THROTTLE_CONFIG } from './constants.js';
+import { RateLimiter, sleep } from './utils.js';
+
+// Captcha and bot-check interstitials served instead of the requested page
+const INTERSTITIAL_MARKERS =
+    /g-recaptcha|h-captcha|hcaptcha\.com|challenges\.cloudflare\.com|cf-chl-|px-captcha|_Incapsula_Resource|<title>\s*(?:just a moment|attention required|access denied)/i;
+
+// Pacing and block history of one host
+interface HostState {
+    limiter: RateLimiter;
+    backoffUntil: number;
+    consecutiveBlocks: number;
+}
+
+// Block counts, backoff of each host and the crawler concurrency, saved with the run state
+export interface ThrottleState extends BlockingStats {
+    successes: number;
+    hosts: Record<string, { backoffUntil: number; consecutiveBlocks: number }>;
+}
+
+/**
+ * Why a response looks blocked: a 403 or 429 status, a captcha or bot-check
+ * page, or an empty body where the search API returns JSON. Returns null for
+ * regular responses.
+ */
+export function detectBlock(
+    statusCode: number | undefined,
+    body: string,
+    expectJson: boolean
+): BlockReason | null {
+    if (statusCode === 403) return 'forbidden';
+    if (statusCode === 429) return 'rate-limited';
+    if (expectJson && body.trim() === '') return 'empty-response';
+    return INTERSTITIAL_MARKERS.test(body) ? 'captcha' : null;
+}
+
+/**
+ * Paces requests per host (the search API and www.dice.com separately) and
+ * slows down when Dice starts blocking: a blocked host pauses with exponential
+ * backoff and crawler concurrency is halved, then recovers step by step while
+ * responses come through
+ */
+export class RequestThrottle {
+    private readonly hosts = new Map<string, HostState>();
+    private readonly events: BlockEvent[] = [];
+    private readonly byReason: Partial<Record<BlockReason, number>> = {};
+    private readonly byHost: Record<string, number> = {};
+    private blocks = 0;
+    private successes = 0;
+    private concurrency: number;
+
+    constructor(
+        private readonly maxConcurrency: number,
+        private readonly config = THROTTLE_CONFIG
+    ) {
+        this.concurrency = maxConcurrency;
+    }
+
+    /**
+     * Concurrency the crawler should run at
+     */
+    get currentConcurrency(): number {
+        return this.concurrency;
+    }
+
+    /**
+     * Wait until the host of the URL is out of backoff and has a free request slot
+     */
+    async acquire(url: string): Promise<void> {
+        const host = this.host(url);
+        const wait = host.backoffUntil - Date.now();
+        if (wait > 0) await sleep(wait);
+        await host.limiter.acquire();
+    }
+
+    /**
+     * Milliseconds the host of the URL still waits before its next request
+     */
+    getBackoff(url: string, now = Date.now()): number {
+        return Math.max(0, this.host(url).backoffUntil - now);
+    }
+
+    /**
+     * Record a response that came through. Enough of them in a row raise the
+     * concurrency by one, up to `maxConcurrency`.
+     */
+    recordSuccess(url: string): void {
+        this.host(url).consecutiveBlocks = 0;
+        this.successes++;
+
+        if (
+            this.concurrency < this.maxConcurrency &&
+            this.successes >= this.config.SUCCESSES_PER_CONCURRENCY_STEP
+        ) {
+            this.concurrency++;
+            this.successes = 0;
+        }
+    }
+
+    /**
+     * Record a blocked response: back off its host and halve the concurrency.
+     * Returns the error to throw so the crawler retries the request with a new
+     * session (and proxy).
+     */
+    recordBlock(url: string, reason: BlockReason, now = Date.now()): SessionError {
+        const hostName = new URL(url).host;
+        const host = this.host(url);
+
+        host.consecutiveBlocks++;
+        const backoffMs = Math.min(
+            this.config.MAX_BACKOFF_MS,
+            this.config.BASE_BACKOFF_MS * 2 ** (host.consecutiveBlocks - 1)
+        );
+        host.backoffUntil = Math.max(host.backoffUntil, now + backoffMs);
+        this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+        this.successes = 0;
+
+        this.blocks++;
+        this.byReason[reason] = (this.byReason[reason] || 0) + 1;
+        this.byHost[hostName] = (this.byHost[hostName] || 0) + 1;
+        this.events.push({
+            host: hostName,
+            url,
+            reason,
+            detectedAt: new Date(now).toISOString(),
+            backoffMs,
+            concurrency: this.concurrency,
+        });
+        if (this.events.length > this.config.MAX_BLOCK_EVENTS) this.events.shift();
+
+        log.warning(`Blocked response from ${hostName} (${reason}), retrying with a new session`, {
+            url,
+            backoffMs,
+            concurrency: this.concurrency,
+        });
+
+        return new SessionError(`Blocked response: ${reason}`);
+    }
+
+    /**
+     * Blocked responses of the run and the latest block events
+     */
+    getStats(): BlockingStats {
+        return {
+            blocks: this.blocks,
+            byReason: { ...this.byReason },
+            byHost: { ...this.byHost },
+            concurrency: this.concurrency,
+            events: [...this.events],
+        };
+    }
+
+    /**
+     * Block counts, host backoff and concurrency, for the run state
+     */
+    getState(): ThrottleState {
+        return {
+            ...this.getStats(),
+            successes: this.successes,
+            hosts: Object.fromEntries(
+                Array.from(this.hosts, ([name, host]) => [
+                    name,
+                    { backoffUntil: host.backoffUntil, consecutiveBlocks: host.consecutiveBlocks },
+                ])
+            ),
+        };
+    }
+
+    /**
+     * Continue from the state saved before a restart: hosts still backing off
+     * keep waiting, and the crawler starts at the concurrency it had slowed down to
+     */
+    restore(state: ThrottleState): void {
+        this.blocks = state.blocks;
+        this.successes = state.successes;
+        this.concurrency = Math.min(state.concurrency, this.maxConcurrency);
+        Object.assign(this.byReason, state.byReason);
+        Object.assign(this.byHost, state.byHost);
+        this.events.push(...state.events);
+
+        for (const [name, saved] of Object.entries(state.hosts)) {
+            const host = this.hostNamed(name);
+            host.backoffUntil = saved.backoffUntil;
+            host.consecutiveBlocks = saved.consecutiveBlocks;
+        }
+    }
+
+    /**
+     * Throttling state of the host of a URL
+     */
+    private host(url: string): HostState {
+        return this.hostNamed(new URL(url).host);
+    }
+
+    /**
+     * Throttling state of a host
+     */
+    private hostNamed(name: string): HostState {
+        let state = this.hosts.get(name);
+        if (!state) {
+            state = {
+                limiter: new RateLimiter(this.config.BURST, this.config.REQUESTS_PER_SECOND),
+                backoffUntil: 0,
+                consecutiveBlocks: 0,
+            };
+            this.hosts.set(name, state);
+        }
+        return state;
+    }
+}
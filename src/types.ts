@@ -1,68 +1,371 @@
 import { z } from 'zod';
+import { parseCompanyReference } from './company.js';
 
-// Input schema validation
-export const InputSchema = z.object({
+// Saved search entry for batch runs
+export const SavedSearchSchema = z.object({
+    name: z.string().min(1).optional(),
     searchQuery: z.string().optional().default(''),
     location: z.string().optional().default(''),
-    radius: z.number().min(0).max(500).optional().default(30),
-    employmentTypes: z.array(z.enum(['FULLTIME', 'PARTTIME', 'CONTRACT', 'THIRD_PARTY'])).optional().default([]),
-    postedDate: z.enum(['ONE', 'THREE', 'SEVEN', 'THIRTY', 'ANY']).optional().default('ANY'),
-    workplaceTypes: z.array(z.enum(['Remote', 'On-Site', 'Hybrid'])).optional().default([]),
-    easyApply: z.boolean().optional().default(false),
-    maxJobs: z.number().min(0).max(10000).optional().default(100),
-    maxConcurrency: z.number().min(1).max(50).optional().default(10),
-    scrapeJobDetails: z.boolean().optional().default(true),
-    proxyConfiguration: z.object({
-        useApifyProxy: z.boolean().optional(),
-        apifyProxyGroups: z.array(z.string()).optional(),
-        proxyUrls: z.array(z.string()).optional(),
-    }).optional(),
-    startUrls: z.array(z.object({
-        url: z.string().url(),
-    })).optional().default([]),
+    radius: z.number().min(0).max(500).optional(),
+    employmentTypes: z
+        .array(z.enum(['FULLTIME', 'PARTTIME', 'CONTRACT', 'THIRD_PARTY']))
+        .optional(),
+    postedDate: z.enum(['ONE', 'THREE', 'SEVEN', 'THIRTY', 'ANY']).optional(),
+    workplaceTypes: z.array(z.enum(['Remote', 'On-Site', 'Hybrid'])).optional(),
+    easyApply: z.boolean().optional(),
+    maxJobs: z.number().min(0).max(10000).optional(),
+});
+
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
+
+// Rule selecting the jobs sent to a webhook; every given condition must match.
+// A rule with `search` only applies to jobs found by that saved search.
+export const NotificationRuleSchema = z.object({
+    search: z.string().min(1).optional(),
+    keywords: z.array(z.string().min(1)).optional(),
+    excludeKeywords: z.array(z.string().min(1)).optional(),
+    minSalaryAnnual: z.number().min(0).optional(),
+    workplaceTypes: z.array(z.enum(['Remote', 'On-Site', 'Hybrid'])).optional(),
+    easyApplyOnly: z.boolean().optional(),
+});
+
+export type NotificationRule = z.infer<typeof NotificationRuleSchema>;
+
+// Webhook notified about the jobs found in a run
+export const WebhookSchema = z.object({
+    url: z.string().url(),
+    format: z.enum(['json', 'slack']).optional().default('json'),
+    template: z.string().min(1).optional(),
+    secret: z.string().min(1).optional(),
+    headers: z.record(z.string()).optional().default({}),
+    rules: z.array(NotificationRuleSchema).optional().default([]),
+    batchSize: z.number().min(1).max(500).optional().default(50),
+});
+
+export type Webhook = z.infer<typeof WebhookSchema>;
+
+// Skill taxonomy entry. `aliases` are matched case-insensitively anywhere; `ambiguous`
+// terms (which may include the name) match case-sensitively and only count when a
+// `context` term or another skill appears next to them.
+export const SkillDefinitionSchema = z.object({
+    name: z.string().min(1),
+    category: z.string().min(1),
+    aliases: z.array(z.string().min(1)).optional().default([]),
+    ambiguous: z.array(z.string().min(1)).optional().default([]),
+    context: z.array(z.string().min(1)).optional().default([]),
+});
+
+export type SkillDefinition = z.infer<typeof SkillDefinitionSchema>;
+
+// Normalized seniority level of a job, from most junior to most senior
+export const SenioritySchema = z.enum([
+    'intern',
+    'entry',
+    'mid',
+    'senior',
+    'staff',
+    'manager',
+    'director',
+]);
+
+export type Seniority = z.infer<typeof SenioritySchema>;
+
+// Rule applied to jobs before they are saved; every given condition must match.
+// 'score' rules add their weight to the job's matchScore, 'require' rules drop the
+// jobs that do not match and 'exclude' rules drop the jobs that do.
+export const JobRuleSchema = z.object({
+    name: z.string().min(1).optional(),
+    action: z.enum(['score', 'require', 'exclude']).optional().default('score'),
+    weight: z.number().optional().default(1),
+    keywords: z.array(z.string().min(1)).optional(),
+    keywordsIn: z.enum(['title', 'description', 'any']).optional().default('any'),
+    companies: z.array(z.string().min(1)).optional(),
+    minSalaryAnnual: z.number().min(0).optional(),
+    skills: z.array(z.string().min(1)).optional(),
+    employmentTypes: z
+        .array(z.enum(['FULLTIME', 'PARTTIME', 'CONTRACT', 'THIRD_PARTY']))
+        .optional(),
+    workplaceTypes: z.array(z.enum(['Remote', 'On-Site', 'Hybrid'])).optional(),
+    seniority: z.array(SenioritySchema).optional(),
 });
 
+export type JobRule = z.infer<typeof JobRuleSchema>;
+
+// Input schema validation
+export const InputSchema = z
+    .object({
+        searchQuery: z.string().optional().default(''),
+        location: z.string().optional().default(''),
+        radius: z.number().min(0).max(500).optional().default(30),
+        employmentTypes: z
+            .array(z.enum(['FULLTIME', 'PARTTIME', 'CONTRACT', 'THIRD_PARTY']))
+            .optional()
+            .default([]),
+        postedDate: z.enum(['ONE', 'THREE', 'SEVEN', 'THIRTY', 'ANY']).optional().default('ANY'),
+        workplaceTypes: z
+            .array(z.enum(['Remote', 'On-Site', 'Hybrid']))
+            .optional()
+            .default([]),
+        easyApply: z.boolean().optional().default(false),
+        maxJobs: z.number().min(0).max(10000).optional().default(100),
+        maxDetailRequests: z.number().min(0).optional().default(0),
+        maxConcurrency: z.number().min(1).max(50).optional().default(10),
+        scrapeJobDetails: z.boolean().optional().default(true),
+        incrementalMode: z.boolean().optional().default(false),
+        incrementalStoreName: z
+            .string()
+            .regex(/^[a-zA-Z0-9-]+$/)
+            .optional()
+            .default('dice-seen-jobs'),
+        criticalFields: z
+            .array(z.string())
+            .optional()
+            .default(['title', 'company', 'location', 'description']),
+        minFieldFillRate: z.coerce.number().min(0).max(1).optional().default(0.8),
+        failOnLowFillRate: z.boolean().optional().default(false),
+        webhooks: z.array(WebhookSchema).optional().default([]),
+        exportFormats: z
+            .array(z.enum(['csv', 'jsonl']))
+            .optional()
+            .default([]),
+        exportColumns: z.array(z.string().min(1)).optional().default([]),
+        exportArrayDelimiter: z.string().optional().default('; '),
+        csvDelimiter: z.string().length(1).optional().default(','),
+        exportDropDescriptionHtml: z.boolean().optional().default(true),
+        exportDatasetId: z.string().min(1).optional(),
+        fixtureMode: z.enum(['off', 'replay', 'record']).optional().default('off'),
+        fixturesDir: z.string().min(1).optional().default('fixtures'),
+        skillTaxonomy: z.array(SkillDefinitionSchema).optional().default([]),
+        skillTaxonomyUrl: z.string().url().optional(),
+        skillTaxonomyMode: z.enum(['extend', 'replace']).optional().default('extend'),
+        seniorityFilter: z.array(SenioritySchema).optional().default([]),
+        includeUnknownSeniority: z.boolean().optional().default(true),
+        rules: z.array(JobRuleSchema).optional().default([]),
+        minMatchScore: z.coerce.number().optional(),
+        agencyPostings: z.enum(['include', 'exclude', 'group']).optional().default('include'),
+        agencyCompanies: z.array(z.string().min(1)).optional().default([]),
+        agencyDatasetName: z
+            .string()
+            .regex(/^[a-zA-Z0-9-]+$/)
+            .optional()
+            .default('dice-agency-jobs'),
+        clusterSimilarity: z.coerce.number().min(0).max(1).optional().default(0.8),
+        splitLargeSearches: z.boolean().optional().default(true),
+        browserFallback: z.boolean().optional().default(false),
+        trackLifecycle: z.boolean().optional().default(false),
+        lifecycleStoreName: z
+            .string()
+            .regex(/^[a-zA-Z0-9-]+$/)
+            .optional()
+            .default('dice-job-lifecycle'),
+        trackChanges: z.boolean().optional().default(false),
+        changeStoreName: z
+            .string()
+            .regex(/^[a-zA-Z0-9-]+$/)
+            .optional()
+            .default('dice-job-snapshots'),
+        changeDatasetName: z
+            .string()
+            .regex(/^[a-zA-Z0-9-]+$/)
+            .optional()
+            .default('dice-job-changes'),
+        changeIgnoreFields: z
+            .array(z.string().min(1))
+            .optional()
+            .default([
+                'scrapedAt',
+                'postedDate',
+                'descriptionHtml',
+                'fieldSources',
+                'searchNames',
+                'firstSeenAt',
+                'lastSeenAt',
+                'clusterId',
+                'clusterRepresentativeId',
+                'likelyDuplicateOf',
+            ]),
+        proxyConfiguration: z
+            .object({
+                useApifyProxy: z.boolean().optional(),
+                apifyProxyGroups: z.array(z.string()).optional(),
+                proxyUrls: z.array(z.string()).optional(),
+            })
+            .optional(),
+        startUrls: z
+            .array(
+                z.object({
+                    url: z.string().url(),
+                })
+            )
+            .optional()
+            .default([]),
+        searches: z.array(SavedSearchSchema).optional().default([]),
+        companies: z
+            .array(
+                z.string().refine(reference => parseCompanyReference(reference) !== null, {
+                    message: 'Expected a Dice company ID or company profile URL',
+                })
+            )
+            .optional()
+            .default([]),
+        scrapeCompanies: z.boolean().optional().default(false),
+        companyDatasetName: z
+            .string()
+            .regex(/^[a-zA-Z0-9-]+$/)
+            .optional()
+            .default('dice-companies'),
+    })
+    .refine(
+        input => {
+            const names = input.searches.map(search => search.name).filter(Boolean);
+            return new Set(names).size === names.length;
+        },
+        { message: 'Saved search names must be unique', path: ['searches'] }
+    )
+    .refine(input => input.webhooks.length === 0 || input.incrementalMode, {
+        message: 'Webhooks notify about new jobs and need incrementalMode',
+        path: ['webhooks'],
+    });
+
 export type Input = z.infer<typeof InputSchema>;
 
 // Job listing from search results
 export interface JobListingBasic {
     id: string;
+    guid?: string;
     title: string;
     company: string;
     companyId?: string;
+    companyPageUrl?: string;
     location: string;
     salary?: string;
     salaryMin?: number;
     salaryMax?: number;
     salaryCurrency?: string;
-    salaryPeriod?: string;
+    salaryPeriod?: SalaryPeriod;
+    salaryMinAnnual?: number;
+    salaryMaxAnnual?: number;
+    salaryMinHourly?: number;
+    salaryMaxHourly?: number;
+    salaryConfidence?: number;
+    salaryText?: string;
+    salaryNegotiable?: boolean;
+    salaryTaxTerm?: SalaryTaxTerm;
     jobType?: string;
     employmentType?: string;
     workplaceType?: string;
-    postedDate: string;
+    postedDate?: string;
     postedDateTimestamp?: number;
+    postedAt?: string;
+    updatedAt?: string;
     url: string;
     easyApply?: boolean;
     summary?: string;
+    searchNames?: string[];
+}
+
+// Pay period of a normalized salary
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+// Tax/engagement term attached to contract rates
+export type SalaryTaxTerm = 'W2' | 'C2C' | '1099';
+
+// Salary normalized to comparable annual and hourly equivalents.
+// Amounts stay in salaryCurrency; no currency conversion is applied.
+export interface NormalizedSalary {
+    salaryMin?: number;
+    salaryMax?: number;
+    salaryCurrency?: string;
+    salaryPeriod?: SalaryPeriod;
+    salaryMinAnnual?: number;
+    salaryMaxAnnual?: number;
+    salaryMinHourly?: number;
+    salaryMaxHourly?: number;
+    salaryConfidence: number;
+    salaryText?: string;
+    salaryNegotiable?: boolean;
+    salaryTaxTerm?: SalaryTaxTerm;
 }
 
 // Full job details from detail page
 export interface JobListingFull extends JobListingBasic {
     description?: string;
     descriptionHtml?: string;
+    responsibilities?: string[];
     requirements?: string[];
+    preferredQualifications?: string[];
     skills?: string[];
+    skillsByCategory?: Record<string, string[]>;
     benefits?: string[];
     experienceLevel?: string;
+    experienceYearsMin?: number;
+    experienceYearsMax?: number;
+    seniority?: Seniority;
+    matchScore?: number;
+    matchedRules?: string[];
+    isStaffingAgency?: boolean;
+    agencySignals?: string[];
+    likelyDuplicateOf?: string;
+    clusterId?: string;
+    clusterRepresentativeId?: string;
+    city?: string;
+    state?: string;
+    countryCode?: string;
+    postalCode?: string;
+    latitude?: number;
+    longitude?: number;
+    isRemote?: boolean;
+    isHybrid?: boolean;
+    locations?: LocationPlace[];
+    firstSeenAt?: string;
+    lastSeenAt?: string;
     educationLevel?: string;
     industry?: string;
     companyDescription?: string;
     companyWebsite?: string;
     companySize?: string;
+    companyHeadquarters?: string;
     companyLogo?: string;
     applicationUrl?: string;
     contactEmail?: string;
     isSponsored?: boolean;
+    expiresAt?: string;
+    fieldSources?: Partial<Record<keyof JobListingFull, FieldSource>>;
+    error?: string;
+    scrapedAt: string;
+}
+
+// Years of experience and seniority level derived from a job
+export interface ExperienceProfile {
+    experienceYearsMin?: number;
+    experienceYearsMax?: number;
+    seniority?: Seniority;
+}
+
+// Section of a job description
+export type DescriptionSectionName =
+    'responsibilities' | 'requirements' | 'preferredQualifications' | 'benefits' | 'about';
+
+// Bullet items found under each section of a job description
+export type DescriptionSections = Record<DescriptionSectionName, string[]>;
+
+// Extractor that produced a job field: embedded JSON-LD, embedded Next.js/hydration
+// JSON, a CSS selector, a description heuristic, the search result, or the
+// company profile page
+export type FieldSource = 'jsonLd' | 'nextData' | 'selector' | 'description' | 'search' | 'company';
+
+// Company profile scraped from a Dice company page
+export interface CompanyProfile {
+    companyId: string;
+    name: string;
+    url: string;
+    description?: string;
+    website?: string;
+    size?: string;
+    industry?: string;
+    headquarters?: string;
+    logo?: string;
+    openJobs?: number;
     scrapedAt: string;
 }
 
@@ -111,14 +414,24 @@ export interface DiceSearchJob {
 }
 
 // Request labels
-export type RequestLabel = 'SEARCH' | 'SEARCH_API' | 'JOB_DETAIL';
+export type RequestLabel = 'SEARCH' | 'SEARCH_API' | 'JOB_DETAIL' | 'COMPANY';
 
 // Request user data
 export interface RequestUserData {
     label: RequestLabel;
     page?: number;
+    searchName?: string;
     searchParams?: SearchParams;
+    partition?: string;
     jobBasic?: JobListingBasic;
+    companyId?: string;
+}
+
+// Saved search resolved against the top-level input defaults
+export interface ResolvedSearch {
+    name: string;
+    maxJobs: number;
+    params: SearchParams;
 }
 
 // Search parameters for API
@@ -130,10 +443,86 @@ export interface SearchParams {
     postedDate: string;
     workplaceTypes: string[];
     easyApply: boolean;
+    companyId?: string;
     page: number;
     pageSize: number;
 }
 
+// Incremental mode summary (new/updated/unchanged job counts)
+export interface IncrementalStats {
+    new: number;
+    updated: number;
+    unchanged: number;
+}
+
+// Page types whose selectors are tracked in the extraction report
+export type SelectorPageType = 'search' | 'detail';
+
+// Fill rate of one selector across the pages it applies to
+export interface SelectorHealth {
+    selector: string;
+    pageType: SelectorPageType;
+    pagesChecked: number;
+    pagesMatched: number;
+    fillRate: number;
+}
+
+// Fill rate of one job field across the saved records
+export interface FieldHealth {
+    filled: number;
+    fillRate: number;
+    // Fill rate over detail-page records, counting only values found on the page itself
+    pageFillRate?: number;
+    sources: Partial<Record<FieldSource, number>>;
+}
+
+// Overall outcome of the extraction quality check
+export type ExtractionStatus = 'ok' | 'warning' | 'failed' | 'skipped';
+
+// Extraction-quality report saved as EXTRACTION_REPORT
+export interface ExtractionReport {
+    status: ExtractionStatus;
+    jobsChecked: number;
+    detailPagesChecked: number;
+    searchPagesChecked: number;
+    minFieldFillRate: number;
+    criticalFields: string[];
+    lowFillRateFields: { field: string; fillRate: number }[];
+    selectors: Record<string, SelectorHealth>;
+    fields: Record<string, FieldHealth>;
+}
+
+// File formats written by the export stage
+export type ExportFormat = 'csv' | 'jsonl';
+
+// Options for the CSV/JSONL export stage
+export interface ExportOptions {
+    formats: ExportFormat[];
+    columns: string[];
+    arrayDelimiter: string;
+    csvDelimiter: string;
+    dropDescriptionHtml: boolean;
+}
+
+// Fixture server mode: serve recorded responses, or record live ones
+export type FixtureMode = 'replay' | 'record';
+
+// Recorded response in a fixtures manifest (status and content type are
+// optional in hand-written fixtures and inferred from the file)
+export interface FixtureEntry {
+    file: string;
+    status?: number;
+    contentType?: string;
+}
+
+// Webhook delivery summary
+export interface NotificationStats {
+    webhooks: number;
+    batchesSent: number;
+    batchesFailed: number;
+    jobsNotified: number;
+}
+
 // Statistics for the run
 export interface RunStatistics {
     jobsFound: number;
@@ -142,4 +531,176 @@ export interface RunStatistics {
     errors: number;
     startTime: Date;
     endTime?: Date;
+    incremental?: IncrementalStats;
+    notifications?: NotificationStats;
+    rules?: RuleStats;
+    agencies?: AgencyStats;
+    clusters?: ClusterStats;
+    lifecycle?: LifecycleStats;
+    changes?: ChangeStats;
+    coverage?: SearchCoverage[];
+    budget?: BudgetStats;
+    blocking?: BlockingStats;
+}
+
+// Why a response was treated as blocked
+export type BlockReason = 'forbidden' | 'rate-limited' | 'captcha' | 'empty-response';
+
+// Blocked response and the throttling it caused
+export interface BlockEvent {
+    host: string;
+    url: string;
+    reason: BlockReason;
+    detectedAt: string;
+    backoffMs: number;
+    concurrency: number;
+}
+
+// Blocked responses of the run, per reason and host, and the latest block events
+export interface BlockingStats {
+    blocks: number;
+    byReason: Partial<Record<BlockReason, number>>;
+    byHost: Record<string, number>;
+    concurrency: number;
+    events: BlockEvent[];
+}
+
+// Jobs saved, dropped and still pending against the maxJobs budget, job detail
+// requests made and result pages fetched again to replace dropped jobs
+export interface BudgetStats {
+    committed: number;
+    released: number;
+    pending: number;
+    detailRequests: number;
+    refillPages: number;
+}
+
+// Jobs a saved search and its sub-searches reached, compared with the total Dice reported
+export interface SearchCoverage {
+    searchName: string;
+    totalJobs: number;
+    jobsReached: number;
+    coverage: number;
+    subSearches: number;
+    cappedSubSearches: number;
+    partialSplits: number;
+}
+
+// Change of one field of a re-scraped job, saved to the change dataset
+export interface JobChange {
+    jobId: string;
+    title: string;
+    company: string;
+    url: string;
+    field: string;
+    oldValue: unknown;
+    newValue: unknown;
+    detectedAt: string;
+    previousScrapedAt?: string;
+}
+
+// Change-history summary (jobs compared with their stored versions)
+export interface ChangeStats {
+    compared: number;
+    newJobs: number;
+    changedJobs: number;
+    changes: number;
+}
+
+// Why a tracked job was closed: complete searches no longer return it, or its page is gone
+export type ClosedReason = 'missing' | 'removed';
+
+// Job closed in this run, as listed in the time-to-fill report
+export interface ClosedJob {
+    id: string;
+    title?: string;
+    company?: string;
+    postedAt?: string;
+    firstSeenAt: string;
+    closedAt: string;
+    closedReason: ClosedReason;
+    daysOpen: number;
+}
+
+// Job lifecycle summary across runs (days open of every closed job)
+export interface LifecycleStats {
+    tracked: number;
+    active: number;
+    closed: number;
+    closedThisRun: number;
+    reopened: number;
+    medianDaysOpen?: number;
+    averageDaysOpen?: number;
+}
+
+// Time-to-fill report saved as TIME_TO_FILL
+export interface TimeToFillReport {
+    stats: LifecycleStats;
+    closedJobs: ClosedJob[];
+}
+
+// Staffing-agency classification of a job
+export interface AgencyProfile {
+    isStaffingAgency: boolean;
+    agencySignals: string[];
+}
+
+// Staffing-agency postings found in a run
+export interface AgencyStats {
+    flagged: number;
+    duplicates: number;
+    excluded: number;
+    grouped: number;
+}
+
+// Place parsed from a location string; state is the state or province code
+// and countryCode the ISO 3166-1 alpha-2 code
+export interface LocationPlace {
+    city?: string;
+    state?: string;
+    countryCode?: string;
+    postalCode?: string;
+    latitude?: number;
+    longitude?: number;
+}
+
+// Places and remote/hybrid markers of a location string
+export interface ParsedLocation {
+    places: LocationPlace[];
+    isRemote: boolean;
+    isHybrid: boolean;
+}
+
+// Near-duplicate postings of one opening
+export interface JobCluster {
+    clusterId: string;
+    representativeId: string;
+    size: number;
+    jobIds: string[];
+    titles: string[];
+    companies: string[];
+    locations: string[];
+}
+
+// Postings and unique openings saved in a run
+export interface ClusterStats {
+    postings: number;
+    uniqueOpenings: number;
+    duplicatePostings: number;
+    clustersWithDuplicates: number;
+    largestCluster: number;
+}
+
+// Clusters of a run, saved to the key-value store
+export interface ClusterReport {
+    stats: ClusterStats;
+    clusters: JobCluster[];
+}
+
+// Outcome of the post-scrape rules for a run
+export interface RuleStats {
+    evaluated: number;
+    saved: number;
+    belowThreshold: number;
+    droppedByRule: Record<string, number>;
 }
@@ -1,6 +1,32 @@
 import { log } from 'crawlee';
-import type { Input, JobListingBasic, DiceSearchJob, SearchParams } from './types.js';
-import { DICE_BASE_URL, POSTED_DATE_MAP, WORKPLACE_TYPE_MAP } from './constants.js';
+import type {
+    Input,
+    JobListingBasic,
+    DiceSearchJob,
+    SearchParams,
+    SavedSearch,
+    ResolvedSearch,
+} from './types.js';
+import {
+    DICE_BASE_URL,
+    DEFAULT_SEARCH_NAME,
+    DEFAULT_COUNTRY_CODE,
+    POSTED_DATE_MAP,
+    REQUEST_CONFIG,
+    WORKPLACE_TYPE_MAP,
+} from './constants.js';
+import { bestSalary, normalizeSalary, normalizeSalaryEstimate } from './salary.js';
+import { getCompanyPageUrl, parseCompanyReference } from './company.js';
+import { toIsoDate, toTimestamp } from './dates.js';
+import { SkillTaxonomy } from './skills.js';
+import { geocodeLocation } from './location.js';
+
+// Opening or closing tag of a block-level element, or a line break
+const BLOCK_BOUNDARY =
+    /<\/?(?:p|div|li|ul|ol|h[1-6]|br|hr|tr|td|th|table|section|article|blockquote|pre)\b[^>]*>/gi;
+
+// Built-in skill taxonomy used by extractSkills
+const defaultSkillTaxonomy = new SkillTaxonomy();
 
 /**
  * Build the search URL for Dice.com API
@@ -13,10 +39,13 @@ export function buildSearchApiUrl(params: SearchParams): string {
     }
 
     if (params.location) {
+        const place = geocodeLocation(params.location);
         urlParams.set('location', params.location);
-        urlParams.set('latitude', '');
-        urlParams.set('longitude', '');
-        urlParams.set('countryCode2', 'US');
+        if (place?.latitude !== undefined && place.longitude !== undefined) {
+            urlParams.set('latitude', place.latitude.toString());
+            urlParams.set('longitude', place.longitude.toString());
+        }
+        urlParams.set('countryCode2', place?.countryCode ?? DEFAULT_COUNTRY_CODE);
     }
 
     if (params.radius > 0) {
@@ -47,6 +76,10 @@ export function buildSearchApiUrl(params: SearchParams): string {
         urlParams.set('easyApply', 'true');
     }
 
+    if (params.companyId) {
+        urlParams.set('filters.companyId', params.companyId);
+    }
+
     urlParams.set('page', params.page.toString());
     urlParams.set('pageSize', params.pageSize.toString());
     urlParams.set('filters.isRemote', 'true');
@@ -58,45 +91,112 @@ export function buildSearchApiUrl(params: SearchParams): string {
 /**
  * Build the search URL for Dice.com website
  */
-export function buildSearchUrl(input: Input, page: number = 1): string {
-    const params = new URLSearchParams();
+export function buildSearchUrl(params: SearchParams, page: number = 1): string {
+    const urlParams = new URLSearchParams();
 
-    if (input.searchQuery) {
-        params.set('q', input.searchQuery);
+    if (params.query) {
+        urlParams.set('q', params.query);
     }
 
-    if (input.location) {
-        params.set('location', input.location);
+    if (params.location) {
+        const place = geocodeLocation(params.location);
+        urlParams.set('location', params.location);
+        if (place?.latitude !== undefined && place.longitude !== undefined) {
+            urlParams.set('latitude', place.latitude.toString());
+            urlParams.set('longitude', place.longitude.toString());
+        }
+        urlParams.set('countryCode', place?.countryCode ?? DEFAULT_COUNTRY_CODE);
     }
 
-    if (input.radius > 0) {
-        params.set('radius', input.radius.toString());
+    if (params.radius > 0) {
+        urlParams.set('radius', params.radius.toString());
     }
 
-    if (input.employmentTypes && input.employmentTypes.length > 0) {
-        input.employmentTypes.forEach(type => {
-            params.append('filters.employmentType', type);
-        });
+    params.employmentTypes.forEach(type => {
+        urlParams.append('filters.employmentType', type);
+    });
+
+    if (params.postedDate && params.postedDate !== 'ANY') {
+        urlParams.set('filters.postedDate', params.postedDate);
     }
 
-    if (input.postedDate && input.postedDate !== 'ANY') {
-        params.set('filters.postedDate', input.postedDate);
+    params.workplaceTypes.forEach(type => {
+        urlParams.append('filters.workplaceTypes', type);
+    });
+
+    if (params.easyApply) {
+        urlParams.set('filters.easyApply', 'true');
     }
 
-    if (input.workplaceTypes && input.workplaceTypes.length > 0) {
-        input.workplaceTypes.forEach(type => {
-            params.append('filters.workplaceTypes', type);
-        });
+    if (params.companyId) {
+        urlParams.set('filters.companyId', params.companyId);
     }
 
-    if (input.easyApply) {
-        params.set('filters.easyApply', 'true');
+    urlParams.set('page', page.toString());
+    urlParams.set('pageSize', '100');
+
+    return `${DICE_BASE_URL}/jobs?${urlParams.toString()}`;
+}
+
+/**
+ * Resolve the searches to run: the saved `searches` entries, or a single
+ * search built from the top-level input fields. Entries inherit missing
+ * filters from the top-level input; unnamed entries get a unique `search-N` name.
+ */
+export function resolveSearches(input: Input): ResolvedSearch[] {
+    const companyIds = input.companies
+        .map(parseCompanyReference)
+        .filter((companyId): companyId is string => Boolean(companyId));
+
+    // Company mode replaces the default search; saved searches still run alongside it
+    const entries: (SavedSearch & { companyId?: string })[] =
+        input.searches.length > 0 || companyIds.length > 0
+            ? [...input.searches]
+            : [
+                  {
+                      name: DEFAULT_SEARCH_NAME,
+                      searchQuery: input.searchQuery,
+                      location: input.location,
+                  },
+              ];
+
+    // One search per company for all of its open jobs, narrowed by the top-level filters
+    for (const companyId of Array.from(new Set(companyIds))) {
+        entries.push({
+            name: `company-${companyId}`,
+            searchQuery: input.searchQuery,
+            location: input.location,
+            companyId,
+        });
     }
 
-    params.set('page', page.toString());
-    params.set('pageSize', '100');
+    // Unnamed entries are numbered by position, skipping names already taken
+    const usedNames = new Set(entries.map(entry => entry.name).filter(Boolean));
+    const resolveName = (entry: SavedSearch, index: number): string => {
+        if (entry.name) return entry.name;
+
+        let number = index + 1;
+        while (usedNames.has(`search-${number}`)) number++;
+        usedNames.add(`search-${number}`);
+        return `search-${number}`;
+    };
 
-    return `${DICE_BASE_URL}/jobs?${params.toString()}`;
+    return entries.map((entry, index) => ({
+        name: resolveName(entry, index),
+        maxJobs: entry.maxJobs ?? input.maxJobs,
+        params: {
+            query: entry.searchQuery || '',
+            location: entry.location || '',
+            radius: entry.radius ?? input.radius,
+            employmentTypes: entry.employmentTypes ?? input.employmentTypes,
+            postedDate: entry.postedDate ?? input.postedDate,
+            workplaceTypes: entry.workplaceTypes ?? input.workplaceTypes,
+            easyApply: entry.easyApply ?? input.easyApply,
+            companyId: entry.companyId,
+            page: 1,
+            pageSize: REQUEST_CONFIG.PAGE_SIZE,
+        },
+    }));
 }
 
 /**
@@ -109,19 +209,25 @@ export function parseJobFromApi(job: DiceSearchJob): JobListingBasic {
 
     return {
         id: job.id || job.guid || '',
+        guid: job.guid || extractJobIdFromUrl(jobUrl) || undefined,
         title: cleanText(job.title || ''),
         company: cleanText(job.companyName || ''),
         companyId: job.companyId,
+        companyPageUrl: job.companyId
+            ? getCompanyPageUrl(job.companyId, job.companyPageUrl)
+            : undefined,
         location: cleanText(job.jobLocation?.displayName || ''),
         salary: job.salary || formatSalary(job.salaryEstimate),
-        salaryMin: job.salaryEstimate?.minValue,
-        salaryMax: job.salaryEstimate?.maxValue,
-        salaryCurrency: job.salaryEstimate?.currency,
-        salaryPeriod: job.salaryEstimate?.unitText,
+        ...bestSalary(
+            normalizeSalary(job.salary || ''),
+            normalizeSalaryEstimate(job.salaryEstimate)
+        ),
         employmentType: job.employmentType,
         workplaceType: job.workFromHomeAvailability || (job.isRemote ? 'Remote' : undefined),
-        postedDate: formatPostedDate(job.postedDate),
-        postedDateTimestamp: job.postedDate ? new Date(job.postedDate).getTime() : undefined,
+        postedDate: job.postedDate ? formatPostedDate(job.postedDate) : undefined,
+        postedDateTimestamp: toTimestamp(job.postedDate),
+        postedAt: toIsoDate(job.postedDate),
+        updatedAt: toIsoDate(job.modifiedDate),
         url: jobUrl,
         easyApply: job.easyApply,
         summary: cleanText(job.summary || ''),
@@ -154,7 +260,8 @@ export function formatSalary(estimate?: { minValue?: number; maxValue?: number;
 }
 
 /**
- * Format posted date to human-readable format
+ * Format posted date to a human-readable display string ("3 days ago"). The
+ * string is relative to the crawl, so `postedAt` is the date to store and compare.
  */
 export function formatPostedDate(dateString: string): string {
     if (!dateString) return 'Unknown';
@@ -205,71 +312,38 @@ export function cleanText(text: string): string {
 }
 
 /**
- * Extract skills from text
+ * Convert an HTML fragment to clean text, keeping words of adjacent paragraphs,
+ * list items and line breaks apart
  */
-export function extractSkills(text: string): string[] {
-    // Common tech skills pattern
-    const skillPatterns = [
-        /\b(JavaScript|TypeScript|Python|Java|C\+\+|C#|Ruby|Go|Rust|Swift|Kotlin|PHP|Scala|R)\b/gi,
-        /\b(React|Angular|Vue|Node\.js|Express|Django|Flask|Spring|Rails|Laravel)\b/gi,
-        /\b(AWS|Azure|GCP|Docker|Kubernetes|Jenkins|Git|CI\/CD|DevOps)\b/gi,
-        /\b(SQL|MySQL|PostgreSQL|MongoDB|Redis|Elasticsearch|GraphQL|REST|API)\b/gi,
-        /\b(Machine Learning|ML|AI|Data Science|Deep Learning|NLP|TensorFlow|PyTorch)\b/gi,
-        /\b(Agile|Scrum|Jira|Confluence|Slack|Teams)\b/gi,
-    ];
-
-    const skills = new Set<string>();
-
-    for (const pattern of skillPatterns) {
-        const matches = text.match(pattern);
-        if (matches) {
-            matches.forEach(skill => skills.add(skill));
-        }
-    }
+export function htmlToText(html: string): string {
+    if (!html) return '';
+
+    return cleanText(html.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(BLOCK_BOUNDARY, ' '));
+}
 
-    return Array.from(skills);
+/**
+ * Extract canonical skill names from text using the built-in skill taxonomy
+ */
+export function extractSkills(text: string): string[] {
+    return defaultSkillTaxonomy.extract(text).skills;
 }
 
 /**
  * Parse salary range from text
  */
 export function parseSalaryFromText(text: string): { min?: number; max?: number; currency?: string; period?: string } | null {
-    if (!text) return null;
-
-    // Match patterns like "$80,000 - $120,000", "$50/hour", "$100K - $150K"
-    const rangeMatch = text.match(/\$?([\d,]+(?:\.?\d{0,2})?)\s*[kK]?\s*[-–to]+\s*\$?([\d,]+(?:\.?\d{0,2})?)\s*[kK]?/);
-    const singleMatch = text.match(/\$?([\d,]+(?:\.?\d{0,2})?)\s*[kK]?/);
-    const periodMatch = text.match(/\/(hour|hr|year|yr|month|mo|week|wk|day)/i);
-
-    const parseValue = (val: string): number => {
-        const cleaned = val.replace(/,/g, '');
-        let num = parseFloat(cleaned);
-        if (val.toLowerCase().includes('k') || (num < 1000 && !periodMatch)) {
-            num *= 1000;
-        }
-        return num;
-    };
-
-    if (rangeMatch) {
-        return {
-            min: parseValue(rangeMatch[1]),
-            max: parseValue(rangeMatch[2]),
-            currency: 'USD',
-            period: periodMatch ? periodMatch[1].toLowerCase() : 'year',
-        };
-    }
+    const normalized = normalizeSalary(text);
 
-    if (singleMatch) {
-        const value = parseValue(singleMatch[1]);
-        return {
-            min: value,
-            max: value,
-            currency: 'USD',
-            period: periodMatch ? periodMatch[1].toLowerCase() : 'year',
-        };
+    if (!normalized || (normalized.salaryMin === undefined && normalized.salaryMax === undefined)) {
+        return null;
     }
 
-    return null;
+    return {
+        min: normalized.salaryMin,
+        max: normalized.salaryMax,
+        currency: normalized.salaryCurrency,
+        period: normalized.salaryPeriod,
+    };
 }
 
 /**